@@ -0,0 +1,76 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { StorageBackend } from "../core/types";
+
+/**
+ * A Node.js storage backend that persists all entries to a single JSON file.
+ * Entries are loaded once on construction and the file is rewritten after every change.
+ *
+ * Import it from `@brushy/localstorage/node` so browser bundles never pull in `fs`.
+ *
+ * @example
+ * ```typescript
+ * import { LocalStorage } from "@brushy/localstorage";
+ * import { FileStorageBackend } from "@brushy/localstorage/node";
+ *
+ * const storage = new LocalStorage("@cli:", {
+ *   backend: new FileStorageBackend("./.cache/storage.json"),
+ * });
+ * ```
+ */
+export class FileStorageBackend implements StorageBackend {
+  private store: Record<string, string> = {};
+
+  /**
+   * Creates a new file-backed storage.
+   * @param filePath - Path of the JSON file. It is created on the first write if missing.
+   */
+  constructor(private readonly filePath: string) {
+    this.load();
+  }
+
+  getItem(key: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this.store, key)
+      ? this.store[key]
+      : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.store[key] = String(value);
+    this.flush();
+  }
+
+  removeItem(key: string): void {
+    if (!Object.prototype.hasOwnProperty.call(this.store, key)) return;
+    delete this.store[key];
+    this.flush();
+  }
+
+  keys(): string[] {
+    return Object.keys(this.store);
+  }
+
+  /**
+   * Reads the backing file into memory, ignoring missing or corrupted files.
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, "utf8"));
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        this.store = parsed;
+      }
+    } catch (error) {
+      console.warn("[FileStorageBackend] Could not read storage file:", error);
+    }
+  }
+
+  /**
+   * Writes the in-memory entries back to the backing file.
+   */
+  private flush(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(this.store), "utf8");
+  }
+}
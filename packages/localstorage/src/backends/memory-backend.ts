@@ -0,0 +1,40 @@
+import type { StorageBackend } from "../core/types";
+
+/**
+ * An in-memory storage backend. Useful for SSR, tests and short-lived
+ * processes where no persistent storage is available.
+ *
+ * @example
+ * ```typescript
+ * const storage = new LocalStorage("@test:", {
+ *   backend: new MemoryStorageBackend(),
+ * });
+ * ```
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private store: Map<string, string>;
+
+  /**
+   * Creates a new in-memory backend.
+   * @param initial - Optional raw entries to seed the backend with.
+   */
+  constructor(initial: Record<string, string> = {}) {
+    this.store = new Map(Object.entries(initial));
+  }
+
+  getItem(key: string): string | null {
+    return this.store.has(key) ? this.store.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.store.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.store.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.store.keys());
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileStorageBackend } from "../file-backend";
+import { LocalStorage } from "../../lib/localstorage";
+
+describe("FileStorageBackend", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "brushy-storage-"));
+    filePath = join(dir, "nested", "storage.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should persist entries to disk", () => {
+    const backend = new FileStorageBackend(filePath);
+
+    backend.setItem("a", "1");
+
+    expect(JSON.parse(readFileSync(filePath, "utf8"))).toEqual({ a: "1" });
+  });
+
+  it("should reload entries written by a previous instance", () => {
+    const storage = new LocalStorage("@cli:", {
+      backend: new FileStorageBackend(filePath),
+    });
+    storage.set("config", { verbose: true });
+
+    const reloaded = new LocalStorage("@cli:", {
+      backend: new FileStorageBackend(filePath),
+    });
+
+    expect(reloaded.get("config")).toEqual({ verbose: true });
+  });
+
+  it("should remove entries and list keys", () => {
+    const backend = new FileStorageBackend(filePath);
+    backend.setItem("a", "1");
+    backend.setItem("b", "2");
+
+    backend.removeItem("a");
+
+    expect(backend.keys()).toEqual(["b"]);
+    expect(backend.getItem("a")).toBeNull();
+  });
+
+  it("should ignore a corrupted storage file", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const corruptedPath = join(dir, "corrupted.json");
+    writeFileSync(corruptedPath, "not json");
+
+    const backend = new FileStorageBackend(corruptedPath);
+
+    expect(backend.keys()).toEqual([]);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
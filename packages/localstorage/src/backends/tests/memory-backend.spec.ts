@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { MemoryStorageBackend } from "../memory-backend";
+import { LocalStorage } from "../../lib/localstorage";
+
+describe("MemoryStorageBackend", () => {
+  it("should store, read and remove raw values", () => {
+    const backend = new MemoryStorageBackend();
+
+    backend.setItem("a", "1");
+    expect(backend.getItem("a")).toBe("1");
+    expect(backend.getItem("missing")).toBeNull();
+
+    backend.removeItem("a");
+    expect(backend.getItem("a")).toBeNull();
+  });
+
+  it("should list stored keys", () => {
+    const backend = new MemoryStorageBackend({ a: "1", b: "2" });
+    expect(backend.keys()).toEqual(["a", "b"]);
+  });
+
+  it("should back a LocalStorage instance", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@test:", { backend });
+
+    storage.set("user", { name: "John" }, { ttl: 1000 });
+
+    expect(storage.get("user")).toEqual({ name: "John" });
+    expect(storage.getTTL("user")).toBeGreaterThan(0);
+    expect(backend.keys()).toEqual(["@test:user"]);
+
+    storage.clear();
+    expect(backend.keys()).toEqual([]);
+  });
+
+  it("should keep instances with different backends isolated", () => {
+    const first = new LocalStorage("@test:", {
+      backend: new MemoryStorageBackend(),
+    });
+    const second = new LocalStorage("@test:", {
+      backend: new MemoryStorageBackend(),
+    });
+
+    first.set("key", "value");
+
+    expect(first.get("key")).toBe("value");
+    expect(second.get("key")).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { WebStorageBackend } from "../web-storage-backend";
+import { JSONStorage } from "../../lib/json-storage";
+
+describe("WebStorageBackend", () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it("should delegate to the wrapped storage area", () => {
+    const backend = new WebStorageBackend(sessionStorage);
+
+    backend.setItem("a", "1");
+    expect(sessionStorage.getItem("a")).toBe("1");
+    expect(backend.getItem("a")).toBe("1");
+    expect(backend.keys()).toEqual(["a"]);
+
+    backend.removeItem("a");
+    expect(sessionStorage.getItem("a")).toBeNull();
+  });
+
+  it("should create backends for localStorage and sessionStorage", () => {
+    expect(WebStorageBackend.local().area).toBe(globalThis.localStorage);
+    expect(WebStorageBackend.session().area).toBe(globalThis.sessionStorage);
+  });
+
+  it("should let JSONStorage persist to sessionStorage", () => {
+    const storage = new JSONStorage("@session:", {
+      backend: WebStorageBackend.session(),
+    });
+
+    storage.setJSON("prefs", { theme: "dark" });
+
+    expect(storage.getJSON("prefs")).toEqual({ theme: "dark" });
+    expect(sessionStorage.getItem("@session:prefs")).not.toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import type { StorageBackend } from "../core/types";
+
+/**
+ * A storage backend that delegates to a Web Storage area such as
+ * `localStorage` or `sessionStorage`.
+ *
+ * @example
+ * ```typescript
+ * const storage = new LocalStorage("@myapp:", {
+ *   backend: WebStorageBackend.session(),
+ * });
+ * ```
+ */
+export class WebStorageBackend implements StorageBackend {
+  /**
+   * Creates a backend bound to the given Web Storage area.
+   * @param area - The `Storage` object to read from and write to.
+   */
+  constructor(readonly area: Storage) {}
+
+  /**
+   * Creates a backend bound to `globalThis.localStorage`.
+   * @throws {Error} If the environment does not support localStorage.
+   */
+  static local(): WebStorageBackend {
+    if (typeof globalThis === "undefined" || !globalThis.localStorage) {
+      throw new Error(
+        "[LocalStorage] This library requires an environment with localStorage support.",
+      );
+    }
+    return new WebStorageBackend(globalThis.localStorage);
+  }
+
+  /**
+   * Creates a backend bound to `globalThis.sessionStorage`.
+   * @throws {Error} If the environment does not support sessionStorage.
+   */
+  static session(): WebStorageBackend {
+    if (typeof globalThis === "undefined" || !globalThis.sessionStorage) {
+      throw new Error(
+        "[WebStorageBackend] This environment does not support sessionStorage.",
+      );
+    }
+    return new WebStorageBackend(globalThis.sessionStorage);
+  }
+
+  getItem(key: string): string | null {
+    return this.area.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.area.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.area.removeItem(key);
+  }
+
+  keys(): string[] {
+    return Object.keys(this.area);
+  }
+}
@@ -0,0 +1,52 @@
+import type { ValidationIssue } from "./types";
+
+/**
+ * Thrown when a value does not match the validator registered for its key.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   storage.setJSON("user:1", { name: 42 });
+ * } catch (error) {
+ *   if (error instanceof StorageValidationError) {
+ *     console.log(error.issues); // [{ path: ["name"], message: "Expected string, received number" }]
+ *   }
+ * }
+ * ```
+ */
+export class StorageValidationError extends Error {
+  constructor(
+    readonly key: string,
+    readonly issues: ValidationIssue[],
+  ) {
+    super(
+      `[JSONStorage] Invalid value for "${key}": ${issues
+        .map(({ path, message }) =>
+          path.length ? `${path.join(".")}: ${message}` : message,
+        )
+        .join("; ")}`,
+    );
+    this.name = "StorageValidationError";
+  }
+}
+
+/**
+ * Thrown by an outbox sender when the server rejects a mutation because it conflicts
+ * with the current state. The outbox then asks its `onConflict` callback what to do.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new Outbox({
+ *   send: async (mutation) => {
+ *     const response = await fetch("/api/todos", { method: "POST", body: JSON.stringify(mutation) });
+ *     if (response.status === 409) throw new OutboxConflictError(await response.json());
+ *   },
+ * });
+ * ```
+ */
+export class OutboxConflictError extends Error {
+  constructor(readonly current?: unknown) {
+    super("[Outbox] The mutation conflicts with the current state.");
+    this.name = "OutboxConflictError";
+  }
+}
@@ -1,13 +1,26 @@
 export interface StorageOptions {
   ttl?: number;
   compress?: boolean;
+  /**
+   * Encrypts the item with AES-GCM. Requires the `encryptionKey` provider and the async methods.
+   */
+  encrypt?: boolean;
+  /**
+   * Restarts the TTL every time the item is read.
+   */
+  sliding?: boolean;
 }
 
 export interface StorageItem<T> {
   value: T;
   timestamp: number;
   ttl?: number;
+  sliding?: boolean;
   compressed?: boolean;
+  /**
+   * Version of the value's shape, set from the registered migrations. Missing means version 0.
+   */
+  version?: number;
 }
 
 export type StorageEventListener = (
@@ -16,20 +29,309 @@ export type StorageEventListener = (
   oldValue: any,
 ) => void;
 
+export type StorageExpireListener = (key: string, oldValue: any) => void;
+
+export interface SweeperOptions {
+  /**
+   * Time between sweeps, in milliseconds. Defaults to 60000.
+   */
+  interval?: number;
+  /**
+   * Waits for the browser to be idle before each sweep, using `requestIdleCallback`.
+   */
+  idle?: boolean;
+}
+
+export interface StorageChange {
+  key: string;
+  newValue: any;
+  oldValue: any;
+}
+
+/**
+ * Receives the changes of a transaction, or of a single write, in one call.
+ */
+export type StorageBatchListener = (changes: StorageChange[]) => void;
+
+/**
+ * Minimal synchronous key/value backend used by `LocalStorage` to persist raw strings.
+ * Any object implementing these methods can be injected through the constructor.
+ */
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+export interface StorageSyncOptions {
+  /**
+   * Name of the BroadcastChannel used to share changes. Defaults to '@brushy/storage'.
+   */
+  channel?: string;
+}
+
+export type EvictionStrategy = "lru" | "lfu" | "ttl-first";
+
+export interface QuotaExceededInfo {
+  /**
+   * The key being written.
+   */
+  key: string;
+  /**
+   * Size in bytes of the value being written.
+   */
+  size: number;
+  /**
+   * Bytes currently used by the other keys of the prefix.
+   */
+  usage: number;
+  maxBytes?: number;
+  /**
+   * The error thrown by the backend, when it rejected the write.
+   */
+  error?: unknown;
+}
+
+export interface QuotaPolicy {
+  /**
+   * Byte budget for all keys of the prefix, measured like `getSize`.
+   */
+  maxBytes?: number;
+  eviction?: EvictionStrategy;
+  /**
+   * Called before evicting. Return `false` to reject the write instead.
+   */
+  onQuotaExceeded?: (info: QuotaExceededInfo) => boolean | void;
+}
+
+export interface SetResult {
+  success: boolean;
+  evicted: string[];
+}
+
+/**
+ * Upgrades stored values of the matching keys to a new version of their shape.
+ */
+export interface StorageMigration {
+  /**
+   * The keys the migration applies to. Use `**` to cover every key of the prefix.
+   */
+  pattern: KeyPattern;
+  /**
+   * The version a value has once this migration ran.
+   */
+  version: number;
+  migrate: (value: any, key: string) => any;
+}
+
+/**
+ * How a lazy field of a `LazyStorage` object is split across keys.
+ */
+export interface StorageChunkLayout {
+  /**
+   * Dotted path of the field.
+   */
+  field: string;
+  type: "array" | "object";
+  /**
+   * Keys holding the field, in order.
+   */
+  keys: string[];
+  /**
+   * Number of items of an array field.
+   */
+  total?: number;
+  chunkSize?: number;
+}
+
+/**
+ * What `inspect` reports about a stored key.
+ */
+export interface StorageInspection {
+  key: string;
+  /**
+   * Size in bytes of the stored item, as `getSize` measures it.
+   */
+  size: number;
+  compressed: boolean;
+  /**
+   * Encrypted items cannot be decoded synchronously, so they have no preview or TTL.
+   */
+  encrypted: boolean;
+  /**
+   * Remaining TTL in milliseconds, or null if the item does not expire.
+   */
+  ttl: number | null;
+  version?: number;
+  /**
+   * The decoded value as JSON, truncated to 200 characters.
+   */
+  preview: string | null;
+  /**
+   * The lazy fields of a `LazyStorage` object.
+   */
+  layout?: StorageChunkLayout[];
+  /**
+   * The `LazyStorage` object a chunk belongs to.
+   */
+  parent?: string;
+}
+
+/**
+ * A stored key in a snapshot.
+ */
+export interface StorageSnapshotEntry {
+  key: string;
+  /**
+   * The decoded value. Values of `JSONStorage` and `LazyStorage` are parsed and decompressed.
+   */
+  value?: unknown;
+  /**
+   * How the value is stored: as is, as a JSON string written by `JSONStorage`, or as the
+   * object of a `LazyStorage` with markers in place of its lazy fields.
+   */
+  encoding?: "json" | "lazy";
+  /**
+   * The stored item as is, for encrypted items, which are exported without decrypting them.
+   */
+  raw?: string;
+  /**
+   * Remaining TTL in milliseconds at the time of the export.
+   */
+  ttl?: number;
+  sliding?: boolean;
+  compressed?: boolean;
+  version?: number;
+}
+
+/**
+ * A portable copy of the keys of a storage, written by `exportSnapshot`.
+ */
+export interface StorageSnapshot {
+  format: "@brushy/localstorage";
+  version: 1;
+  exportedAt: number;
+  entries: StorageSnapshotEntry[];
+}
+
+export interface ImportSnapshotOptions {
+  /**
+   * Removes the keys of the prefix that are not in the snapshot. Defaults to false.
+   */
+  clear?: boolean;
+}
+
+export interface EncryptionKey {
+  /**
+   * Identifies the key in encrypted entries, so they can be decrypted after a rotation. Must not contain ':'.
+   */
+  id: string;
+  /**
+   * An AES-GCM `CryptoKey` allowed to encrypt and decrypt.
+   */
+  key: CryptoKey;
+}
+
+/**
+ * Supplies encryption keys. Called without an id it returns the current key;
+ * called with an id it returns the key that id refers to.
+ */
+export type EncryptionKeyProvider = (
+  keyId?: string,
+) => EncryptionKey | Promise<EncryptionKey>;
+
+export interface StorageConfig {
+  backend?: StorageBackend;
+  quota?: QuotaPolicy;
+  migrations?: StorageMigration[];
+  encryptionKey?: EncryptionKeyProvider;
+  /**
+   * Delivers changes made by other tabs and other instances with the same prefix to
+   * subscribers, including instances of the page that are not synced themselves.
+   */
+  sync?: boolean | StorageSyncOptions;
+  /**
+   * Removes expired items in the background. `true` sweeps every minute.
+   */
+  sweeper?: boolean | SweeperOptions;
+  /**
+   * How values are serialized. `structured` preserves `Date`, `Map`, `Set`, `BigInt`,
+   * `RegExp`, typed arrays and `undefined`, at the cost of a few bytes per tagged value.
+   * Defaults to `json`.
+   */
+  serializer?: "json" | "structured";
+}
+
 export interface IStorage {
-  set<T>(key: string, value: T, options?: StorageOptions): void;
+  set<T>(key: string, value: T, options?: StorageOptions): SetResult;
   get<T>(key: string): T | null;
   remove(key: string): void;
-  clear(): void;
+  clear(pattern?: KeyPattern): void;
+  namespace(name: string): IStorage;
   has(key: string): boolean;
+  keys(pattern?: KeyPattern): string[];
+  entries<T = unknown>(pattern?: KeyPattern): IterableIterator<[string, T]>;
+  getMany<T = unknown>(keys: string[]): Record<string, T | null>;
+  setMany(values: Record<string, unknown>, options?: StorageOptions): SetResult;
+  removeMany(keys: string[]): void;
+  sweep(): string[];
+  subscribeExpire(listener: StorageExpireListener): () => void;
+  [Symbol.asyncIterator](): AsyncIterableIterator<[string, unknown]>;
   getSize(key: string): number;
   getTTL(key: string): number | null;
   subscribe(key: string, listener: StorageEventListener): () => void;
+  transaction<R>(fn: (tx: this) => R): R;
+  subscribeBatch(listener: StorageBatchListener): () => void;
+}
+
+/**
+ * Asynchronous counterpart of `IStorage`, for backends such as IndexedDB. Writes,
+ * removals and clears reject when the backend fails.
+ */
+export interface IAsyncStorage {
+  setAsync<T>(
+    key: string,
+    value: T,
+    options?: StorageOptions,
+  ): Promise<SetResult>;
+  getAsync<T>(key: string): Promise<T | null>;
+  removeAsync(key: string): Promise<void>;
+  clearAsync(): Promise<void>;
+  hasAsync(key: string): Promise<boolean>;
+  getTTLAsync(key: string): Promise<number | null>;
+  subscribe(key: string, listener: StorageEventListener): () => void;
 }
 
+/**
+ * How `TypedCompression` packs binary values: two bytes per UTF-16 character, or base64.
+ */
+export type BinaryEncoding = "utf16" | "base64";
+
 export interface CompressionOptions {
   threshold?: number; // Tamanho mínimo em bytes para comprimir
   mode?: "auto" | "aggressive" | "conservative";
+  binaryEncoding?: BinaryEncoding; // Empacotamento de valores binários (padrão: "utf16")
+  codec?: string; // Nome do codec registrado (padrão: "lz")
+  serializer?: "json" | "structured"; // Preserva Date, Map, Set, BigInt etc. (padrão: "json")
+}
+
+/**
+ * A codec that `TypedCompression` can compress with. The name is recorded in the header
+ * of every value it writes, and is used to find the codec again when reading it.
+ */
+export interface CompressionCodec {
+  /**
+   * Unique name of the codec. Must not contain `:`.
+   */
+  name: string;
+  /**
+   * Whether `encode` and `decode` return promises. Asynchronous codecs can only be used
+   * with `compressDataAsync` and `decompressDataAsync`.
+   */
+  async?: boolean;
+  encode(value: string): string | Promise<string>;
+  decode(value: string): string | Promise<string>;
 }
 
 export type DataType =
@@ -46,6 +348,101 @@ export interface JSONStorageOptions extends StorageOptions {
   reviver?: (key: string, value: any) => any;
 }
 
+/**
+ * Options of the undo history `JSONStorage.enableHistory` keeps for a key.
+ */
+export interface HistoryOptions {
+  /**
+   * Maximum number of steps that can be undone. Defaults to 50.
+   */
+  limit?: number;
+  /**
+   * Stores the history next to the value, under `<key>:__history__`, so it survives
+   * reloads and is shared with other tabs. Defaults to false, keeping it in memory.
+   */
+  persist?: boolean;
+}
+
+/**
+ * Matches storage keys. Strings are globs where `*` matches within a `:` separated
+ * segment and `**` matches across segments, e.g. `user:*` or `cache:**`.
+ */
+export type KeyPattern = string | RegExp;
+
+export interface ValidationIssue {
+  /**
+   * Location of the invalid value, e.g. `["address", "zip"]`. Empty for the root value.
+   */
+  path: (string | number)[];
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+export type JSONSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * The subset of JSON Schema understood by the built-in validator.
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JSONSchema[];
+}
+
+/**
+ * The Standard Schema interface implemented by zod, valibot, arktype and others.
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaV1.Result<Output>
+      | Promise<StandardSchemaV1.Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export declare namespace StandardSchemaV1 {
+  type Result<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<Issue> };
+
+  interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+  }
+}
+
+export type StorageValidator<T = unknown> =
+  | JSONSchema
+  | StandardSchemaV1<unknown, T>;
+
 export interface LazyStorageOptions extends JSONStorageOptions {
   compression?: CompressionOptions;
   chunkSize?: number;
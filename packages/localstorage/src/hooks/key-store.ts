@@ -0,0 +1,149 @@
+import type { LocalStorage } from "../lib/localstorage";
+
+/**
+ * How a key store reads its key.
+ */
+export interface KeyStoreSource<T> {
+  /**
+   * Reads the current value of the key.
+   */
+  read: () => T;
+  /**
+   * Reads the value asynchronously, for values that must be decrypted. When given,
+   * the store starts with the value of `read` and replaces it once this resolves. After
+   * a change, the current value is kept until the key is loaded again.
+   */
+  load?: () => Promise<T>;
+  /**
+   * Called before the key is read again after a change, to drop cached reads.
+   */
+  invalidate?: () => void;
+}
+
+/**
+ * The shared state of a key, in the shape `useSyncExternalStore` expects. Every hook
+ * reading the same key of the same storage gets the same store, so a write made by
+ * one of them is seen by all the others in the same render.
+ */
+export interface KeyStore<T> {
+  subscribe: (onChange: () => void) => () => void;
+  /**
+   * Returns the current value. It keeps its identity until the key changes.
+   */
+  getSnapshot: () => T;
+  /**
+   * Runs a write and replaces the value with the one it returns, notifying every
+   * subscriber once. The change notification of the write itself is not read back.
+   * If the write throws, the value is left unchanged and the error is rethrown.
+   */
+  update: (write: () => T) => void;
+}
+
+/**
+ * Key stores by storage instance, and by kind of read and key within it.
+ */
+const stores = new WeakMap<LocalStorage, Map<string, KeyStore<any>>>();
+
+function createKeyStore<T>(
+  storage: LocalStorage,
+  key: string,
+  source: KeyStoreSource<T>,
+): KeyStore<T> {
+  const listeners = new Set<() => void>();
+  let snapshot: { value: T } | null = null;
+  let writing = false;
+  let unsubscribe: (() => void) | null = null;
+
+  /**
+   * Incremented on every change, so that a load started before it is discarded.
+   */
+  let revision = 0;
+
+  const emit = (value: T) => {
+    revision++;
+    snapshot = { value };
+    listeners.forEach((listener) => listener());
+  };
+
+  const load = () => {
+    if (!source.load) return;
+    const started = revision;
+    source.load().then(
+      (value) => {
+        if (revision === started) emit(value);
+      },
+      (error) => console.error("[LocalStorage] Error loading item:", error),
+    );
+  };
+
+  const refresh = () => {
+    if (writing) return;
+    source.invalidate?.();
+    if (source.load) load();
+    else emit(source.read());
+  };
+
+  return {
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      if (!unsubscribe) {
+        unsubscribe = storage.subscribe(key, refresh);
+        snapshot = null;
+        load();
+      }
+
+      return () => {
+        listeners.delete(onChange);
+        if (listeners.size === 0 && unsubscribe) {
+          unsubscribe();
+          unsubscribe = null;
+          snapshot = null;
+        }
+      };
+    },
+    getSnapshot: () => {
+      if (!snapshot) snapshot = { value: source.read() };
+      return snapshot.value;
+    },
+    update: (write) => {
+      writing = true;
+      let value: T;
+      try {
+        value = write();
+      } finally {
+        writing = false;
+      }
+      emit(value);
+    },
+  };
+}
+
+/**
+ * Returns the store of a key, creating it on first use. Hooks of the same kind share
+ * the store of a key, and with it the source it was created with, so they should read
+ * the key with the same options. A store only follows its key while something is
+ * subscribed, so the value read before the first subscription is read again after it.
+ *
+ * @param storage - The storage the key belongs to.
+ * @param kind - Identifies how the key is read, e.g. `"json"` or `"lazy"`.
+ * @param key - The key.
+ * @param source - How the key is read, used when the store is created.
+ *
+ * @internal
+ */
+export function getKeyStore<T>(
+  storage: LocalStorage,
+  kind: string,
+  key: string,
+  source: KeyStoreSource<T>,
+): KeyStore<T> {
+  let byKey = stores.get(storage);
+  if (!byKey) {
+    byKey = new Map();
+    stores.set(storage, byKey);
+  }
+
+  const id = `${kind}:${key}`;
+  if (!byKey.has(id)) byKey.set(id, createKeyStore(storage, key, source));
+  return byKey.get(id)!;
+}
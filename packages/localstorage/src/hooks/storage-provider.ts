@@ -0,0 +1,137 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useMemo,
+  ReactNode,
+} from "react";
+import { LocalStorage } from "../lib/localstorage";
+import type { EncryptionKeyProvider, StorageConfig } from "../core/types";
+
+const StorageContext = createContext<LocalStorage | null>(null);
+
+type StorageClass<S extends LocalStorage> = new (
+  prefix?: string,
+  config?: StorageConfig,
+) => S;
+
+/**
+ * The instances the hooks share, by the storage they are based on (the class itself
+ * outside of a provider), then by class and encryption key provider.
+ */
+let shared = new WeakMap<
+  object,
+  Map<StorageClass<any>, Map<EncryptionKeyProvider | undefined, LocalStorage>>
+>();
+
+/**
+ * Returns the instance of a class the hooks share over a base storage, or over the
+ * default prefix when there is no base, creating it on first use.
+ */
+function getShared<S extends LocalStorage>(
+  base: LocalStorage | null,
+  Storage: StorageClass<S>,
+  encryptionKey?: EncryptionKeyProvider,
+): S {
+  const owner = base ?? Storage;
+  if (!shared.has(owner)) shared.set(owner, new Map());
+  const byClass = shared.get(owner)!;
+  if (!byClass.has(Storage)) byClass.set(Storage, new Map());
+  const byKey = byClass.get(Storage)!;
+
+  if (!byKey.has(encryptionKey)) {
+    const config: StorageConfig = encryptionKey
+      ? { sync: true, encryptionKey }
+      : { sync: true };
+    byKey.set(
+      encryptionKey,
+      base ? base.derive(Storage, config) : new Storage(undefined, config),
+    );
+  }
+  return byKey.get(encryptionKey) as S;
+}
+
+/**
+ * Forgets the shared instances, so the hooks create new ones on their next render.
+ *
+ * @internal
+ */
+export function resetSharedStorage(): void {
+  shared = new WeakMap();
+}
+
+export interface StorageProviderProps {
+  /**
+   * The storage the hooks below the provider use. Defaults to the storage of the
+   * enclosing provider, or to a `LocalStorage` with the default prefix.
+   */
+  storage?: LocalStorage;
+  /**
+   * Scopes the storage to a namespace. Nested providers nest their namespaces.
+   */
+  namespace?: string;
+  children?: ReactNode;
+}
+
+/**
+ * Provides a storage instance, or a namespace of one, to `useStorage`, `useJSONStorage`,
+ * `useLazyStorage` and `useLazyWindow` below it, so call sites do not need to pass it.
+ * The hooks use a synced instance of the class they need over the same prefix and
+ * configuration, so they see each other's writes and those made through the provided one.
+ *
+ * @example
+ * ```tsx
+ * import { StorageProvider, useStorage } from "@brushy/localstorage";
+ *
+ * function App({ userId }: { userId: string }) {
+ *   return (
+ *     <StorageProvider namespace={`user:${userId}`}>
+ *       <Settings />
+ *     </StorageProvider>
+ *   );
+ * }
+ *
+ * function Settings() {
+ *   // Stored under "@brushy/storage:user:<userId>:theme"
+ *   const { value, setValue } = useStorage("theme", "light");
+ *   // ...
+ * }
+ * ```
+ */
+export function StorageProvider({
+  storage,
+  namespace,
+  children,
+}: StorageProviderProps) {
+  const parent = useContext(StorageContext);
+
+  const value = useMemo(() => {
+    const base = storage ?? parent ?? getShared(null, LocalStorage);
+    return namespace ? base.namespace(namespace) : base;
+  }, [storage, parent, namespace]);
+
+  return createElement(StorageContext.Provider, { value }, children);
+}
+
+/**
+ * Returns the storage provided by the nearest `StorageProvider`, or null outside of one.
+ */
+export function useStorageContext(): LocalStorage | null {
+  return useContext(StorageContext);
+}
+
+/**
+ * Returns the storage a hook should use: an instance of the class the hook needs over
+ * the provided prefix and configuration, or over the default prefix outside of a
+ * provider. These instances are shared by every hook that needs them and sync with
+ * the others, so every hook sees the writes of the rest, even when the provided
+ * instance itself is not synced.
+ *
+ * @internal
+ */
+export function useScopedStorage<S extends LocalStorage>(
+  Storage: StorageClass<S>,
+  encryptionKey?: EncryptionKeyProvider,
+): S {
+  return getShared(useContext(StorageContext), Storage, encryptionKey);
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot, Root } from "react-dom/client";
+import { act, waitFor } from "@testing-library/react";
+import { useStorage } from "../use-storage";
+import { useJSONStorage } from "../use-json-storage";
+import { resetSharedStorage } from "../storage-provider";
+import { LocalStorage } from "../../lib/localstorage";
+import { JSONStorage } from "../../lib/json-storage";
+
+describe("hydration", () => {
+  let container: HTMLElement;
+  let root: Root | null = null;
+
+  beforeEach(() => {
+    localStorage.clear();
+    resetSharedStorage();
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = null;
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  function Page() {
+    const theme = useStorage("theme", "light", { serverSnapshot: "system" });
+    const settings = useJSONStorage("settings", { columns: 1 });
+
+    return createElement(
+      "p",
+      null,
+      `${theme.value},${settings.value.columns},${theme.isHydrated}`,
+    );
+  }
+
+  it("should hydrate the server markup and then read storage", async () => {
+    new LocalStorage().set("theme", "dark");
+    new JSONStorage().setJSON("settings", { columns: 3 });
+
+    container.innerHTML = renderToString(createElement(Page));
+    expect(container.textContent).toBe("system,1,false");
+
+    act(() => {
+      root = hydrateRoot(container, createElement(Page));
+    });
+
+    await waitFor(() => expect(container.textContent).toBe("dark,3,true"));
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useStorage } from "../use-storage";
+import { useJSONStorage } from "../use-json-storage";
+import { useLazyStorage } from "../use-lazy-storage";
+import { resetSharedStorage } from "../storage-provider";
+import { LocalStorage } from "../../lib/localstorage";
+
+describe("shared key store", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetSharedStorage();
+  });
+
+  it("should share the value of a key between components", () => {
+    const { result } = renderHook(() => ({
+      first: useStorage("theme", "light"),
+      second: useStorage("theme", "light"),
+    }));
+
+    act(() => result.current.first.setValue("dark"));
+
+    expect(result.current.second.value).toBe("dark");
+
+    act(() => result.current.second.remove());
+
+    expect(result.current.first.value).toBe("light");
+  });
+
+  it("should resolve functional updates against the latest value", () => {
+    const { result } = renderHook(() => ({
+      first: useStorage("count", 0),
+      second: useStorage("count", 0),
+    }));
+
+    act(() => {
+      result.current.first.setValue((count) => count + 1);
+      result.current.second.setValue((count) => count + 1);
+    });
+
+    expect(result.current.first.value).toBe(2);
+    expect(new LocalStorage().get("count")).toBe(2);
+  });
+
+  it("should share the value between separately rendered components", () => {
+    const first = renderHook(() => useJSONStorage("settings", { columns: 1 }));
+    const second = renderHook(() => useJSONStorage("settings", { columns: 1 }));
+
+    act(() => first.result.current.setValue({ columns: 2 }));
+    act(() => second.result.current.updateFields({ columns: 3 }));
+
+    expect(first.result.current.value).toEqual({ columns: 3 });
+    expect(second.result.current.value).toEqual({ columns: 3 });
+  });
+
+  it("should share the loaded fields of a lazy value", () => {
+    const { result } = renderHook(() => ({
+      first: useLazyStorage("user", { name: "John" }),
+      second: useLazyStorage("user", { name: "John" }),
+    }));
+
+    act(() => result.current.first.setValue({ name: "Jane" }));
+
+    expect(result.current.second.value).toEqual({ name: "Jane" });
+    expect(result.current.second.isFieldLoaded("name")).toBe(true);
+  });
+
+  it("should see writes of other synced instances right away", () => {
+    const { result } = renderHook(() => useStorage("theme", "light"));
+
+    act(() => {
+      new LocalStorage(undefined, { sync: true }).set("theme", "dark");
+    });
+
+    expect(result.current.value).toBe("dark");
+  });
+});
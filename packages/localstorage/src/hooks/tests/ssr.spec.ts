@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { useStorage } from "../use-storage";
+import { useJSONStorage } from "../use-json-storage";
+import { useLazyStorage } from "../use-lazy-storage";
+import { useLazyWindow } from "../use-lazy-window";
+import { StorageProvider } from "../storage-provider";
+import { LocalStorage } from "../../lib/localstorage";
+
+describe("server rendering", () => {
+  it("should create storage instances without localStorage", () => {
+    expect(globalThis.localStorage).toBeUndefined();
+    expect(() => new LocalStorage()).not.toThrow();
+  });
+
+  it("should fail on first use without localStorage", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(new LocalStorage().get("theme")).toBeNull();
+    expect(console.error).toHaveBeenCalledWith(
+      "[LocalStorage] Error retrieving item:",
+      expect.objectContaining({
+        message:
+          "[LocalStorage] This library requires an environment with localStorage support.",
+      }),
+    );
+  });
+
+  it("should render the initial values without touching storage", () => {
+    function Page() {
+      const theme = useStorage("theme", "light");
+      const settings = useJSONStorage("settings", { columns: 1 });
+      const user = useLazyStorage("user", { name: "John" });
+      const posts = useLazyWindow("user", "posts", 0, 10);
+
+      return createElement(
+        "p",
+        null,
+        [
+          theme.value,
+          settings.value.columns,
+          user.value.name,
+          posts.total,
+          theme.isHydrated,
+          settings.isHydrated,
+          user.isHydrated,
+          posts.isHydrated,
+        ].join(","),
+      );
+    }
+
+    const html = renderToString(
+      createElement(StorageProvider, null, createElement(Page)),
+    );
+
+    expect(html).toBe("<p>light,1,John,0,false,false,false,false</p>");
+  });
+
+  it("should render the server snapshot when given", () => {
+    function Page() {
+      const { value } = useStorage("theme", "light", {
+        serverSnapshot: "dark",
+      });
+      return createElement("p", null, value);
+    }
+
+    expect(renderToString(createElement(Page))).toBe("<p>dark</p>");
+  });
+});
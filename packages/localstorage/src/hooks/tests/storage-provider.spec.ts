@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createElement, ReactNode } from "react";
+import { renderHook, act } from "@testing-library/react";
+import { StorageProvider, useStorageContext } from "../storage-provider";
+import { useStorage } from "../use-storage";
+import { useJSONStorage } from "../use-json-storage";
+import { LocalStorage } from "../../lib/localstorage";
+import { JSONStorage } from "../../lib/json-storage";
+import { MemoryStorageBackend } from "../../backends/memory-backend";
+
+describe("StorageProvider", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const wrapper =
+    (props: { storage?: LocalStorage; namespace?: string }) =>
+    ({ children }: { children?: ReactNode }) =>
+      createElement(StorageProvider, props, children);
+
+  it("should scope the hooks to the namespace", () => {
+    const { result } = renderHook(() => useStorage("theme", "light"), {
+      wrapper: wrapper({ namespace: "user:42" }),
+    });
+
+    act(() => result.current.setValue("dark"));
+
+    expect(new LocalStorage("@brushy/storage:user:42:").get("theme")).toBe(
+      "dark",
+    );
+    expect(new LocalStorage().get("theme")).toBeNull();
+  });
+
+  it("should use the provided storage instance", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@app:", { backend });
+    storage.set("theme", "dark");
+
+    const { result } = renderHook(
+      () => ({
+        theme: useStorage("theme", "light"),
+        context: useStorageContext(),
+      }),
+      { wrapper: wrapper({ storage }) },
+    );
+
+    expect(result.current.theme.value).toBe("dark");
+    expect(result.current.context).toBe(storage);
+  });
+
+  it("should derive the storage class a hook needs", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@app:", { backend });
+
+    const { result } = renderHook(
+      () => useJSONStorage("settings", { columns: 1 }),
+      { wrapper: wrapper({ storage, namespace: "user:42" }) },
+    );
+
+    act(() => result.current.setValue({ columns: 2 }));
+
+    expect(
+      new JSONStorage("@app:user:42:", { backend }).getJSON("settings"),
+    ).toEqual({ columns: 2 });
+  });
+
+  it("should keep hooks of different kinds on the same key in sync", () => {
+    const storage = new LocalStorage("@app:", {
+      backend: new MemoryStorageBackend(),
+    });
+
+    const { result } = renderHook(
+      () => ({
+        raw: useStorage("settings", ""),
+        json: useJSONStorage("settings", { columns: 1 }),
+      }),
+      { wrapper: wrapper({ storage }) },
+    );
+
+    act(() => result.current.json.setValue({ columns: 2 }));
+    expect(JSON.parse(result.current.raw.value)).toEqual({ columns: 2 });
+
+    act(() => result.current.raw.setValue(JSON.stringify({ columns: 3 })));
+    expect(result.current.json.value).toEqual({ columns: 3 });
+
+    act(() => {
+      storage.set("settings", JSON.stringify({ columns: 4 }));
+    });
+    expect(JSON.parse(result.current.raw.value)).toEqual({ columns: 4 });
+    expect(result.current.json.value).toEqual({ columns: 4 });
+  });
+
+  it("should nest the namespaces of nested providers", () => {
+    const storage = new LocalStorage("@app:", {
+      backend: new MemoryStorageBackend(),
+    });
+
+    const { result } = renderHook(() => useStorageContext(), {
+      wrapper: ({ children }: { children?: ReactNode }) =>
+        createElement(
+          StorageProvider,
+          { storage, namespace: "user:42" },
+          createElement(StorageProvider, { namespace: "settings" }, children),
+        ),
+    });
+
+    result.current!.set("theme", "dark");
+    expect(storage.get("user:42:settings:theme")).toBe("dark");
+  });
+
+  it("should return null outside of a provider", () => {
+    const { result } = renderHook(() => useStorageContext());
+
+    expect(result.current).toBeNull();
+  });
+});
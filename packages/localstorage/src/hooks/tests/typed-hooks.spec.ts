@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { createTypedHooks } from "../typed-hooks";
+import { useStorage as useUntypedStorage } from "../use-storage";
+import { resetSharedStorage } from "../storage-provider";
+
+interface AppSchema {
+  theme: "light" | "dark";
+  [key: `settings:${string}`]: { columns: number };
+}
+
+describe("createTypedHooks", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetSharedStorage();
+  });
+
+  it("should return the regular hooks", () => {
+    const { useStorage, useJSONStorage } = createTypedHooks<AppSchema>();
+
+    const { result } = renderHook(() => ({
+      theme: useStorage("theme", "light"),
+      untyped: useUntypedStorage<string>("theme", "light"),
+      settings: useJSONStorage("settings:grid", { columns: 1 }),
+    }));
+
+    act(() => result.current.theme.setValue("dark"));
+    act(() => result.current.settings.setValue({ columns: 3 }));
+
+    expect(result.current.untyped.value).toBe("dark");
+    expect(result.current.settings.value.columns).toBe(3);
+  });
+
+  it("should reject unknown keys at compile time", () => {
+    const { useStorage, useJSONStorage } = createTypedHooks<AppSchema>();
+
+    renderHook(() => {
+      // @ts-expect-error "language" is not a key of the schema
+      useStorage("language", "en");
+      // @ts-expect-error themes are not objects
+      useJSONStorage("theme", "light");
+    });
+  });
+});
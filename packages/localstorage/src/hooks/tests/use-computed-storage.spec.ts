@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useComputedStorage } from "../use-computed-storage";
+import { useStorage } from "../use-storage";
+import { resetSharedStorage } from "../storage-provider";
+
+describe("useComputedStorage", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetSharedStorage();
+  });
+
+  const sum = (a: number | null, b: number | null) => (a ?? 0) + (b ?? 0);
+
+  it("should re-render with the derived value when a source key changes", () => {
+    const { result } = renderHook(() => ({
+      a: useStorage("a", 0),
+      sum: useComputedStorage(["a", "b"], sum),
+    }));
+
+    expect(result.current.sum).toEqual({ value: 0, isHydrated: true });
+
+    act(() => result.current.a.setValue(2));
+
+    expect(result.current.sum.value).toBe(2);
+  });
+
+  it("should not re-render when the derived value is unchanged", () => {
+    const render = vi.fn();
+    const { result } = renderHook(() => {
+      render();
+      return useComputedStorage(["a", "b"], (a: number | null) =>
+        (a ?? 0) > 10 ? "high" : "low",
+      );
+    });
+    const writer = renderHook(() => useStorage("a", 0));
+    render.mockClear();
+
+    act(() => writer.result.current.setValue(5));
+
+    expect(result.current.value).toBe("low");
+    expect(render).not.toHaveBeenCalled();
+
+    act(() => writer.result.current.setValue(50));
+
+    expect(result.current.value).toBe("high");
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+});
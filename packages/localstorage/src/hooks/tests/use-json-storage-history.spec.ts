@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useJSONStorage } from "../use-json-storage";
+import { resetSharedStorage } from "../storage-provider";
+
+describe("useJSONStorage history", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetSharedStorage();
+  });
+
+  it("should undo and redo changes", () => {
+    const { result } = renderHook(() =>
+      useJSONStorage("form", { name: "" }, { history: true }),
+    );
+
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => result.current.setValue({ name: "John" }));
+    act(() => result.current.updateFields({ name: "Jane" }));
+
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => result.current.undo());
+
+    expect(result.current.value).toEqual({ name: "John" });
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+
+    expect(result.current.value).toEqual({ name: "Jane" });
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("should recover from a reset", () => {
+    const { result } = renderHook(() =>
+      useJSONStorage("form", { name: "" }, { history: { limit: 10 } }),
+    );
+
+    act(() => result.current.setValue({ name: "John" }));
+    act(() => result.current.remove());
+
+    expect(result.current.value).toEqual({ name: "" });
+
+    act(() => result.current.undo());
+
+    expect(result.current.value).toEqual({ name: "John" });
+  });
+
+  it("should not expose history without the option", () => {
+    const { result } = renderHook(() => useJSONStorage("form", { name: "" }));
+
+    act(() => result.current.setValue({ name: "John" }));
+    act(() => result.current.undo());
+
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.value).toEqual({ name: "John" });
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useJSONStorage } from "../use-json-storage";
 import { JSONStorage } from "../../lib/json-storage";
+import { StorageValidationError } from "../../core/errors";
+import { resetSharedStorage } from "../storage-provider";
 
 const createMockStorage = (customMocks = {}) => {
   return {
@@ -10,8 +12,11 @@ const createMockStorage = (customMocks = {}) => {
     updateJSON: vi.fn(),
     mergeArrays: vi.fn(),
     remove: vi.fn(),
+    subscribe: vi.fn(() => vi.fn()),
     isValidJSON: vi.fn().mockReturnValue(true),
+    validateJSON: vi.fn().mockReturnValue([]),
     getJSONSchema: vi.fn().mockReturnValue({ type: "object" }),
+    registerSchema: vi.fn(() => vi.fn()),
     ...customMocks,
   };
 };
@@ -27,6 +32,7 @@ describe("useJSONStorage", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    resetSharedStorage();
   });
 
   it("should initialize with stored value", () => {
@@ -324,10 +330,9 @@ describe("useJSONStorage", () => {
     }).toThrow("Remove error");
   });
 
-  it("should initialize isValid state correctly", () => {
+  it("should initialize errors as empty when the stored value is valid", () => {
     const mockStorage = createMockStorage({
       getJSON: vi.fn().mockReturnValue(initialValue),
-      isValidJSON: vi.fn().mockReturnValue(true),
     });
 
     (JSONStorage as any).mockImplementation(() => mockStorage);
@@ -336,14 +341,15 @@ describe("useJSONStorage", () => {
       useJSONStorage(key, initialValue, options),
     );
 
-    expect(result.current.isValid).toBe(true);
-    expect(mockStorage.getJSON).toHaveBeenCalled();
+    expect(result.current.errors).toEqual([]);
+    expect(mockStorage.validateJSON).toHaveBeenCalledWith(key);
   });
 
-  it("should initialize isValid state as false when JSON is invalid", () => {
+  it("should initialize errors with the issues of an invalid stored value", () => {
+    const issues = [{ path: ["age"], message: "Expected number" }];
     const mockStorage = createMockStorage({
       getJSON: vi.fn().mockReturnValue(null),
-      isValidJSON: vi.fn().mockReturnValue(false),
+      validateJSON: vi.fn().mockReturnValue(issues),
     });
 
     (JSONStorage as any).mockImplementation(() => mockStorage);
@@ -352,8 +358,85 @@ describe("useJSONStorage", () => {
       useJSONStorage(key, initialValue, options),
     );
 
-    expect(result.current.isValid).toBe(false);
-    expect(mockStorage.getJSON).toHaveBeenCalled();
+    expect(result.current.value).toEqual(initialValue);
+    expect(result.current.errors).toEqual(issues);
+  });
+
+  it("should register the schema once while mounted", () => {
+    const schema = { type: "object" as const };
+    const unregister = vi.fn();
+    const mockStorage = createMockStorage({
+      registerSchema: vi.fn(() => unregister),
+    });
+
+    (JSONStorage as any).mockImplementation(() => mockStorage);
+
+    const { rerender, unmount } = renderHook(() =>
+      useJSONStorage(key, initialValue, { ...options, schema }),
+    );
+    rerender();
+    rerender();
+
+    expect(mockStorage.registerSchema).toHaveBeenCalledTimes(1);
+    expect(unregister).not.toHaveBeenCalled();
+
+    unmount();
+    expect(unregister).toHaveBeenCalledTimes(1);
+  });
+
+  it("should register the schema option for the key", () => {
+    const schema = { type: "object" as const };
+    const mockStorage = createMockStorage();
+
+    (JSONStorage as any).mockImplementation(() => mockStorage);
+
+    const { result } = renderHook(() =>
+      useJSONStorage(key, initialValue, { ...options, schema }),
+    );
+
+    act(() => {
+      result.current.setValue({ name: "Jane", age: 25 });
+    });
+
+    expect(mockStorage.registerSchema).toHaveBeenCalledWith(key, schema);
+    expect(mockStorage.setJSON).toHaveBeenCalledWith(
+      key,
+      { name: "Jane", age: 25 },
+      options,
+    );
+  });
+
+  it("should keep the value and expose errors when a write is rejected", () => {
+    const issues = [{ path: ["age"], message: "Expected number" }];
+    const mockStorage = createMockStorage({
+      getJSON: vi.fn().mockReturnValue(initialValue),
+      setJSON: vi.fn().mockImplementation(() => {
+        throw new StorageValidationError(key, issues);
+      }),
+      updateJSON: vi.fn().mockImplementation(() => {
+        throw new StorageValidationError(key, issues);
+      }),
+    });
+
+    (JSONStorage as any).mockImplementation(() => mockStorage);
+
+    const { result } = renderHook(() =>
+      useJSONStorage(key, initialValue, options),
+    );
+
+    act(() => {
+      result.current.setValue({ name: "Jane", age: "old" as any });
+    });
+
+    expect(result.current.value).toEqual(initialValue);
+    expect(result.current.errors).toEqual(issues);
+
+    act(() => {
+      result.current.updateFields({ age: "older" as any });
+    });
+
+    expect(result.current.value).toEqual(initialValue);
+    expect(result.current.errors).toEqual(issues);
   });
 
   it("should initialize schema state correctly", () => {
@@ -393,7 +476,7 @@ describe("useJSONStorage", () => {
     expect(mockStorage.getJSON).toHaveBeenCalled();
   });
 
-  it("should update isValid and schema when setting a new value", () => {
+  it("should update errors and schema when setting a new value", () => {
     const newValue = { name: "Jane", age: 25 };
     const newSchema = {
       type: "object",
@@ -403,7 +486,9 @@ describe("useJSONStorage", () => {
     const mockStorage = createMockStorage({
       getJSON: vi.fn().mockReturnValue(initialValue),
       setJSON: vi.fn(),
-      isValidJSON: vi.fn().mockReturnValue(true),
+      validateJSON: vi
+        .fn()
+        .mockReturnValue([{ path: ["name"], message: "Expected string" }]),
       getJSONSchema: vi.fn().mockReturnValue(newSchema),
     });
 
@@ -418,17 +503,16 @@ describe("useJSONStorage", () => {
     });
 
     expect(result.current.value).toEqual(newValue);
-    expect(result.current.isValid).toBe(true);
+    expect(result.current.errors).toEqual([]);
     expect(result.current.schema).toEqual(newSchema);
     expect(mockStorage.setJSON).toHaveBeenCalledWith(key, newValue, options);
-    expect(mockStorage.isValidJSON).toHaveBeenCalledWith(key);
     expect(mockStorage.getJSONSchema).toHaveBeenCalledWith(key);
   });
 
-  it("should handle error in isValidJSON", () => {
+  it("should handle error in validateJSON", () => {
     const mockStorage = createMockStorage({
       getJSON: vi.fn().mockReturnValue(null),
-      isValidJSON: vi.fn().mockImplementation(() => {
+      validateJSON: vi.fn().mockImplementation(() => {
         throw new Error("Validation error");
       }),
     });
@@ -439,7 +523,7 @@ describe("useJSONStorage", () => {
       useJSONStorage(key, initialValue, options),
     );
 
-    expect(result.current.isValid).toBe(false);
+    expect(result.current.errors).toEqual([]);
   });
 
   it("should handle error in getJSONSchema", () => {
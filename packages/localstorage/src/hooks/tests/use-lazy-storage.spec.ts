@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useLazyStorage } from "../use-lazy-storage";
 import { LazyStorage } from "../../lib/lazy-storage";
+import { resetSharedStorage } from "../storage-provider";
 
 vi.mock("../../lib/lazy-storage", () => ({
   LazyStorage: vi.fn(() => ({
@@ -9,6 +10,7 @@ vi.mock("../../lib/lazy-storage", () => ({
     setLazy: vi.fn(),
     preload: vi.fn(),
     remove: vi.fn(),
+    subscribe: vi.fn(() => vi.fn()),
   })),
 }));
 
@@ -23,6 +25,7 @@ describe("useLazyStorage", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    resetSharedStorage();
   });
 
   it("should initialize with stored value", () => {
@@ -34,6 +37,7 @@ describe("useLazyStorage", () => {
       setLazy: vi.fn(),
       preload: vi.fn(),
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() =>
@@ -52,6 +56,7 @@ describe("useLazyStorage", () => {
       setLazy: vi.fn(),
       preload: vi.fn(),
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() =>
@@ -71,6 +76,7 @@ describe("useLazyStorage", () => {
       setLazy: mockSetLazy,
       preload: vi.fn(),
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() =>
@@ -96,6 +102,7 @@ describe("useLazyStorage", () => {
       setLazy: mockSetLazy,
       preload: vi.fn(),
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() =>
@@ -125,6 +132,7 @@ describe("useLazyStorage", () => {
       setLazy: vi.fn(),
       preload: mockPreload,
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() =>
@@ -161,6 +169,7 @@ describe("useLazyStorage", () => {
       setLazy: vi.fn(),
       preload: vi.fn(),
       remove: mockRemove,
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() =>
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { useLazyWindow } from "../use-lazy-window";
+import { LazyStorage } from "../../lib/lazy-storage";
+import { JSONStorage } from "../../lib/json-storage";
+
+describe("useLazyWindow", () => {
+  const posts = Array.from({ length: 10 }, (_, id) => ({ id }));
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+    new LazyStorage().setLazy(
+      "user",
+      { name: "John", posts },
+      { lazyFields: ["posts"], chunkSize: 3 },
+    );
+  });
+
+  it("should return the items of the window and the total", () => {
+    const { result } = renderHook(() => useLazyWindow("user", "posts", 4, 7));
+
+    expect(result.current.total).toBe(10);
+    expect(result.current.items).toEqual([{ id: 4 }, { id: 5 }, { id: 6 }]);
+  });
+
+  it("should only load the chunks of the window", () => {
+    const getJSON = vi.spyOn(JSONStorage.prototype, "getJSON");
+
+    renderHook(() => useLazyWindow("user", "posts", 0, 2));
+
+    expect(getJSON).toHaveBeenCalledTimes(1);
+    expect(getJSON).toHaveBeenCalledWith("user:posts:0");
+  });
+
+  it("should follow changes of the window and of the stored value", async () => {
+    const { result, rerender } = renderHook(
+      ({ start, end }) => useLazyWindow("user", "posts", start, end),
+      { initialProps: { start: 0, end: 2 } },
+    );
+
+    rerender({ start: 8, end: 12 });
+    expect(result.current.items).toEqual([{ id: 8 }, { id: 9 }]);
+
+    act(() => {
+      new LazyStorage(undefined, { sync: true }).setLazy(
+        "user",
+        { name: "John", posts: posts.slice(0, 9) },
+        { lazyFields: ["posts"], chunkSize: 3 },
+      );
+    });
+
+    await waitFor(() => expect(result.current.total).toBe(9));
+    expect(result.current.items).toEqual([{ id: 8 }]);
+  });
+
+  it("should return an empty window when the field is missing", () => {
+    const { result } = renderHook(() =>
+      useLazyWindow("missing", "posts", 0, 5),
+    );
+
+    expect(result.current).toEqual({ items: [], total: 0, isHydrated: true });
+  });
+});
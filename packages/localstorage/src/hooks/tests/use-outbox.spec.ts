@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useOutbox } from "../use-outbox";
+import { Outbox } from "../../lib/outbox";
+import { JSONStorage } from "../../lib/json-storage";
+import { MemoryStorageBackend } from "../../backends/memory-backend";
+
+describe("useOutbox", () => {
+  let storage: JSONStorage;
+
+  beforeEach(() => {
+    storage = new JSONStorage("@test:", {
+      backend: new MemoryStorageBackend(),
+    });
+  });
+
+  it("should expose the pending mutations and send them once mounted", async () => {
+    let resolve: () => void = () => {};
+    const send = vi.fn(() => new Promise<void>((done) => (resolve = done)));
+    const outbox = new Outbox<string>({ send, storage });
+    outbox.enqueue("first");
+
+    const { result } = renderHook(() => useOutbox(outbox));
+
+    expect(result.current.pending).toBe(1);
+    expect(result.current.status).toBe("sending");
+    expect(send).toHaveBeenCalledWith("first", expect.anything());
+
+    await act(async () => resolve());
+
+    expect(result.current.pending).toBe(0);
+    expect(result.current.status).toBe("idle");
+    expect(result.current.isHydrated).toBe(true);
+  });
+
+  it("should re-render when a mutation is enqueued", async () => {
+    const outbox = new Outbox<string>({
+      send: vi.fn().mockRejectedValue(new Error("Network error")),
+      storage,
+    });
+    const { result } = renderHook(() => useOutbox(outbox));
+
+    await act(async () => {
+      result.current.enqueue("first", "a");
+      await result.current.flush();
+    });
+
+    expect(result.current.pending).toBe(1);
+    expect(result.current.status).toBe("waiting");
+    expect(result.current.entries[0]).toMatchObject({ id: "a", attempts: 1 });
+  });
+
+  it("should stop the outbox on unmount", async () => {
+    const outbox = new Outbox<string>({ send: vi.fn(), storage });
+    const stop = vi.spyOn(outbox, "stop");
+
+    const { unmount } = renderHook(() => useOutbox(outbox));
+    unmount();
+
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+});
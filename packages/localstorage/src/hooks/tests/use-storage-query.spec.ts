@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { useStorageQuery } from "../use-storage-query";
+import { resetSharedStorage } from "../storage-provider";
+import { getQueryData, revalidateQuery } from "../../lib/storage-query";
+
+describe("useStorageQuery", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetSharedStorage();
+  });
+
+  it("should fetch missing data once mounted", async () => {
+    const fetcher = vi.fn().mockResolvedValue({ name: "John" });
+
+    const { result } = renderHook(() => useStorageQuery("user", fetcher));
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.isFetching).toBe(true);
+
+    await waitFor(() => expect(result.current.isFetching).toBe(false));
+
+    expect(result.current.data).toEqual({ name: "John" });
+    expect(result.current.error).toBeNull();
+    expect(getQueryData("user")).toEqual({ name: "John" });
+  });
+
+  it("should render cached data and skip fetching while it is fresh", async () => {
+    await revalidateQuery("user", async () => ({ name: "John" }));
+    const fetcher = vi.fn();
+
+    const { result } = renderHook(() =>
+      useStorageQuery("user", fetcher, { staleTime: 60000 }),
+    );
+
+    expect(result.current.data).toEqual({ name: "John" });
+    expect(result.current.isStale).toBe(false);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("should share data and a single fetch between components", async () => {
+    const fetcher = vi.fn().mockResolvedValue(["a", "b"]);
+
+    const { result } = renderHook(() => ({
+      first: useStorageQuery("tags", fetcher),
+      second: useStorageQuery("tags", fetcher),
+    }));
+
+    await waitFor(() => expect(result.current.second.data).toEqual(["a", "b"]));
+    expect(result.current.first.data).toEqual(["a", "b"]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should revalidate when the stale time changes", async () => {
+    await revalidateQuery("user", async () => ({ name: "John" }));
+    const fetcher = vi.fn().mockResolvedValue({ name: "Jane" });
+
+    const { result, rerender } = renderHook(
+      ({ staleTime }) => useStorageQuery("user", fetcher, { staleTime }),
+      { initialProps: { staleTime: 60000 } },
+    );
+    rerender({ staleTime: 60000 });
+    expect(fetcher).not.toHaveBeenCalled();
+
+    rerender({ staleTime: 0 });
+    await waitFor(() => expect(result.current.data).toEqual({ name: "Jane" }));
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("should expose the error of a failed fetch and keep the data", async () => {
+    await revalidateQuery("user", async () => ({ name: "John" }));
+    const fetcher = vi.fn().mockRejectedValue(new Error("Network error"));
+
+    const { result } = renderHook(() => useStorageQuery("user", fetcher));
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(Error));
+
+    expect(result.current.data).toEqual({ name: "John" });
+
+    fetcher.mockResolvedValue({ name: "Jane" });
+    await act(() => result.current.refetch());
+
+    expect(result.current.data).toEqual({ name: "Jane" });
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -1,13 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { renderHook, act } from "@testing-library/react";
+import { renderHook, act, waitFor } from "@testing-library/react";
 import { useStorage } from "../use-storage";
 import { LocalStorage } from "../../lib/localstorage";
+import { resetSharedStorage } from "../storage-provider";
 
 vi.mock("../../lib/localstorage", () => ({
   LocalStorage: vi.fn(() => ({
     get: vi.fn(),
-    set: vi.fn(),
+    set: vi.fn(() => ({ success: true, evicted: [] })),
     remove: vi.fn(),
+    subscribe: vi.fn(() => vi.fn()),
   })),
 }));
 
@@ -18,6 +20,7 @@ describe("useStorage", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    resetSharedStorage();
   });
 
   it("should initialize with stored value", () => {
@@ -26,8 +29,9 @@ describe("useStorage", () => {
 
     (LocalStorage as any).mockImplementation(() => ({
       get: mockGet,
-      set: vi.fn(),
+      set: vi.fn(() => ({ success: true, evicted: [] })),
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() => useStorage(key, initialValue, options));
@@ -41,8 +45,9 @@ describe("useStorage", () => {
 
     (LocalStorage as any).mockImplementation(() => ({
       get: mockGet,
-      set: vi.fn(),
+      set: vi.fn(() => ({ success: true, evicted: [] })),
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() => useStorage(key, initialValue, options));
@@ -52,13 +57,14 @@ describe("useStorage", () => {
   });
 
   it("should update value correctly", () => {
-    const mockSet = vi.fn();
+    const mockSet = vi.fn(() => ({ success: true, evicted: [] }));
     const newValue = { name: "Jane", age: 25 };
 
     (LocalStorage as any).mockImplementation(() => ({
       get: vi.fn(),
       set: mockSet,
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() => useStorage(key, initialValue, options));
@@ -75,12 +81,13 @@ describe("useStorage", () => {
   });
 
   it("should update value using a function", () => {
-    const mockSet = vi.fn();
+    const mockSet = vi.fn(() => ({ success: true, evicted: [] }));
 
     (LocalStorage as any).mockImplementation(() => ({
       get: vi.fn().mockReturnValue(initialValue),
       set: mockSet,
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() => useStorage(key, initialValue, options));
@@ -101,13 +108,14 @@ describe("useStorage", () => {
   });
 
   it("should update fields correctly", () => {
-    const mockSet = vi.fn();
+    const mockSet = vi.fn(() => ({ success: true, evicted: [] }));
     const updates = { name: "Jane" };
 
     (LocalStorage as any).mockImplementation(() => ({
       get: vi.fn().mockReturnValue(initialValue),
       set: mockSet,
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() => useStorage(key, initialValue, options));
@@ -132,8 +140,9 @@ describe("useStorage", () => {
 
     (LocalStorage as any).mockImplementation(() => ({
       get: vi.fn(),
-      set: vi.fn(),
+      set: vi.fn(() => ({ success: true, evicted: [] })),
       remove: mockRemove,
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() => useStorage(key, initialValue, options));
@@ -147,7 +156,7 @@ describe("useStorage", () => {
   });
 
   it("should handle auto compression based on value size", () => {
-    const mockSet = vi.fn();
+    const mockSet = vi.fn(() => ({ success: true, evicted: [] }));
     const largeValue = {
       name: "John",
       description: "A".repeat(2000),
@@ -157,6 +166,7 @@ describe("useStorage", () => {
       get: vi.fn(),
       set: mockSet,
       remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
     }));
 
     const { result } = renderHook(() => useStorage(key, initialValue, {}));
@@ -170,4 +180,195 @@ describe("useStorage", () => {
       compress: true,
     });
   });
+
+  it("should re-render when the key changes outside the component", () => {
+    let externalListener: () => void = () => {};
+    const mockGet = vi.fn().mockReturnValue(initialValue);
+
+    (LocalStorage as any).mockImplementation(() => ({
+      get: mockGet,
+      set: vi.fn(() => ({ success: true, evicted: [] })),
+      remove: vi.fn(),
+      subscribe: vi.fn((_key: string, listener: () => void) => {
+        externalListener = listener;
+        return vi.fn();
+      }),
+    }));
+
+    const { result } = renderHook(() => useStorage(key, initialValue, options));
+
+    mockGet.mockReturnValue({ name: "Jane", age: 25 });
+    act(() => {
+      externalListener();
+    });
+
+    expect(result.current.value).toEqual({ name: "Jane", age: 25 });
+
+    mockGet.mockReturnValue(null);
+    act(() => {
+      externalListener();
+    });
+
+    expect(result.current.value).toEqual(initialValue);
+  });
+
+  it("should keep its setters while the options do not change", () => {
+    const { result, rerender } = renderHook(
+      ({ ttl }) => useStorage(key, initialValue, { compress: true, ttl }),
+      { initialProps: { ttl: 1000 } },
+    );
+    const { setValue, updateFields, remove } = result.current;
+
+    rerender({ ttl: 1000 });
+
+    expect(result.current.setValue).toBe(setValue);
+    expect(result.current.updateFields).toBe(updateFields);
+    expect(result.current.remove).toBe(remove);
+
+    rerender({ ttl: 2000 });
+
+    expect(result.current.setValue).not.toBe(setValue);
+  });
+
+  it("should keep the current value when the write fails", () => {
+    const mockSet = vi.fn(() => ({ success: false, evicted: [] }));
+
+    (LocalStorage as any).mockImplementation(() => ({
+      get: vi.fn().mockReturnValue(initialValue),
+      set: mockSet,
+      remove: vi.fn(),
+      subscribe: vi.fn(() => vi.fn()),
+    }));
+
+    const { result } = renderHook(() => useStorage(key, initialValue, options));
+
+    act(() => {
+      result.current.setValue({ name: "Jane", age: 25 });
+    });
+
+    expect(mockSet).toHaveBeenCalled();
+    expect(result.current.value).toEqual(initialValue);
+  });
+
+  it("should keep the written encrypted value until it is loaded again", async () => {
+    let externalListener: () => void = () => {};
+    let resolveLoad: (value: unknown) => void = () => {};
+    const mockGetAsync = vi.fn().mockResolvedValue(null);
+
+    (LocalStorage as any).mockImplementation(() => ({
+      get: vi.fn(),
+      set: vi.fn(),
+      remove: vi.fn(),
+      getAsync: mockGetAsync,
+      setAsync: vi.fn().mockResolvedValue({ success: true, evicted: [] }),
+      subscribe: vi.fn((_key: string, listener: () => void) => {
+        externalListener = listener;
+        return vi.fn();
+      }),
+    }));
+
+    const { result } = renderHook(() =>
+      useStorage(key, initialValue, { encrypt: true }),
+    );
+    await waitFor(() => expect(mockGetAsync).toHaveBeenCalled());
+
+    act(() => {
+      result.current.setValue({ name: "Bob", age: 40 });
+    });
+    mockGetAsync.mockReturnValue(
+      new Promise((resolve) => {
+        resolveLoad = resolve;
+      }),
+    );
+    act(() => {
+      externalListener();
+    });
+
+    expect(result.current.value).toEqual({ name: "Bob", age: 40 });
+
+    await act(async () => {
+      resolveLoad({ name: "Bob", age: 40 });
+    });
+    expect(result.current.value).toEqual({ name: "Bob", age: 40 });
+  });
+
+  it("should read the encrypted value back when the write fails", async () => {
+    const mockGetAsync = vi.fn().mockResolvedValue({ name: "Jane", age: 25 });
+
+    (LocalStorage as any).mockImplementation(() => ({
+      get: vi.fn(),
+      set: vi.fn(),
+      remove: vi.fn(),
+      getAsync: mockGetAsync,
+      setAsync: vi.fn().mockResolvedValue({ success: false, evicted: [] }),
+      subscribe: vi.fn(() => vi.fn()),
+    }));
+
+    const { result } = renderHook(() =>
+      useStorage(key, initialValue, { encrypt: true }),
+    );
+    await waitFor(() =>
+      expect(result.current.value).toEqual({ name: "Jane", age: 25 }),
+    );
+
+    act(() => {
+      result.current.setValue({ name: "Bob", age: 40 });
+    });
+    expect(result.current.value).toEqual({ name: "Bob", age: 40 });
+
+    await waitFor(() =>
+      expect(result.current.value).toEqual({ name: "Jane", age: 25 }),
+    );
+  });
+
+  it("should read and write encrypted values asynchronously", async () => {
+    const encryptionKey = vi.fn();
+    const mockGet = vi.fn();
+    const mockGetAsync = vi.fn().mockResolvedValue({ name: "Jane", age: 25 });
+    const mockSetAsync = vi.fn().mockResolvedValue({
+      success: true,
+      evicted: [],
+    });
+    const mockRemoveAsync = vi.fn().mockResolvedValue(undefined);
+
+    (LocalStorage as any).mockImplementation(() => ({
+      get: mockGet,
+      set: vi.fn(() => ({ success: true, evicted: [] })),
+      remove: vi.fn(),
+      getAsync: mockGetAsync,
+      setAsync: mockSetAsync,
+      removeAsync: mockRemoveAsync,
+      subscribe: vi.fn(() => vi.fn()),
+    }));
+
+    const { result } = renderHook(() =>
+      useStorage(key, initialValue, { encrypt: true, encryptionKey }),
+    );
+
+    expect(result.current.value).toEqual(initialValue);
+    await waitFor(() =>
+      expect(result.current.value).toEqual({ name: "Jane", age: 25 }),
+    );
+    expect(LocalStorage).toHaveBeenCalledWith(undefined, {
+      sync: true,
+      encryptionKey,
+    });
+    expect(mockGet).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.setValue({ name: "Bob", age: 40 });
+    });
+
+    expect(mockSetAsync).toHaveBeenCalledWith(
+      key,
+      { name: "Bob", age: 40 },
+      { encrypt: true, compress: false },
+    );
+
+    act(() => {
+      result.current.remove();
+    });
+
+    expect(mockRemoveAsync).toHaveBeenCalledWith(key);
+  });
 });
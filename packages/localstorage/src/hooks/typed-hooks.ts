@@ -0,0 +1,49 @@
+import { useStorage } from "./use-storage";
+import { useJSONStorage } from "./use-json-storage";
+import { useLazyStorage } from "./use-lazy-storage";
+import type { ObjectStorageKey, StorageKey } from "../lib/typed-storage";
+
+/**
+ * `useStorage`, `useJSONStorage` and `useLazyStorage` with their keys and values checked
+ * against a schema.
+ */
+export interface TypedHooks<Schema> {
+  useStorage<K extends StorageKey<Schema>>(
+    key: K,
+    initialValue: Schema[K],
+    options?: Parameters<typeof useStorage<Schema[K]>>[2],
+  ): ReturnType<typeof useStorage<Schema[K]>>;
+  useJSONStorage<K extends ObjectStorageKey<Schema>>(
+    key: K,
+    initialValue: Schema[K] & object,
+    options?: Parameters<typeof useJSONStorage<Schema[K] & object>>[2],
+  ): ReturnType<typeof useJSONStorage<Schema[K] & object>>;
+  useLazyStorage<K extends ObjectStorageKey<Schema>>(
+    key: K,
+    initialValue: Schema[K] & object,
+    options?: Parameters<typeof useLazyStorage<Schema[K] & object>>[2],
+  ): ReturnType<typeof useLazyStorage<Schema[K] & object>>;
+}
+
+/**
+ * Returns the storage hooks typed by a schema, like `createTypedStorage` types a storage
+ * instance. Using a key the schema does not declare, or an initial value of the wrong
+ * type, is a compile error. The hooks are the regular ones, so they read the same keys.
+ *
+ * @template Schema - Maps the keys to the types of their values.
+ * @returns The typed hooks.
+ *
+ * @example
+ * ```tsx
+ * const { useStorage, useJSONStorage } = createTypedHooks<AppSchema>();
+ *
+ * function ThemeToggle() {
+ *   // value: "light" | "dark"
+ *   const { value, setValue } = useStorage("theme", "light");
+ *   // ...
+ * }
+ * ```
+ */
+export function createTypedHooks<Schema>(): TypedHooks<Schema> {
+  return { useStorage, useJSONStorage, useLazyStorage } as TypedHooks<Schema>;
+}
@@ -0,0 +1,82 @@
+import { useMemo, useRef, useSyncExternalStore } from "react";
+import { LocalStorage } from "../lib/localstorage";
+import { computed, ComputedOptions, ComputedValues } from "../lib/computed";
+import { useHydrated } from "./use-hydrated";
+import { useScopedStorage } from "./storage-provider";
+
+/**
+ * A React hook that renders a value derived from several stored keys, with `computed`.
+ * The component re-renders only when a source key changes and the derived value changes
+ * with it, whether the key is written by another component, another synced storage
+ * instance or another tab.
+ *
+ * The latest version of `fn` is used, but the value is only computed again when a key
+ * changes, so `fn` should only depend on the values it receives.
+ *
+ * On the server the hook does not touch storage and returns `serverSnapshot`, or the
+ * value of `fn` with every key missing.
+ *
+ * @template K - The source keys.
+ * @template R - The type of the derived value.
+ * @param keys - The source keys, read like `useStorage` reads them.
+ * @param fn - Computes the derived value from the values of the keys, null for missing ones. It may declare fewer parameters than there are keys.
+ * @param options - How to compare derived values, and the `serverSnapshot` to render on the server.
+ * @returns An object containing the derived value, and whether it has been read after hydration.
+ *
+ * @example
+ * ```tsx
+ * import { useComputedStorage } from "@brushy/localstorage";
+ *
+ * function CartTotal() {
+ *   const { value: total } = useComputedStorage(
+ *     ["cart:items", "prefs:currency"],
+ *     (items: CartItem[] | null, currency: string | null) =>
+ *       formatPrice(sumPrices(items ?? []), currency ?? "USD"),
+ *   );
+ *
+ *   return <span>{total}</span>;
+ * }
+ * ```
+ */
+export function useComputedStorage<K extends string[], R>(
+  keys: readonly [...K],
+  fn: (...values: ComputedValues<K>) => R,
+  options: Omit<ComputedOptions<R>, "storage"> & { serverSnapshot?: R } = {},
+) {
+  const storage = useScopedStorage(LocalStorage);
+
+  const fnRef = useRef(fn);
+  fnRef.current = fn;
+
+  /**
+   * The derived value, created again when the storage or the keys change.
+   */
+  const derived = useMemo(
+    () =>
+      computed<K, R>(keys, (...values) => fnRef.current(...values), {
+        storage,
+        equals: options.equals,
+      }),
+    [storage, keys.join("\u0000")],
+  );
+
+  /**
+   * The value rendered on the server and during hydration.
+   */
+  const serverValue = useMemo(
+    () =>
+      "serverSnapshot" in options
+        ? (options.serverSnapshot as R)
+        : fnRef.current(...(keys.map(() => null) as ComputedValues<K>)),
+    [derived],
+  );
+
+  const value = useSyncExternalStore(
+    derived.subscribe,
+    derived.get,
+    () => serverValue,
+  );
+  const isHydrated = useHydrated();
+
+  return { value, isHydrated } as const;
+}
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from "react";
+
+const subscribe = () => () => {};
+
+/**
+ * Returns whether the component renders with the values in storage: false on the
+ * server and during hydration, true afterwards and in client-only renders.
+ *
+ * @internal
+ */
+export function useHydrated(): boolean {
+  return useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false,
+  );
+}
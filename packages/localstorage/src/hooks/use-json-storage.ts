@@ -1,15 +1,63 @@
-import { useState, useCallback } from "react";
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
 import { JSONStorage } from "../lib/json-storage";
-import { JSONStorageOptions } from "../core/types";
+import { getKeyStore } from "./key-store";
+import { useHydrated } from "./use-hydrated";
+import { useScopedStorage } from "./storage-provider";
+import { StorageValidationError } from "../core/errors";
+import {
+  HistoryOptions,
+  JSONStorageOptions,
+  StorageValidator,
+  ValidationIssue,
+} from "../core/types";
+
+/**
+ * The shared state of a key read by `useJSONStorage`.
+ */
+interface JSONSnapshot<T> {
+  value: T | null;
+  errors: ValidationIssue[];
+  schema: object | null;
+}
+
+/**
+ * Runs a read, falling back to a default value if it throws.
+ */
+const attempt = <R>(read: () => R, fallback: R): R => {
+  try {
+    return read();
+  } catch {
+    return fallback;
+  }
+};
 
 /**
  * A React hook for managing JSON data in localStorage with support for partial updates, schema validation, and array merging.
+ * Every component using the same key shares its value, errors and schema, so a write made
+ * through any of them, or through another synced storage instance, re-renders all of them
+ * at once. The component also re-renders when the key is changed by another tab.
  *
  * @template T - The type of JSON data to be stored, which must be an object.
  * @param key - The unique key to store the data in localStorage.
  * @param initialValue - The initial value to use if no data is stored.
- * @param options - Additional storage options, such as compression or a custom reviver.
- * @returns An object containing the current value, functions to update the value, merge arrays, and remove the data, along with validation and schema information.
+ * @param options - Additional storage options, such as compression, a custom reviver, a `schema` to validate the value with, the `history` to keep or the `serverSnapshot` to render on the server.
+ * @returns An object containing the current value, functions to update the value, merge arrays, remove the data, and undo or redo changes, along with validation errors, schema information, whether there are changes to undo or redo, and whether the stored value has been read after hydration.
+ *
+ * Writes rejected by the schema leave the value unchanged and are reported through `errors`.
+ *
+ * With the `history` option the hook keeps an undo history of the key (see `JSONStorage.enableHistory`),
+ * and `undo` and `redo` step through it.
+ *
+ * On the server the hook does not touch storage and returns `serverSnapshot`, or `initialValue`
+ * without one, with no errors or schema. Hydration renders the same state, then the component
+ * re-renders with the stored one and `isHydrated` becomes true.
  *
  * @example
  * ```tsx
@@ -25,7 +73,7 @@ import { JSONStorageOptions } from "../core/types";
  * }
  *
  * function SettingsComponent() {
- *   const [prefs, setPrefs, updatePrefs, mergePrefs, removePrefs, isValid, schema] = useJSONStorage<UserPreferences>(
+ *   const { value: prefs, setValue: setPrefs, updateFields: updatePrefs, mergeArrays: mergePrefs, remove: removePrefs, errors, schema } = useJSONStorage<UserPreferences>(
  *     "user:prefs",
  *     {
  *       theme: "light",
@@ -69,7 +117,9 @@ import { JSONStorageOptions } from "../core/types";
  *       <button onClick={disableNotifications}>Disable Notifications</button>
  *       <button onClick={addNotificationTypes}>Add Notification Types</button>
  *       <button onClick={removePrefs}>Reset Settings</button>
- *       <p>Is Valid: {isValid ? "Yes" : "No"}</p>
+ *       {errors.map((issue) => (
+ *         <p key={issue.path.join(".")}>{issue.path.join(".")}: {issue.message}</p>
+ *       ))}
  *       <p>Schema: {schema ? JSON.stringify(schema) : "None"}</p>
  *     </div>
  *   );
@@ -79,41 +129,143 @@ import { JSONStorageOptions } from "../core/types";
 export function useJSONStorage<T extends object>(
   key: string,
   initialValue: T,
-  options: JSONStorageOptions = {},
+  options: JSONStorageOptions & {
+    schema?: StorageValidator<T>;
+    serverSnapshot?: T;
+    history?: boolean | HistoryOptions;
+  } = {},
 ) {
-  const storage = new JSONStorage();
+  const {
+    schema: validator,
+    serverSnapshot,
+    history,
+    ttl,
+    compress,
+    sliding,
+    encrypt,
+    pretty,
+    replacer,
+    reviver,
+  } = options;
+  const storage = useScopedStorage(JSONStorage);
 
   /**
-   * The current value stored in localStorage or the initial value if no data is stored.
+   * The options of the writes, kept while none of them changes.
    */
-  const [value, setValue] = useState<T>(() => {
-    const stored = storage.getJSON<T>(key, { reviver: options.reviver });
-    return stored !== null ? stored : initialValue;
-  });
+  const storageOptions = useMemo<JSONStorageOptions>(
+    () => ({ ttl, compress, sliding, encrypt, pretty, replacer, reviver }),
+    [ttl, compress, sliding, encrypt, pretty, replacer, reviver],
+  );
+
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
 
   /**
-   * Indicates whether the stored JSON data is valid.
+   * Records the undo history of the key while the component is mounted.
    */
-  const [isValid, setIsValid] = useState(() => {
-    try {
-      const stored = storage.getJSON<T>(key);
-      return stored !== null;
-    } catch {
-      return false;
+  useEffect(() => {
+    if (!history) return;
+    return storage.enableHistory(key, history === true ? {} : history);
+  }, [storage, key, JSON.stringify(history)]);
+
+  /**
+   * Reads the value, validation issues and JSON schema of the stored data.
+   */
+  const readState = (): JSONSnapshot<T> => {
+    const stored = storage.getJSON<T>(key, { reviver });
+    return {
+      value: stored,
+      errors: attempt(() => storage.validateJSON(key), []),
+      schema: stored ? attempt(() => storage.getJSONSchema(key), null) : null,
+    };
+  };
+
+  /**
+   * The store of the key, shared with every other component reading it. Besides the
+   * value, it holds the validation issues and the JSON schema of the stored data.
+   */
+  const store = useMemo(
+    () =>
+      getKeyStore<JSONSnapshot<T>>(storage, "json", key, { read: readState }),
+    [storage, key],
+  );
+
+  /**
+   * Validates the key with the `schema` option while the component is mounted. The
+   * stored value may have been read before, so its issues are updated if they change.
+   */
+  useEffect(() => {
+    if (!validator) return;
+    const unregister = storage.registerSchema(key, validator);
+
+    const errors = attempt(() => storage.validateJSON(key), []);
+    if (JSON.stringify(errors) !== JSON.stringify(store.getSnapshot().errors)) {
+      store.update(() => ({ ...store.getSnapshot(), errors }));
     }
-  });
+    return unregister;
+  }, [storage, key, validator]);
 
   /**
-   * The JSON schema of the stored data, if available.
+   * The state rendered on the server and during hydration.
    */
-  const [schema, setSchema] = useState(() => {
+  const serverState = useMemo<JSONSnapshot<T>>(
+    () => ({ value: serverSnapshot ?? null, errors: [], schema: null }),
+    [serverSnapshot],
+  );
+
+  const snapshot = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    () => serverState,
+  );
+  const isHydrated = useHydrated();
+  const value = snapshot.value !== null ? snapshot.value : initialValue;
+
+  /**
+   * The issues of the last write of this component rejected by the schema, shown
+   * until the value changes.
+   */
+  const [rejected, setRejected] = useState<{
+    snapshot: JSONSnapshot<T>;
+    issues: ValidationIssue[];
+  } | null>(null);
+
+  const errors =
+    rejected && rejected.snapshot === snapshot
+      ? rejected.issues
+      : snapshot.errors;
+
+  /**
+   * Runs a write through the store. A write rejected by the schema leaves the value
+   * unchanged and exposes the issues found.
+   *
+   * @param write - Writes the key, returning the new value or null if nothing changed.
+   */
+  const commit = (write: () => T | null) => {
     try {
-      const stored = storage.getJSON<T>(key);
-      return stored ? storage.getJSONSchema(key) : null;
-    } catch {
-      return null;
+      store.update(() => {
+        const written = write();
+        return written === null
+          ? store.getSnapshot()
+          : {
+              value: written,
+              errors: [],
+              schema: storage.getJSONSchema(key),
+            };
+      });
+    } catch (error) {
+      if (!(error instanceof StorageValidationError)) throw error;
+      setRejected({ snapshot: store.getSnapshot(), issues: error.issues });
     }
-  });
+  };
+
+  /**
+   * Returns the current value of the key, which may be newer than the rendered one.
+   */
+  const current = () => {
+    const latest = store.getSnapshot().value;
+    return latest !== null ? latest : initialValueRef.current;
+  };
 
   /**
    * Updates the entire value stored in localStorage.
@@ -122,19 +274,17 @@ export function useJSONStorage<T extends object>(
    */
   const updateValue = useCallback(
     (newValue: T | ((prev: T) => T)) => {
-      setValue((prev: T) => {
-        const resolvedValue =
-          typeof newValue === "function"
-            ? (newValue as (prev: T) => T)(prev)
-            : newValue;
-
-        storage.setJSON(key, resolvedValue, options);
-        setIsValid(storage.isValidJSON(key));
-        setSchema(storage.getJSONSchema(key));
+      const resolvedValue =
+        typeof newValue === "function"
+          ? (newValue as (prev: T) => T)(current())
+          : newValue;
+
+      commit(() => {
+        storage.setJSON(key, resolvedValue, storageOptions);
         return resolvedValue;
       });
     },
-    [key, options],
+    [store, storage, key, storageOptions],
   );
 
   /**
@@ -144,14 +294,9 @@ export function useJSONStorage<T extends object>(
    */
   const updateFields = useCallback(
     (updates: Partial<T>) => {
-      const updated = storage.updateJSON<T>(key, updates, options);
-      if (updated) {
-        setValue(updated);
-        setIsValid(storage.isValidJSON(key));
-        setSchema(storage.getJSONSchema(key));
-      }
+      commit(() => storage.updateJSON<T>(key, updates, storageOptions));
     },
-    [key, options],
+    [store, storage, key, storageOptions],
   );
 
   /**
@@ -169,31 +314,48 @@ export function useJSONStorage<T extends object>(
         comparator?: (a: I, b: I) => boolean;
       } = {},
     ) => {
-      if (!Array.isArray(value)) {
+      if (!Array.isArray(current())) {
         throw new Error("Current value is not an array");
       }
 
-      const merged = storage.mergeArrays(key, items, {
-        ...options,
-        ...mergeOptions,
-      });
-
-      setValue(merged as unknown as T);
-      setIsValid(storage.isValidJSON(key));
-      setSchema(storage.getJSONSchema(key));
+      commit(
+        () =>
+          storage.mergeArrays(key, items, {
+            ...storageOptions,
+            ...mergeOptions,
+          }) as unknown as T,
+      );
     },
-    [key, options, value],
+    [store, storage, key, storageOptions],
   );
 
   /**
    * Removes the stored JSON data and resets to the initial value.
    */
   const remove = useCallback(() => {
-    storage.remove(key);
-    setValue(initialValue);
-    setIsValid(storage.isValidJSON(key));
-    setSchema(storage.getJSONSchema(key));
-  }, [key, initialValue]);
+    store.update(() => {
+      storage.remove(key);
+      return {
+        value: null,
+        errors: [],
+        schema: storage.getJSONSchema(key),
+      };
+    });
+  }, [store, storage, key]);
+
+  /**
+   * Restores the value the key had before its last change. Requires the `history` option.
+   */
+  const undo = useCallback(() => {
+    store.update(() => (storage.undo(key) ? readState() : store.getSnapshot()));
+  }, [store]);
+
+  /**
+   * Applies again the last change reverted by `undo`. Requires the `history` option.
+   */
+  const redo = useCallback(() => {
+    store.update(() => (storage.redo(key) ? readState() : store.getSnapshot()));
+  }, [store]);
 
   return {
     value,
@@ -201,7 +363,12 @@ export function useJSONStorage<T extends object>(
     updateFields,
     mergeArrays,
     remove,
-    isValid,
-    schema,
+    errors,
+    schema: snapshot.schema,
+    isHydrated,
+    undo,
+    redo,
+    canUndo: !!history && isHydrated && storage.canUndo(key),
+    canRedo: !!history && isHydrated && storage.canRedo(key),
   } as const;
 }
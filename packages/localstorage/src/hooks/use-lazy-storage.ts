@@ -1,15 +1,46 @@
-import { useState, useCallback, useRef } from "react";
+import { useCallback, useMemo, useSyncExternalStore } from "react";
 import { LazyStorage, LazyStorageOptions } from "../lib/lazy-storage";
+import { getKeyStore, KeyStore } from "./key-store";
+import { useHydrated } from "./use-hydrated";
+import { useScopedStorage } from "./storage-provider";
 import type { CompressionOptions } from "../core/types";
 
+/**
+ * The fields loaded so far of the value of each key store, shared like the value.
+ */
+const loadedFields = new WeakMap<
+  KeyStore<any>,
+  { value: unknown; fields: Set<string> }
+>();
+
+/**
+ * Returns the loaded fields of the current value of a store, starting over when the value changes.
+ */
+function loadedFieldsOf(store: KeyStore<any>): Set<string> {
+  const value = store.getSnapshot();
+  let entry = loadedFields.get(store);
+  if (!entry || entry.value !== value) {
+    entry = { value, fields: new Set() };
+    loadedFields.set(store, entry);
+  }
+  return entry.fields;
+}
+
 /**
  * A React hook for managing lazy-loaded data in localStorage with support for compression and field-specific operations.
+ * Every component using the same key shares its value and loaded fields, so a write made
+ * through any of them, or through another synced storage instance, re-renders all of them
+ * at once. The component also re-renders when the key is changed by another tab.
+ *
+ * On the server the hook does not touch storage and returns `serverSnapshot`, or `initialValue`
+ * without one. Hydration renders the same value, then the component re-renders with the stored
+ * one and `isHydrated` becomes true.
  *
  * @template T - The type of data to be stored, which must be an object.
  * @param key - The unique key to store the data in localStorage.
  * @param initialValue - The initial value to use if no data is stored.
- * @param options - Additional storage options, such as compression.
- * @returns An object containing the current value, functions to update the value, preload fields, check if fields are loaded, and remove the data.
+ * @param options - Additional storage options, such as compression, and the `serverSnapshot` to render on the server.
+ * @returns An object containing the current value, functions to update the value, preload fields, check if fields are loaded, and remove the data, and whether the stored value has been read after hydration.
  *
  * @example
  * ```tsx
@@ -57,22 +88,38 @@ import type { CompressionOptions } from "../core/types";
 export function useLazyStorage<T extends object>(
   key: string,
   initialValue: T,
-  options: LazyStorageOptions = {},
+  options: LazyStorageOptions & { serverSnapshot?: T } = {},
 ) {
-  const storage = new LazyStorage();
+  const { serverSnapshot, ...lazyOptions } = options;
+  const storage = useScopedStorage(LazyStorage);
 
   /**
-   * Initial state of the stored value or the provided initial value.
+   * The store of the key, shared with every other component reading it.
    */
-  const [value, setValue] = useState<T>(() => {
-    const stored = storage.getLazy<T>(key, options);
-    return stored !== null ? stored : initialValue;
-  });
+  const store = useMemo(
+    () =>
+      getKeyStore<T | null>(storage, "lazy", key, {
+        read: () => storage.getLazy<T>(key, lazyOptions),
+        invalidate: () => storage.clearCache(),
+      }),
+    [storage, key],
+  );
+
+  const stored = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    () => serverSnapshot ?? null,
+  );
+  const isHydrated = useHydrated();
+  const value = stored !== null ? stored : initialValue;
 
   /**
-   * Keeps track of which fields have been loaded.
+   * Returns the current value of the key, which may be newer than the rendered one.
    */
-  const loadedFields = useRef(new Set<string>());
+  const current = () => {
+    const latest = store.getSnapshot();
+    return latest !== null ? latest : initialValue;
+  };
 
   /**
    * Updates the value stored in localStorage.
@@ -81,34 +128,34 @@ export function useLazyStorage<T extends object>(
    */
   const updateValue = useCallback(
     (newValue: T | ((prev: T) => T)) => {
-      setValue((prev) => {
-        const resolvedValue =
-          typeof newValue === "function"
-            ? (newValue as (prev: T) => T)(prev)
-            : newValue;
+      const resolvedValue =
+        typeof newValue === "function"
+          ? (newValue as (prev: T) => T)(current())
+          : newValue;
 
-        const defaultCompression: CompressionOptions = {
-          mode: undefined,
-          threshold: 1024,
-        };
+      const defaultCompression: CompressionOptions = {
+        mode: undefined,
+        threshold: 1024,
+      };
 
+      store.update(() => {
         storage.setLazy(key, resolvedValue, {
-          ...options,
-          compression: options.compression ?? defaultCompression,
-        });
-
-        // Mark all fields as loaded
-        Object.keys(resolvedValue).forEach((field) => {
-          const typedField = field as keyof T;
-          if (resolvedValue[typedField] !== undefined) {
-            loadedFields.current.add(field);
-          }
+          ...lazyOptions,
+          compression: lazyOptions.compression ?? defaultCompression,
         });
-
         return resolvedValue;
       });
+
+      // Mark all fields as loaded
+      const fields = loadedFieldsOf(store);
+      Object.keys(resolvedValue).forEach((field) => {
+        const typedField = field as keyof T;
+        if (resolvedValue[typedField] !== undefined) {
+          fields.add(field);
+        }
+      });
     },
-    [key, options],
+    [store, options],
   );
 
   /**
@@ -118,12 +165,13 @@ export function useLazyStorage<T extends object>(
    */
   const preloadField = useCallback(
     (field: string) => {
-      if (!loadedFields.current.has(field)) {
+      const fields = loadedFieldsOf(store);
+      if (!fields.has(field)) {
         storage.preload(key, [field]);
-        loadedFields.current.add(field);
+        fields.add(field);
       }
     },
-    [key],
+    [store],
   );
 
   /**
@@ -133,18 +181,20 @@ export function useLazyStorage<T extends object>(
    * @returns True if the field has been loaded, false otherwise.
    */
   const isFieldLoaded = useCallback(
-    (field: string) => loadedFields.current.has(field),
-    [],
+    (field: string) => loadedFieldsOf(store).has(field),
+    [store],
   );
 
   /**
    * Removes the stored data and resets to the initial value.
    */
   const remove = useCallback(() => {
-    storage.remove(key);
-    setValue(initialValue);
-    loadedFields.current.clear();
-  }, [key, initialValue]);
+    store.update(() => {
+      storage.remove(key);
+      return null;
+    });
+    loadedFields.delete(store);
+  }, [store, initialValue]);
 
   return {
     value,
@@ -152,5 +202,6 @@ export function useLazyStorage<T extends object>(
     preloadField,
     isFieldLoaded,
     remove,
+    isHydrated,
   } as const;
 }
@@ -0,0 +1,70 @@
+import { useState, useEffect, useMemo } from "react";
+import { LazyStorage } from "../lib/lazy-storage";
+import { useScopedStorage } from "./storage-provider";
+import { useHydrated } from "./use-hydrated";
+
+/**
+ * A React hook that reads a window of a lazy array field, for virtualized lists.
+ * Only the chunks holding the items of the window are loaded, and the window is
+ * read again when the key is changed by another tab or storage instance.
+ *
+ * @template T - The type of the items of the array.
+ * @param key - The key of the object stored with `setLazy`.
+ * @param field - The lazy array field.
+ * @param start - Index of the first item of the window.
+ * @param end - Index after the last item of the window.
+ * @returns The items of the window, the total number of items of the field, and whether
+ * storage has been read after hydration. On the server the window is empty.
+ *
+ * @example
+ * ```tsx
+ * import { useLazyWindow } from "@brushy/localstorage";
+ *
+ * function PostList({ start, end }: { start: number; end: number }) {
+ *   const { items, total } = useLazyWindow<Post>("user", "posts", start, end);
+ *
+ *   return (
+ *     <VirtualList total={total} offset={start}>
+ *       {items.map((post) => (
+ *         <PostRow key={post.id} post={post} />
+ *       ))}
+ *     </VirtualList>
+ *   );
+ * }
+ * ```
+ */
+export function useLazyWindow<T>(
+  key: string,
+  field: string,
+  start: number,
+  end: number,
+) {
+  const storage = useScopedStorage(LazyStorage);
+
+  /**
+   * Incremented on every change of the key, to read the field again.
+   */
+  const [revision, setRevision] = useState(0);
+
+  useEffect(
+    () => storage.subscribe(key, () => setRevision((current) => current + 1)),
+    [storage, key],
+  );
+
+  /**
+   * Storage is only read after hydration, so the server and the hydration render an empty window.
+   */
+  const isHydrated = useHydrated();
+
+  const list = useMemo(
+    () => (isHydrated ? storage.getLazyArray<T>(key, field) : null),
+    [storage, key, field, revision, isHydrated],
+  );
+
+  const items = useMemo(
+    () => (list ? list.slice(start, end) : []),
+    [list, start, end],
+  );
+
+  return { items, total: list?.length ?? 0, isHydrated } as const;
+}
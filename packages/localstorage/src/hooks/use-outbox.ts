@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { Outbox, OutboxSnapshot } from "../lib/outbox";
+import { useHydrated } from "./use-hydrated";
+
+const serverSnapshot: OutboxSnapshot<never> = { entries: [], status: "idle" };
+
+/**
+ * A React hook that runs an outbox while the component is mounted and exposes its queue.
+ * The component re-renders whenever a mutation is queued, sent or retried, in this tab or
+ * in another one, and whenever the status of the outbox changes.
+ *
+ * On the server, and during hydration, the queue is empty and the status is `"idle"`.
+ *
+ * @template M - The type of the mutations.
+ * @param outbox - The outbox to run, usually created once at module level.
+ * @returns An object containing the number of pending mutations, the status of the outbox, the queued entries, functions to enqueue a mutation and to send the queue right away, and whether the queue has been read after hydration.
+ *
+ * @example
+ * ```tsx
+ * import { useOutbox } from "@brushy/localstorage";
+ * import { todoOutbox } from "./outbox";
+ *
+ * function SyncIndicator() {
+ *   const { pending, status, flush } = useOutbox(todoOutbox);
+ *
+ *   if (pending === 0) return <span>All changes saved</span>;
+ *
+ *   return (
+ *     <span>
+ *       {pending} pending ({status}) <button onClick={flush}>Retry now</button>
+ *     </span>
+ *   );
+ * }
+ * ```
+ */
+export function useOutbox<M>(outbox: Outbox<M>) {
+  const subscribe = useCallback(
+    (listener: () => void) => outbox.subscribe(listener),
+    [outbox],
+  );
+  const getSnapshot = useCallback(() => outbox.getSnapshot(), [outbox]);
+
+  const snapshot = useSyncExternalStore<OutboxSnapshot<M>>(
+    subscribe,
+    getSnapshot,
+    () => serverSnapshot,
+  );
+  const isHydrated = useHydrated();
+
+  /**
+   * Replays the queue while the component is mounted.
+   */
+  useEffect(() => {
+    outbox.start();
+    return () => outbox.stop();
+  }, [outbox]);
+
+  /**
+   * Adds a mutation to the queue.
+   *
+   * @param mutation - The mutation to send.
+   * @param id - Its idempotency key. Defaults to a random one.
+   */
+  const enqueue = useCallback(
+    (mutation: M, id?: string) => outbox.enqueue(mutation, id),
+    [outbox],
+  );
+
+  /**
+   * Sends the queued mutations that are due right away.
+   */
+  const flush = useCallback(() => outbox.flush(), [outbox]);
+
+  return {
+    pending: snapshot.entries.length,
+    status: snapshot.status,
+    entries: snapshot.entries,
+    enqueue,
+    flush,
+    isHydrated,
+  } as const;
+}
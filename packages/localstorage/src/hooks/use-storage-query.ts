@@ -0,0 +1,127 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { LocalStorage } from "../lib/localstorage";
+import {
+  StorageQueryOptions,
+  getQueryData,
+  isQueryFetching,
+  isQueryStale,
+  revalidateQuery,
+} from "../lib/storage-query";
+import { getKeyStore } from "./key-store";
+import { useHydrated } from "./use-hydrated";
+import { useScopedStorage } from "./storage-provider";
+
+/**
+ * A React hook that reads data through the stale-while-revalidate cache of `storageQuery`.
+ * The component renders the cached data right away and fetches it again once mounted when
+ * it is missing or older than `staleTime`, re-rendering with the result. Components reading
+ * the same key share its data and a single fetch.
+ *
+ * On the server the hook does not touch storage or fetch, and returns `serverSnapshot` as the data.
+ *
+ * @template T - The type of the data.
+ * @param key - The key the data is cached under.
+ * @param fetcher - Fetches the data. Its latest version is used, so it may change between renders.
+ * @param options - How long the data is fresh and kept, whether it is compressed, and the `serverSnapshot` to render on the server.
+ * @returns An object containing the data, or null before it is first fetched, the error of the last fetch, whether a fetch is in flight, whether the data is stale, a function to fetch it again, and whether the cached data has been read after hydration.
+ *
+ * @example
+ * ```tsx
+ * import { useStorageQuery } from "@brushy/localstorage";
+ *
+ * function Profile({ id }: { id: string }) {
+ *   const { data, error, isFetching, refetch } = useStorageQuery(
+ *     `user:${id}`,
+ *     () => fetch(`/api/users/${id}`).then((response) => response.json()),
+ *     { staleTime: 60000 },
+ *   );
+ *
+ *   if (!data) return error ? <p>Failed to load</p> : <Spinner />;
+ *
+ *   return (
+ *     <div>
+ *       <h1>{data.name}</h1>
+ *       <button onClick={refetch} disabled={isFetching}>Refresh</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useStorageQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: Omit<StorageQueryOptions, "storage"> & { serverSnapshot?: T } = {},
+) {
+  const { serverSnapshot, staleTime, ttl, compress } = options;
+  const storage = useScopedStorage(LocalStorage);
+
+  /**
+   * The options of the query, kept while none of them changes.
+   */
+  const settings = useMemo<StorageQueryOptions>(
+    () => ({ staleTime, ttl, compress, storage }),
+    [storage, staleTime, ttl, compress],
+  );
+
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  /**
+   * The store of the key, shared with every other component reading it.
+   */
+  const store = useMemo(
+    () =>
+      getKeyStore<T | null>(storage, "query", key, {
+        read: () => getQueryData<T>(key, { storage }),
+      }),
+    [storage, key],
+  );
+
+  const data = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    () => serverSnapshot ?? null,
+  );
+  const isHydrated = useHydrated();
+
+  const [isFetching, setFetching] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  /**
+   * Fetches the data again, joining the fetch in flight if there is one. The cached
+   * data is kept if the fetch fails.
+   */
+  const refetch = useCallback(() => {
+    setFetching(true);
+    return revalidateQuery(key, () => fetcherRef.current(), settings)
+      .then(
+        () => setError(null),
+        (fetchError) => setError(fetchError),
+      )
+      .finally(() => setFetching(isQueryFetching(key, settings)));
+  }, [key, settings]);
+
+  /**
+   * Revalidates the data once mounted, and whenever the key or the options change, if
+   * it is missing or stale.
+   */
+  useEffect(() => {
+    if (isQueryStale(key, settings)) refetch();
+  }, [key, settings, refetch]);
+
+  return {
+    data,
+    error,
+    isFetching,
+    isStale: isHydrated && isQueryStale(key, settings),
+    refetch,
+    isHydrated,
+  } as const;
+}
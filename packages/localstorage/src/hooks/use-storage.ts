@@ -1,15 +1,29 @@
-import { useState, useCallback } from "react";
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
 import { LocalStorage } from "../lib/localstorage";
-import type { StorageOptions } from "../core/types";
+import { getKeyStore } from "./key-store";
+import { useHydrated } from "./use-hydrated";
+import { useScopedStorage } from "./storage-provider";
+import type { EncryptionKeyProvider, StorageOptions } from "../core/types";
 
 /**
  * Hook for managing data in localStorage with support for compression and field updates.
+ * Every component using the same key shares its value, so a write made through any of
+ * them, or through another synced storage instance, re-renders all of them at once.
+ * The component also re-renders when the key is changed by another tab.
+ *
+ * With the `encrypt` option and an `encryptionKey` provider the value is encrypted at rest.
+ * Decryption is asynchronous, so the hook starts with `initialValue` and updates once the
+ * stored value has been decrypted.
+ *
+ * On the server the hook does not touch storage and returns `serverSnapshot`, or `initialValue`
+ * without one. Hydration renders the same value, then the component re-renders with the stored
+ * one and `isHydrated` becomes true.
  *
  * @template T - The type of data to be stored.
  * @param key - The unique key to store the data in localStorage.
  * @param initialValue - The initial value to use if no data is stored.
- * @param options - Additional storage options, such as compression.
- * @returns An object containing the current value, functions to update the value, and remove the data.
+ * @param options - Additional storage options, such as compression or encryption, and the `serverSnapshot` to render on the server.
+ * @returns An object containing the current value, functions to update the value, and remove the data, and whether the stored value has been read after hydration.
  *
  * @example
  * ```tsx
@@ -45,17 +59,86 @@ import type { StorageOptions } from "../core/types";
 export function useStorage<T>(
   key: string,
   initialValue: T,
-  options: StorageOptions = {},
+  options: StorageOptions & {
+    encryptionKey?: EncryptionKeyProvider;
+    serverSnapshot?: T;
+  } = {},
 ) {
-  const storage = new LocalStorage();
+  const { encryptionKey, serverSnapshot, ttl, compress, sliding, encrypt } =
+    options;
+  const storage = useScopedStorage(LocalStorage, encryptionKey);
+
+  /**
+   * The options of the writes, kept while none of them changes.
+   */
+  const storageOptions = useMemo<StorageOptions>(
+    () => ({ ttl, compress, sliding, encrypt }),
+    [ttl, compress, sliding, encrypt],
+  );
+
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+
+  /**
+   * The store of the key, shared with every other component reading it. Encrypted
+   * values are read asynchronously, so their store starts empty and is filled once
+   * the stored value has been decrypted.
+   */
+  const store = useMemo(
+    () =>
+      storageOptions.encrypt
+        ? getKeyStore<T | null>(storage, "encrypted", key, {
+            read: () => null,
+            load: () => storage.getAsync<T>(key),
+          })
+        : getKeyStore<T | null>(storage, "value", key, {
+            read: () => storage.get<T>(key),
+          }),
+    [storage, key, storageOptions.encrypt],
+  );
+
+  const stored = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    () => serverSnapshot ?? null,
+  );
+  const isHydrated = useHydrated();
+  const value = stored !== null ? stored : initialValue;
 
   /**
-   * Initial state of the stored value or the provided initial value.
+   * Returns the current value of the key, which may be newer than the rendered one.
    */
-  const [value, setValue] = useState<T>(() => {
-    const stored = storage.get<T>(key);
-    return stored !== null ? stored : initialValue;
-  });
+  const current = () => {
+    const latest = store.getSnapshot();
+    return latest !== null ? latest : initialValueRef.current;
+  };
+
+  /**
+   * Writes a value, encrypting it when the `encrypt` option is set.
+   *
+   * @returns The value to render: the written one, or the current one if the write failed.
+   * Encrypted values are rendered before they are stored, and read back if that fails.
+   */
+  const write = (nextValue: T): T | null => {
+    const writeOptions = {
+      ...storageOptions,
+      compress:
+        storageOptions.compress ??
+        (nextValue && JSON.stringify(nextValue).length > 1024),
+    };
+
+    if (storageOptions.encrypt) {
+      storage.setAsync(key, nextValue, writeOptions).then((result) => {
+        if (result.success) return;
+        storage.getAsync<T>(key).then((stored) => store.update(() => stored));
+      });
+      return nextValue;
+    }
+
+    return storage.set(key, nextValue, writeOptions).success
+      ? nextValue
+      : store.getSnapshot();
+  };
 
   /**
    * Updates the value stored in localStorage.
@@ -64,22 +147,14 @@ export function useStorage<T>(
    */
   const updateValue = useCallback(
     (newValue: T | ((prev: T) => T)) => {
-      setValue((prev) => {
-        const resolvedValue =
-          typeof newValue === "function"
-            ? (newValue as (prev: T) => T)(prev)
-            : newValue;
+      const resolvedValue =
+        typeof newValue === "function"
+          ? (newValue as (prev: T) => T)(current())
+          : newValue;
 
-        storage.set(key, resolvedValue, {
-          ...options,
-          compress:
-            options.compress ??
-            (resolvedValue && JSON.stringify(resolvedValue).length > 1024),
-        });
-        return resolvedValue;
-      });
+      store.update(() => write(resolvedValue));
     },
-    [key, options],
+    [store, storage, key, storageOptions],
   );
 
   /**
@@ -89,32 +164,31 @@ export function useStorage<T>(
    */
   const updateFields = useCallback(
     (updates: Partial<T>) => {
-      setValue((prev) => {
-        const updatedValue = { ...prev, ...updates };
-        storage.set(key, updatedValue, {
-          ...options,
-          compress:
-            options.compress ??
-            (updatedValue && JSON.stringify(updatedValue).length > 1024),
-        });
-        return updatedValue;
-      });
+      const updatedValue = { ...current(), ...updates };
+      store.update(() => write(updatedValue));
     },
-    [key, options],
+    [store, storage, key, storageOptions],
   );
 
   /**
    * Removes the stored data and resets to the initial value.
    */
   const remove = useCallback(() => {
-    storage.remove(key);
-    setValue(initialValue);
-  }, [key, initialValue]);
+    store.update(() => {
+      if (storageOptions.encrypt) {
+        storage.removeAsync(key);
+      } else {
+        storage.remove(key);
+      }
+      return null;
+    });
+  }, [store, storage, key, storageOptions.encrypt]);
 
   return {
     value,
     setValue: updateValue,
     updateFields,
     remove,
+    isHydrated,
   } as const;
 }
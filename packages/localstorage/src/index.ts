@@ -1,17 +1,91 @@
 export { LocalStorage } from "./lib/localstorage";
 export { JSONStorage } from "./lib/json-storage";
 export { LazyStorage } from "./lib/lazy-storage";
+export { IndexedDBStorage } from "./lib/indexeddb-storage";
+export { Outbox } from "./lib/outbox";
+export { createTypedStorage } from "./lib/typed-storage";
+export { computed } from "./lib/computed";
+export {
+  storageQuery,
+  revalidateQuery,
+  getQueryData,
+  isQueryStale,
+  isQueryFetching,
+} from "./lib/storage-query";
 export { TypedCompression } from "./utils/compression";
+export { StorageValidationError, OutboxConflictError } from "./core/errors";
+export { MemoryStorageBackend } from "./backends/memory-backend";
+export { WebStorageBackend } from "./backends/web-storage-backend";
 
 export { useStorage } from "./hooks/use-storage";
 export { useJSONStorage } from "./hooks/use-json-storage";
 export { useLazyStorage } from "./hooks/use-lazy-storage";
+export { useLazyWindow } from "./hooks/use-lazy-window";
+export { useOutbox } from "./hooks/use-outbox";
+export { useStorageQuery } from "./hooks/use-storage-query";
+export { createTypedHooks } from "./hooks/typed-hooks";
+export { useComputedStorage } from "./hooks/use-computed-storage";
+export { StorageProvider, useStorageContext } from "./hooks/storage-provider";
 
 export type {
   StorageOptions,
   StorageItem,
   StorageEventListener,
+  StorageChange,
+  StorageBatchListener,
+  StorageExpireListener,
+  SweeperOptions,
   IStorage,
+  IAsyncStorage,
+  StorageBackend,
+  StorageConfig,
+  StorageSyncOptions,
+  QuotaPolicy,
+  QuotaExceededInfo,
+  EvictionStrategy,
+  SetResult,
+  StorageMigration,
+  EncryptionKey,
+  EncryptionKeyProvider,
+  KeyPattern,
+  JSONSchema,
+  StandardSchemaV1,
+  StorageValidator,
+  ValidationIssue,
+  ValidationResult,
 } from "./core/types";
+export type { JSONReadResult, RegisteredSchema } from "./lib/json-storage";
 export type { LazyStorageOptions } from "./lib/lazy-storage";
-export type { CompressionOptions, JSONStorageOptions } from "./core/types";
+export type { LazyArray, LazyArrayMarker } from "./lib/lazy-array";
+export type {
+  OutboxEntry,
+  OutboxOptions,
+  OutboxSnapshot,
+  OutboxStatus,
+  OutboxConflictResolution,
+} from "./lib/outbox";
+export type { StorageQueryOptions } from "./lib/storage-query";
+export type {
+  TypedStorage,
+  StorageKey,
+  ObjectStorageKey,
+} from "./lib/typed-storage";
+export type { TypedHooks } from "./hooks/typed-hooks";
+export type { Computed, ComputedOptions, ComputedValues } from "./lib/computed";
+export type { StorageProviderProps } from "./hooks/storage-provider";
+export type {
+  IndexedDBStorageConfig,
+  IndexedDBStorageOptions,
+} from "./lib/indexeddb-storage";
+export type {
+  BinaryEncoding,
+  CompressionCodec,
+  CompressionOptions,
+  HistoryOptions,
+  JSONStorageOptions,
+  ImportSnapshotOptions,
+  StorageChunkLayout,
+  StorageInspection,
+  StorageSnapshot,
+  StorageSnapshotEntry,
+} from "./core/types";
@@ -0,0 +1,142 @@
+import { LocalStorage } from "./localstorage";
+
+export interface ComputedOptions<R> {
+  /**
+   * The storage the source keys are read from. Defaults to a synced `LocalStorage`
+   * with the default prefix.
+   */
+  storage?: LocalStorage;
+  /**
+   * Decides whether the derived value changed. Defaults to `Object.is`, comparing plain
+   * objects and arrays by their JSON instead.
+   */
+  equals?: (previous: R, next: R) => boolean;
+}
+
+/**
+ * The values `computed` passes for its keys: one per key, null for missing ones. Like
+ * `get<T>`, they are not checked, so the parameters of `fn` declare their types.
+ */
+export type ComputedValues<K extends readonly string[]> = {
+  [I in keyof K]: any;
+};
+
+/**
+ * A value derived from several stored keys.
+ */
+export interface Computed<R> {
+  /**
+   * Returns the derived value. It keeps its identity until the value changes.
+   */
+  get(): R;
+  /**
+   * Subscribes to changes of the derived value. While there are subscribers, the value is
+   * only computed again when one of the source keys changes.
+   *
+   * @param listener - Receives the new value.
+   * @returns A function to unsubscribe the listener.
+   */
+  subscribe(listener: (value: R) => void): () => void;
+}
+
+let defaultStorage: LocalStorage | null = null;
+
+const isPlain = (value: unknown): value is object =>
+  Array.isArray(value) ||
+  (value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype);
+
+const defaultEquals = (previous: unknown, next: unknown): boolean =>
+  Object.is(previous, next) ||
+  (isPlain(previous) &&
+    isPlain(next) &&
+    JSON.stringify(previous) === JSON.stringify(next));
+
+/**
+ * Derives a value from several stored keys, such as a cart total from the items and the
+ * currency. The function receives the values of the keys, read with `get`, in order, with
+ * null for missing keys. The result is memoized: subscribers are notified only when a
+ * source key changes and the derived value changes with it.
+ *
+ * @template K - The source keys.
+ * @template R - The type of the derived value.
+ * @param keys - The source keys.
+ * @param fn - Computes the derived value from the values of the keys. It may declare fewer parameters than there are keys.
+ * @param options - The storage to read from and how to compare derived values.
+ * @returns The derived value.
+ *
+ * @example
+ * ```typescript
+ * const total = computed(
+ *   ["cart:items", "prefs:currency"],
+ *   (items: CartItem[] | null, currency: string | null) =>
+ *     formatPrice(
+ *       (items ?? []).reduce((sum, item) => sum + item.price * item.quantity, 0),
+ *       currency ?? "USD",
+ *     ),
+ * );
+ *
+ * total.get(); // "$42.00"
+ * total.subscribe((value) => render(value));
+ * ```
+ */
+export function computed<K extends string[], R>(
+  keys: readonly [...K],
+  fn: (...values: ComputedValues<K>) => R,
+  options: ComputedOptions<R> = {},
+): Computed<R> {
+  const storage =
+    options.storage ??
+    (defaultStorage ??= new LocalStorage(undefined, { sync: true }));
+  const equals = options.equals ?? defaultEquals;
+  const listeners = new Set<(value: R) => void>();
+  let unsubscribes: (() => void)[] = [];
+  let current: { value: R } | null = null;
+
+  /**
+   * Computes the value again, keeping the previous one if it did not change.
+   * @returns Whether the value changed.
+   */
+  const refresh = (): boolean => {
+    const values = keys.map((key) => storage.get(key)) as ComputedValues<K>;
+    const next = fn(...values);
+    if (current && equals(current.value, next)) return false;
+
+    current = { value: next };
+    return true;
+  };
+
+  const onChange = () => {
+    if (!refresh()) return;
+    const { value } = current!;
+    listeners.forEach((listener) => {
+      try {
+        listener(value);
+      } catch (error) {
+        console.error("[computed] Error notifying listener:", error);
+      }
+    });
+  };
+
+  return {
+    get() {
+      if (!listeners.size || !current) refresh();
+      return current!.value;
+    },
+
+    subscribe(listener) {
+      if (!listeners.size) {
+        unsubscribes = keys.map((key) => storage.subscribe(key, onChange));
+        refresh();
+      }
+      listeners.add(listener);
+
+      return () => {
+        if (!listeners.delete(listener) || listeners.size) return;
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+        unsubscribes = [];
+      };
+    },
+  };
+}
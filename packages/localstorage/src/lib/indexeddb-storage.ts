@@ -0,0 +1,394 @@
+import {
+  CompressionOptions,
+  IAsyncStorage,
+  SetResult,
+  StorageEventListener,
+  StorageItem,
+  StorageOptions,
+} from "../core/types";
+import { TypedCompression } from "../utils/compression";
+
+/**
+ * Configuration for the `IndexedDBStorage` class.
+ */
+export interface IndexedDBStorageConfig {
+  /**
+   * Name of the IndexedDB database. Defaults to '@brushy/storage'.
+   */
+  databaseName?: string;
+  /**
+   * Name of the object store holding the items. Defaults to 'items'.
+   */
+  storeName?: string;
+  /**
+   * The IndexedDB factory to use. Defaults to `globalThis.indexedDB`.
+   */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Options for storing a value in `IndexedDBStorage`.
+ * @extends StorageOptions
+ */
+export interface IndexedDBStorageOptions extends StorageOptions {
+  /**
+   * Options forwarded to `TypedCompression` when `compress` is enabled.
+   */
+  compression?: CompressionOptions;
+}
+
+/**
+ * An asynchronous storage backed by IndexedDB, for datasets that do not fit in the
+ * localStorage quota. It supports TTL, compression, key prefixes and event listeners.
+ *
+ * @example
+ * ```typescript
+ * const storage = new IndexedDBStorage('@myapp:');
+ * await storage.setAsync('dataset', rows, { ttl: 86400000, compress: true });
+ * const rows = await storage.getAsync('dataset');
+ * ```
+ */
+export class IndexedDBStorage implements IAsyncStorage {
+  private listeners: Map<string, Set<StorageEventListener>> = new Map();
+  private database: Promise<IDBDatabase> | null = null;
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory | undefined;
+
+  /**
+   * Creates a new instance of IndexedDBStorage with an optional prefix for keys.
+   *
+   * @param prefix - The prefix to use for all stored keys. Defaults to '@brushy/idb:'.
+   * @param config - Database configuration.
+   *
+   * @example
+   * ```typescript
+   * const storage = new IndexedDBStorage('@myapp:', { databaseName: 'my-app' });
+   * ```
+   */
+  constructor(
+    private prefix: string = "@brushy/idb:",
+    config: IndexedDBStorageConfig = {},
+  ) {
+    this.databaseName = config.databaseName ?? "@brushy/storage";
+    this.storeName = config.storeName ?? "items";
+    this.factory = config.indexedDB ?? globalThis.indexedDB;
+  }
+
+  /**
+   * Stores a value in IndexedDB with optional TTL and compression.
+   *
+   * @template T - The type of the value to be stored.
+   * @param key - The key under which to store the value.
+   * @param value - The value to store.
+   * @param options - Optional settings for TTL and compression.
+   * @returns The result of the write. IndexedDB never evicts keys, so `evicted` is empty.
+   * @throws {Error} If the value cannot be written, for example when the quota is exceeded.
+   *
+   * @example
+   * ```typescript
+   * await storage.setAsync('dataset', rows, { ttl: 3600000, compress: true });
+   * ```
+   */
+  async setAsync<T>(
+    key: string,
+    value: T,
+    options: IndexedDBStorageOptions = {},
+  ): Promise<SetResult> {
+    try {
+      const oldValue = await this.getAsync(key);
+      const item: StorageItem<T | string> = {
+        value: options.compress
+          ? await TypedCompression.compressDataAsync(value, options.compression)
+          : value,
+        timestamp: Date.now(),
+        ttl: options.ttl,
+        compressed: options.compress,
+      };
+
+      await this.run("readwrite", (store) =>
+        store.put(item, this.prefix + key),
+      );
+      this.notifyListeners(key, value, oldValue);
+      return { success: true, evicted: [] };
+    } catch (error) {
+      console.error("[IndexedDBStorage] Error saving item:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a value from IndexedDB, checking for expiration and decompressing if necessary.
+   *
+   * @template T - The type of the value to be retrieved.
+   * @param key - The key from which to retrieve the value.
+   * @returns The stored value if it exists and hasn't expired, otherwise null.
+   *
+   * @example
+   * ```typescript
+   * const rows = await storage.getAsync('dataset');
+   * ```
+   */
+  async getAsync<T>(key: string): Promise<T | null> {
+    try {
+      const item = await this.readItem<T>(key);
+      if (!item) return null;
+
+      if (this.isExpired(item)) {
+        await this.removeAsync(key);
+        return null;
+      }
+
+      return await this.decodeValue(item);
+    } catch (error) {
+      console.error("[IndexedDBStorage] Error retrieving item:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Removes an item from IndexedDB.
+   *
+   * @param key - The key of the item to remove.
+   * @throws {Error} If the item cannot be removed.
+   *
+   * @example
+   * ```typescript
+   * await storage.removeAsync('dataset');
+   * ```
+   */
+  async removeAsync(key: string): Promise<void> {
+    try {
+      const item = await this.readItem(key);
+      const oldValue = item ? await this.decodeValue(item) : null;
+
+      await this.run("readwrite", (store) => store.delete(this.prefix + key));
+      this.notifyListeners(key, null, oldValue);
+    } catch (error) {
+      console.error("[IndexedDBStorage] Error removing item:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Clears all items from IndexedDB that match the current prefix.
+   *
+   * @throws {Error} If the items cannot be listed or removed. Items removed before the failure stay removed.
+   *
+   * @example
+   * ```typescript
+   * await storage.clearAsync();
+   * ```
+   */
+  async clearAsync(): Promise<void> {
+    try {
+      const keys = await this.run("readonly", (store) => store.getAllKeys());
+
+      for (const storageKey of keys.map(String)) {
+        if (storageKey.startsWith(this.prefix)) {
+          await this.removeAsync(storageKey.slice(this.prefix.length));
+        }
+      }
+    } catch (error) {
+      console.error("[IndexedDBStorage] Error clearing items:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks if an item exists in IndexedDB and hasn't expired.
+   *
+   * @param key - The key to check.
+   * @returns True if the item exists and hasn't expired, false otherwise.
+   */
+  async hasAsync(key: string): Promise<boolean> {
+    return (await this.getAsync(key)) !== null;
+  }
+
+  /**
+   * Calculates the remaining time in milliseconds before an item expires.
+   *
+   * @param key - The key of the item to check.
+   * @returns The remaining time in milliseconds, or null if the item does not exist or has no TTL.
+   */
+  async getTTLAsync(key: string): Promise<number | null> {
+    try {
+      const item = await this.readItem(key);
+      if (!item?.ttl) return null;
+
+      const elapsed = Date.now() - item.timestamp;
+      return Math.max(0, item.ttl - elapsed);
+    } catch (error) {
+      console.error("[IndexedDBStorage] Error getting TTL:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Subscribes to changes for a specific key.
+   *
+   * @param key - The key to listen for changes.
+   * @param listener - The function to call when the key changes.
+   * @returns A function to unsubscribe the listener.
+   */
+  subscribe(key: string, listener: StorageEventListener): () => void {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+
+    this.listeners.get(key)!.add(listener);
+
+    return () => {
+      const keyListeners = this.listeners.get(key);
+      if (keyListeners) {
+        keyListeners.delete(listener);
+        if (keyListeners.size === 0) {
+          this.listeners.delete(key);
+        }
+      }
+    };
+  }
+
+  /**
+   * Closes the underlying database connection.
+   */
+  async close(): Promise<void> {
+    if (!this.database) return;
+    const database = await this.database;
+    database.close();
+    this.database = null;
+  }
+
+  /**
+   * Notifies all listeners of a key about changes.
+   *
+   * @private
+   */
+  private notifyListeners(key: string, newValue: any, oldValue: any): void {
+    const keyListeners = this.listeners.get(key);
+    if (keyListeners) {
+      keyListeners.forEach((listener) => {
+        try {
+          listener(key, newValue, oldValue);
+        } catch (error) {
+          console.error("[IndexedDBStorage] Error notifying listener:", error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Reads the raw stored item for a key.
+   *
+   * @private
+   */
+  private async readItem<T>(
+    key: string,
+  ): Promise<StorageItem<T | string> | undefined> {
+    return this.run("readonly", (store) => store.get(this.prefix + key));
+  }
+
+  /**
+   * Returns the value of a stored item, decompressing it if needed.
+   *
+   * @private
+   */
+  private async decodeValue<T>(item: StorageItem<T | string>): Promise<T> {
+    if (item.compressed && typeof item.value === "string") {
+      return TypedCompression.decompressDataAsync(item.value);
+    }
+    return item.value as T;
+  }
+
+  /**
+   * Checks whether a stored item has outlived its TTL.
+   *
+   * @private
+   */
+  private isExpired(item: StorageItem<unknown>): boolean {
+    return !!item.ttl && Date.now() - item.timestamp > item.ttl;
+  }
+
+  /**
+   * Opens the database once and reuses the connection afterwards.
+   *
+   * @private
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.factory) {
+      return Promise.reject(
+        new Error(
+          "[IndexedDBStorage] This library requires an environment with IndexedDB support.",
+        ),
+      );
+    }
+
+    if (!this.database) {
+      this.database = this.connect(this.factory).catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Connects to the current version of the database. When the object store is missing,
+   * as with a custom `storeName` on a database created before, the database is opened
+   * again at the next version to create it.
+   *
+   * @private
+   */
+  private async connect(
+    factory: IDBFactory,
+    version?: number,
+  ): Promise<IDBDatabase> {
+    const database = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request =
+        version === undefined
+          ? factory.open(this.databaseName)
+          : factory.open(this.databaseName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    if (!database.objectStoreNames.contains(this.storeName)) {
+      database.close();
+      return this.connect(factory, database.version + 1);
+    }
+
+    // Let other connections upgrade the database to add their stores
+    database.onversionchange = () => {
+      database.close();
+      this.database = null;
+    };
+    return database;
+  }
+
+  /**
+   * Runs a single request against the object store and resolves once its transaction completes.
+   *
+   * @private
+   */
+  private async run<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>,
+  ): Promise<R> {
+    const database = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? request.error);
+    });
+  }
+}
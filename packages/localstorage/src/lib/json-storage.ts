@@ -1,5 +1,53 @@
 import { LocalStorage } from "./localstorage";
-import type { JSONStorageOptions } from "../core/types";
+import { StorageValidationError } from "../core/errors";
+import { matchesPattern } from "../utils/pattern";
+import { validateValue } from "../utils/validation";
+import type {
+  HistoryOptions,
+  JSONStorageOptions,
+  KeyPattern,
+  SetResult,
+  StorageConfig,
+  StorageMigration,
+  StorageSnapshotEntry,
+  StorageValidator,
+  ValidationIssue,
+  ValidationResult,
+} from "../core/types";
+
+/**
+ * Result of `JSONStorage.safeGetJSON`: the validated value, or the validation error.
+ */
+export type JSONReadResult<T> =
+  | { success: true; data: T | null }
+  | { success: false; error: StorageValidationError };
+
+/**
+ * Returned by `JSONStorage.registerSchema`: a function that unregisters the validator,
+ * and reads and writes the keys it covers with the type the validator produces.
+ */
+export interface RegisteredSchema<T> {
+  (): void;
+  getJSON(key: string, options?: Pick<JSONStorageOptions, "reviver">): T | null;
+  safeGetJSON(
+    key: string,
+    options?: Pick<JSONStorageOptions, "reviver">,
+  ): JSONReadResult<T>;
+  setJSON(key: string, value: T, options?: JSONStorageOptions): SetResult;
+}
+
+/**
+ * Suffix of the key a persisted history is stored under.
+ */
+const HISTORY_SUFFIX = ":__history__";
+
+/**
+ * The undo history of a key: the serialized values it had, null where it was missing.
+ */
+interface HistoryState {
+  past: (string | null)[];
+  future: (string | null)[];
+}
 
 /**
  * The `JSONStorage` class extends `LocalStorage` to provide JSON-specific operations.
@@ -14,12 +62,269 @@ import type { JSONStorageOptions } from "../core/types";
  * ```
  */
 export class JSONStorage extends LocalStorage {
+  private validators: {
+    pattern: KeyPattern;
+    validator: StorageValidator<any>;
+  }[] = [];
+  private historyPolicies: {
+    pattern: KeyPattern;
+    options: HistoryOptions;
+  }[] = [];
+  private histories: Map<string, HistoryState> = new Map();
+
   /**
    * Creates a new instance of `JSONStorage` with an optional prefix.
    * @param prefix - The prefix to use for all stored keys. Defaults to '@brushy/json:'.
+   * @param config - Instance configuration, such as the storage backend.
+   */
+  constructor(prefix = "@brushy/json:", config: StorageConfig = {}) {
+    super(prefix, config);
+  }
+
+  /**
+   * Registers a validator for a key or key pattern. Values written with `setJSON`,
+   * `updateJSON` and `mergeArrays` are rejected when invalid, and `getJSON` returns null
+   * for stored values that no longer match. When several patterns match a key, the most
+   * recently registered validator is used.
+   *
+   * The returned function unregisters the validator. It also reads and writes the keys
+   * the pattern covers with the type the validator produces: the output of a Standard
+   * Schema, or the type given for a JSON Schema.
+   *
+   * @param pattern - The key, a glob such as `user:*`, or a regular expression.
+   * @param validator - A JSON Schema or a Standard Schema validator such as zod or valibot.
+   * @returns A function to unregister the validator, with typed `getJSON`, `safeGetJSON` and `setJSON`.
+   *
+   * @example
+   * ```typescript
+   * const jsonStorage = new JSONStorage();
+   * const users = jsonStorage.registerSchema<{ name: string; age?: number }>('user:*', {
+   *   type: 'object',
+   *   properties: { name: { type: 'string' }, age: { type: 'integer', minimum: 0 } },
+   *   required: ['name'],
+   * });
+   * jsonStorage.setJSON('user:1', { name: 42 }); // throws StorageValidationError
+   * users.getJSON('user:1')?.name; // string | undefined
+   * ```
+   */
+  registerSchema<T>(
+    pattern: KeyPattern,
+    validator: StorageValidator<T>,
+  ): RegisteredSchema<T> {
+    const entry = { pattern, validator };
+    this.validators.push(entry);
+
+    /**
+     * Rejects keys the pattern does not cover, whose values are not validated as `T`.
+     */
+    const covered = (key: string) => {
+      if (!matchesPattern(key, pattern)) {
+        throw new Error(
+          `[JSONStorage] "${key}" is not covered by the registered schema.`,
+        );
+      }
+      return key;
+    };
+
+    return Object.assign(
+      () => {
+        this.validators = this.validators.filter((other) => other !== entry);
+      },
+      {
+        getJSON: (
+          key: string,
+          options?: Pick<JSONStorageOptions, "reviver">,
+        ): T | null => this.getJSON<any>(covered(key), options),
+        safeGetJSON: (
+          key: string,
+          options?: Pick<JSONStorageOptions, "reviver">,
+        ): JSONReadResult<T> => this.safeGetJSON<any>(covered(key), options),
+        setJSON: (key: string, value: T, options?: JSONStorageOptions) =>
+          this.setJSON(covered(key), value as any, options),
+      },
+    );
+  }
+
+  /**
+   * Keeps an undo history for a key or key pattern. Every value written with `setJSON`,
+   * `updateJSON` and `mergeArrays`, and every `remove`, records the previous value, which
+   * `undo` restores. A new write discards the steps that could be redone. When several
+   * patterns match a key, the most recently enabled options are used.
+   *
+   * @param pattern - The key, a glob such as `form:*`, or a regular expression.
+   * @param options - How many steps to keep, and whether to persist them.
+   * @returns A function to stop recording the history.
+   *
+   * @example
+   * ```typescript
+   * const jsonStorage = new JSONStorage();
+   * jsonStorage.enableHistory('form:*', { limit: 20 });
+   * jsonStorage.setJSON('form:signup', { name: 'John' });
+   * jsonStorage.updateJSON('form:signup', { name: 'Jane' });
+   * jsonStorage.undo('form:signup'); // true
+   * jsonStorage.getJSON('form:signup'); // { name: 'John' }
+   * ```
+   */
+  enableHistory(pattern: KeyPattern, options: HistoryOptions = {}): () => void {
+    const entry = { pattern, options };
+    this.historyPolicies.push(entry);
+
+    return () => {
+      this.historyPolicies = this.historyPolicies.filter(
+        (other) => other !== entry,
+      );
+    };
+  }
+
+  /**
+   * Restores the value a key had before its last recorded change.
+   * @param key - The key to restore.
+   * @returns Whether there was a change to undo.
+   *
+   * @example
+   * ```typescript
+   * if (jsonStorage.canUndo('form:signup')) jsonStorage.undo('form:signup');
+   * ```
+   */
+  undo(key: string): boolean {
+    return this.travel(key, "past", "future");
+  }
+
+  /**
+   * Applies again the last change of a key reverted by `undo`.
+   * @param key - The key to restore.
+   * @returns Whether there was a change to redo.
+   */
+  redo(key: string): boolean {
+    return this.travel(key, "future", "past");
+  }
+
+  /**
+   * Checks whether a key has changes that can be undone.
+   */
+  canUndo(key: string): boolean {
+    return !!this.getHistory(key)?.past.length;
+  }
+
+  /**
+   * Checks whether a key has undone changes that can be redone.
+   */
+  canRedo(key: string): boolean {
+    return !!this.getHistory(key)?.future.length;
+  }
+
+  /**
+   * Forgets the undo history of a key, keeping its value.
+   */
+  clearHistory(key: string): void {
+    this.histories.delete(key);
+    super.remove(key + HISTORY_SUFFIX);
+  }
+
+  /**
+   * Removes a value, recording it in the history of the key if enabled.
+   */
+  remove(key: string): void {
+    const previous = this.getHistory(key) ? super.get<string>(key) : null;
+    super.remove(key);
+    if (previous !== null) this.record(key, previous);
+  }
+
+  /**
+   * Treats persisted histories as internal, so they are not listed, cleared or evicted
+   * like the values they belong to.
+   * @protected
+   */
+  protected isInternalKey(key: string): boolean {
+    return key.endsWith(HISTORY_SUFFIX) || super.isInternalKey(key);
+  }
+
+  /**
+   * Exports JSON values parsed, so snapshots hold them as objects rather than strings.
+   * @protected
+   */
+  protected decodeSnapshotValue(
+    entry: StorageSnapshotEntry,
+  ): StorageSnapshotEntry {
+    if (typeof entry.value !== "string") return entry;
+    try {
+      return {
+        ...entry,
+        value: this.deserialize(entry.value),
+        encoding: "json",
+      };
+    } catch {
+      return entry;
+    }
+  }
+
+  /**
+   * Returns the history options of a key, or null if its history is not recorded.
    */
-  constructor(prefix = "@brushy/json:") {
-    super(prefix);
+  private getHistoryOptions(key: string): HistoryOptions | null {
+    for (let i = this.historyPolicies.length - 1; i >= 0; i--) {
+      const { pattern, options } = this.historyPolicies[i];
+      if (matchesPattern(key, pattern)) return options;
+    }
+    return null;
+  }
+
+  /**
+   * Returns the history of a key, or null if it is not recorded.
+   */
+  private getHistory(key: string): HistoryState | null {
+    const options = this.getHistoryOptions(key);
+    if (!options) return null;
+
+    const stored = options.persist
+      ? super.get<HistoryState>(key + HISTORY_SUFFIX)
+      : this.histories.get(key);
+    return stored ?? { past: [], future: [] };
+  }
+
+  private saveHistory(key: string, history: HistoryState): void {
+    if (this.getHistoryOptions(key)?.persist) {
+      super.set(key + HISTORY_SUFFIX, history);
+    } else {
+      this.histories.set(key, history);
+    }
+  }
+
+  /**
+   * Records the value a key had before a change, discarding the steps that could be redone.
+   */
+  private record(key: string, previous: string | null): void {
+    const history = this.getHistory(key);
+    if (!history) return;
+
+    const limit = this.getHistoryOptions(key)!.limit ?? 50;
+    history.past.push(previous);
+    history.past.splice(0, Math.max(history.past.length - limit, 0));
+    history.future = [];
+    this.saveHistory(key, history);
+  }
+
+  /**
+   * Moves a key one step through its history, writing the restored value.
+   */
+  private travel(
+    key: string,
+    from: keyof HistoryState,
+    to: keyof HistoryState,
+  ): boolean {
+    const history = this.getHistory(key);
+    if (!history?.[from].length) return false;
+
+    const restored = history[from].pop()!;
+    history[to].push(super.get<string>(key));
+
+    if (restored === null) {
+      super.remove(key);
+    } else {
+      super.set(key, restored, this.getItemOptions(key));
+    }
+    this.saveHistory(key, history);
+    return true;
   }
 
   /**
@@ -27,6 +332,8 @@ export class JSONStorage extends LocalStorage {
    * @param key - The key to store the value under.
    * @param value - The JSON value to be stored.
    * @param options - Options for JSON serialization and storage.
+   * @returns Whether the write succeeded and which keys were evicted to make room for it.
+   * @throws StorageValidationError if the value does not match the validator registered for the key.
    * @throws Error if JSON serialization fails.
    *
    * @example
@@ -39,26 +346,19 @@ export class JSONStorage extends LocalStorage {
     key: string,
     value: T,
     options: JSONStorageOptions = {},
-  ): void {
-    try {
-      const { pretty, replacer, ...storageOptions } = options;
-      const jsonString = JSON.stringify(
-        value,
-        replacer,
-        pretty ? 2 : undefined,
-      );
-      super.set(key, jsonString, storageOptions);
-    } catch (error) {
-      console.error("[JSONStorage] Error serializing JSON:", error);
-      throw new Error("Failed to serialize JSON data");
+  ): SetResult {
+    const result = this.validate<T>(key, value);
+    if (!result.success) {
+      throw new StorageValidationError(key, result.issues);
     }
+    return this.writeJSON(key, result.data, options);
   }
 
   /**
    * Retrieves a JSON value from localStorage.
    * @param key - The key to retrieve the value from.
    * @param options - Options for JSON parsing.
-   * @returns The parsed JSON value or null if the key does not exist or parsing fails.
+   * @returns The parsed JSON value or null if the key does not exist, parsing fails or the value is invalid.
    *
    * @example
    * ```typescript
@@ -69,15 +369,140 @@ export class JSONStorage extends LocalStorage {
    */
   getJSON<T extends object>(
     key: string,
-    { reviver }: Pick<JSONStorageOptions, "reviver"> = {},
+    options: Pick<JSONStorageOptions, "reviver"> = {},
   ): T | null {
+    const result = this.safeGetJSON<T>(key, options);
+    if (!result.success) {
+      console.error("[JSONStorage] Error reading JSON:", result.error);
+      return null;
+    }
+    return result.data;
+  }
+
+  /**
+   * Retrieves a JSON value from localStorage and reports why it could not be read
+   * instead of returning null.
+   * @param key - The key to retrieve the value from.
+   * @param options - Options for JSON parsing.
+   * @returns The validated value (null if the key does not exist), or the validation error.
+   *
+   * @example
+   * ```typescript
+   * const result = jsonStorage.safeGetJSON<User>('user:1');
+   * if (result.success) {
+   *   console.log(result.data);
+   * } else {
+   *   console.log(result.error.issues);
+   * }
+   * ```
+   */
+  safeGetJSON<T extends object>(
+    key: string,
+    { reviver }: Pick<JSONStorageOptions, "reviver"> = {},
+  ): JSONReadResult<T> {
+    let value: unknown;
     try {
-      const value = super.get<string>(key);
-      return value ? (JSON.parse(value, reviver) as T) : null;
+      const stored = super.get<string>(key);
+      value = stored ? this.deserialize(stored, reviver) : null;
     } catch (error) {
-      console.error("[JSONStorage] Error parsing JSON:", error);
-      return null;
+      return {
+        success: false,
+        error: new StorageValidationError(key, [
+          {
+            path: [],
+            message: `Stored value is not valid JSON: ${(error as Error).message}`,
+          },
+        ]),
+      };
+    }
+
+    if (value === null) return { success: true, data: null };
+
+    const result = this.validate<T>(key, value);
+    return result.success
+      ? { success: true, data: result.data }
+      : {
+          success: false,
+          error: new StorageValidationError(key, result.issues),
+        };
+  }
+
+  /**
+   * Validates the value stored under a key against its registered validator.
+   * @param key - The key to validate.
+   * @returns The issues found, or an empty array if the value is valid, missing or has no validator.
+   *
+   * @example
+   * ```typescript
+   * const issues = jsonStorage.validateJSON('user:1');
+   * // [{ path: ['age'], message: 'Expected a value >= 0' }]
+   * ```
+   */
+  validateJSON(key: string): ValidationIssue[] {
+    const result = this.safeGetJSON(key);
+    return result.success ? [] : result.error.issues;
+  }
+
+  /**
+   * Validates a value with the validator registered for the key, if any.
+   * @protected
+   */
+  protected validate<T>(key: string, value: unknown): ValidationResult<T> {
+    for (let i = this.validators.length - 1; i >= 0; i--) {
+      const { pattern, validator } = this.validators[i];
+      if (matchesPattern(key, pattern)) {
+        return validateValue<T>(validator, value);
+      }
     }
+    return { success: true, data: value as T };
+  }
+
+  /**
+   * Migrations receive the parsed JSON value rather than its serialized string.
+   * @protected
+   */
+  protected applyMigrations(
+    key: string,
+    value: unknown,
+    migrations: StorageMigration[],
+  ): unknown {
+    if (typeof value !== "string") {
+      return super.applyMigrations(key, value, migrations);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = this.deserialize(value);
+    } catch {
+      return super.applyMigrations(key, value, migrations);
+    }
+    return this.serialize(super.applyMigrations(key, parsed, migrations));
+  }
+
+  /**
+   * Serializes and stores a value without validating it.
+   * @protected
+   */
+  protected writeJSON(
+    key: string,
+    value: unknown,
+    options: JSONStorageOptions = {},
+  ): SetResult {
+    const { pretty, replacer, ...storageOptions } = options;
+    let jsonString: string;
+    try {
+      jsonString = this.serialize(value, replacer, pretty ? 2 : undefined);
+    } catch (error) {
+      console.error("[JSONStorage] Error serializing JSON:", error);
+      throw new Error("Failed to serialize JSON data");
+    }
+
+    const previous = this.getHistory(key) ? super.get<string>(key) : undefined;
+    const result = super.set(key, jsonString, storageOptions);
+    if (result.success && previous !== undefined && previous !== jsonString) {
+      this.record(key, previous);
+    }
+    return result;
   }
 
   /**
@@ -86,6 +511,7 @@ export class JSONStorage extends LocalStorage {
    * @param updates - The partial updates to apply to the existing JSON value.
    * @param options - Options for JSON parsing and storage.
    * @returns The updated JSON value or null if the key does not exist or updating fails.
+   * @throws StorageValidationError if the updated value does not match the validator registered for the key.
    *
    * @example
    * ```typescript
@@ -108,6 +534,9 @@ export class JSONStorage extends LocalStorage {
       this.setJSON(key, updatedValue, options);
       return updatedValue;
     } catch (error) {
+      if (error instanceof StorageValidationError || this.inTransaction) {
+        throw error;
+      }
       console.error("[JSONStorage] Error updating JSON:", error);
       return null;
     }
@@ -119,6 +548,7 @@ export class JSONStorage extends LocalStorage {
    * @param newItems - The new items to merge into the existing array.
    * @param options - Options for JSON parsing, storage, and merging.
    * @returns The merged array or an empty array if merging fails.
+   * @throws StorageValidationError if the merged array does not match the validator registered for the key.
    *
    * @example
    * ```typescript
@@ -154,6 +584,9 @@ export class JSONStorage extends LocalStorage {
       this.setJSON(key, mergedArray, options);
       return mergedArray;
     } catch (error) {
+      if (error instanceof StorageValidationError || this.inTransaction) {
+        throw error;
+      }
       console.error("[JSONStorage] Error merging arrays:", error);
       return [];
     }
@@ -175,7 +608,7 @@ export class JSONStorage extends LocalStorage {
     try {
       const value = super.get<string>(key);
       if (!value) return false;
-      JSON.parse(value);
+      this.deserialize(value);
       return true;
     } catch {
       return false;
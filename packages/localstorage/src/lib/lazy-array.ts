@@ -0,0 +1,110 @@
+/**
+ * The marker `LazyStorage` stores in place of a lazy array field.
+ */
+export interface LazyArrayMarker {
+  __lazy: true;
+  type: "array";
+  /**
+   * Keys of the chunks, in order.
+   */
+  chunks: string[];
+  /**
+   * Number of items across all chunks.
+   */
+  total: number;
+  /**
+   * Number of items per chunk, except the last one. Missing in values written by older versions.
+   */
+  chunkSize?: number;
+  /**
+   * Incremented when an item is updated in place, so that the parent changes with it.
+   */
+  revision?: number;
+}
+
+/**
+ * A lazy array field. It behaves like a regular array, but each item is only
+ * loaded, together with the rest of its chunk, when it is first accessed.
+ */
+export type LazyArray<T> = T[] & AsyncIterable<T>;
+
+const isIndex = (prop: string | symbol, total: number): prop is string =>
+  typeof prop === "string" && /^(0|[1-9]\d*)$/.test(prop) && +prop < total;
+
+/**
+ * Creates a paged view of a lazy array field. `length` comes from the stored total,
+ * indexed access and `slice` load only the chunks they need, and the async iterator
+ * loads one chunk at a time.
+ *
+ * @param marker - The stored marker of the field.
+ * @param loadChunk - Reads the items of a chunk key.
+ * @returns An array proxy backed by the chunks.
+ *
+ * @example
+ * ```typescript
+ * const posts = createLazyArray(marker, (chunkKey) => storage.getJSON(chunkKey) ?? []);
+ * posts.length; // 1000, without loading any chunk
+ * posts[5]; // loads the first chunk only
+ * ```
+ */
+export function createLazyArray<T>(
+  marker: LazyArrayMarker,
+  loadChunk: (chunkKey: string) => T[],
+): LazyArray<T> {
+  const { chunks, total } = marker;
+  const items: T[] = new Array(total);
+  const loaded = new Set<number>();
+  let chunkSize = marker.chunkSize ?? (chunks.length > 1 ? undefined : total);
+
+  const fill = (chunkIndex: number, chunk: T[]) => {
+    const start = chunkIndex * (chunkSize ?? chunk.length);
+    chunk.forEach((item, offset) => {
+      if (start + offset < total) items[start + offset] = item;
+    });
+    loaded.add(chunkIndex);
+  };
+
+  const ensureLoaded = (index: number) => {
+    if (chunkSize === undefined) {
+      const first = loadChunk(chunks[0]);
+      chunkSize = first.length || 1;
+      fill(0, first);
+    }
+
+    const chunkIndex = Math.floor(index / Math.max(chunkSize, 1));
+    if (!loaded.has(chunkIndex) && chunkIndex < chunks.length) {
+      fill(chunkIndex, loadChunk(chunks[chunkIndex]));
+    }
+  };
+
+  return new Proxy(items, {
+    get: (target, prop, receiver) => {
+      if (isIndex(prop, total)) {
+        ensureLoaded(+prop);
+        return target[+prop];
+      }
+      if (prop === Symbol.asyncIterator) {
+        return async function* () {
+          for (let index = 0; index < total; index++) {
+            ensureLoaded(index);
+            yield target[index];
+          }
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+    set: (target, prop, value, receiver) => {
+      if (isIndex(prop, total)) ensureLoaded(+prop);
+      return Reflect.set(target, prop, value, receiver);
+    },
+    has: (target, prop) => isIndex(prop, total) || Reflect.has(target, prop),
+    ownKeys: (target) => [
+      ...Array.from({ length: total }, (_, index) => String(index)),
+      ...Reflect.ownKeys(target).filter((prop) => !isIndex(prop, total)),
+    ],
+    getOwnPropertyDescriptor: (target, prop) => {
+      if (isIndex(prop, total)) ensureLoaded(+prop);
+      return Reflect.getOwnPropertyDescriptor(target, prop);
+    },
+  }) as LazyArray<T>;
+}
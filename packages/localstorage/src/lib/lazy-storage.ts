@@ -1,6 +1,20 @@
-import { CompressionOptions, JSONStorageOptions } from "../core/types";
+import {
+  CompressionOptions,
+  JSONStorageOptions,
+  KeyPattern,
+  SetResult,
+  StorageChunkLayout,
+  StorageConfig,
+  StorageInspection,
+  StorageMigration,
+  StorageSnapshotEntry,
+  ValidationResult,
+} from "../core/types";
+import { StorageValidationError } from "../core/errors";
 import { TypedCompression } from "../utils/compression";
 import { JSONStorage } from "./json-storage";
+import { createLazyArray, LazyArray, LazyArrayMarker } from "./lazy-array";
+import { expandPath, getPath, parsePath, Path, setPath } from "../utils/path";
 
 /**
  * Options for configuring the LazyStorage class.
@@ -16,7 +30,8 @@ export interface LazyStorageOptions extends JSONStorageOptions {
    */
   chunkSize?: number;
   /**
-   * Fields to be loaded lazily.
+   * Fields to be loaded lazily. Nested fields are given as dotted paths, where `*`
+   * matches every key of an object or item of an array, e.g. `"projects.*.files"`.
    */
   lazyFields?: string[];
   /**
@@ -58,13 +73,19 @@ export class LazyStorage extends JSONStorage {
    * Cache for storing lazy-loaded fields.
    */
   private cache = new Map<string, any>();
+  /**
+   * Proxies of the nested objects holding lazy fields, so repeated reads return the same proxy.
+   * Objects without lazy fields map to themselves.
+   */
+  private proxies = new WeakMap<object, object>();
 
   /**
    * Creates a new instance of `LazyStorage` with the specified prefix.
    * @param prefix - The prefix to use for all stored keys. Defaults to '@brushy/lazy:'.
+   * @param config - Instance configuration, such as the storage backend.
    */
-  constructor(prefix = "@brushy/lazy:") {
-    super(prefix);
+  constructor(prefix = "@brushy/lazy:", config: StorageConfig = {}) {
+    super(prefix, config);
   }
 
   /**
@@ -72,6 +93,10 @@ export class LazyStorage extends JSONStorage {
    * @param key - The key to store the value under.
    * @param value - The object to be stored.
    * @param options - Storage options.
+   * The chunks and the parent object are written in a single transaction, so a failed
+   * write never leaves the object with missing chunks.
+   * @returns Whether the write of the parent object succeeded and which keys were evicted.
+   * @throws StorageValidationError if the value does not match the validator registered for the key.
    * @example
    * ```typescript
    * const userData = {
@@ -90,23 +115,41 @@ export class LazyStorage extends JSONStorage {
     key: string,
     value: T,
     options: LazyStorageOptions = {},
-  ): void {
+  ): SetResult {
     const {
       lazyFields = [],
       chunkSize = LazyStorage.DEFAULT_CHUNK_SIZE,
       compression,
       ...jsonOptions
     } = options;
-    const processedValue = this.processLazyFields(
-      key,
-      value,
-      lazyFields,
-      chunkSize,
-    );
-    const compressedValue = compression
-      ? TypedCompression.compressData(processedValue, compression)
-      : JSON.stringify(processedValue);
-    super.set(key, compressedValue, jsonOptions);
+    const result = super.validate<T>(key, value);
+    if (!result.success) {
+      throw new StorageValidationError(key, result.issues);
+    }
+
+    try {
+      return this.writeObject(key, () => {
+        const previous = this.readParent(key);
+        const processedValue = this.processLazyFields(
+          key,
+          result.data,
+          lazyFields,
+          chunkSize,
+        );
+        const compressedValue = compression
+          ? TypedCompression.compressData(processedValue, compression)
+          : JSON.stringify(processedValue);
+        const written = super.set(key, compressedValue, jsonOptions);
+
+        if (previous) this.removeOrphans(previous, processedValue);
+        this.clearCacheOf(key);
+        return written;
+      });
+    } catch (error) {
+      if (this.inTransaction) throw error;
+      console.error("[LazyStorage] Error saving lazy value:", error);
+      return { success: false, evicted: [] };
+    }
   }
 
   /**
@@ -133,9 +176,7 @@ export class LazyStorage extends JSONStorage {
       if (!data) return null;
 
       if (options.preloadFields?.length) {
-        options.preloadFields.forEach((field) =>
-          this.loadLazyField(key, field),
-        );
+        this.preload(key, options.preloadFields);
       }
 
       return this.createLazyProxy(key, data);
@@ -145,11 +186,240 @@ export class LazyStorage extends JSONStorage {
     }
   }
 
+  /**
+   * Lazy values are validated as a whole by `setLazy`. The parent entries and chunks
+   * stored afterwards hold an internal representation, so they are not validated again.
+   * @protected
+   */
+  protected validate<T>(_key: string, value: unknown): ValidationResult<T> {
+    return { success: true, data: value as T };
+  }
+
+  /**
+   * Migrations receive the complete value: lazy fields are loaded from their chunks before
+   * migrating and split again afterwards, and chunks are never migrated on their own.
+   * @protected
+   */
+  protected applyMigrations(
+    key: string,
+    value: unknown,
+    migrations: StorageMigration[],
+  ): unknown {
+    const data =
+      typeof value === "string" ? TypedCompression.decompressData(value) : null;
+    const lazyPaths =
+      data && typeof data === "object" ? this.findLazyPaths(data) : [];
+
+    if (!lazyPaths.length) {
+      return super.applyMigrations(key, value, migrations);
+    }
+
+    const previousKeys = this.getChunkKeys(data);
+    let chunkSize = LazyStorage.DEFAULT_CHUNK_SIZE;
+    let materialized = { ...data };
+
+    this.withoutMigrations(() => {
+      for (const path of lazyPaths) {
+        const lazyData = getPath(data, path);
+        if (lazyData.type === "array") {
+          const chunks = lazyData.chunks.map(
+            (chunkKey: string) => this.getJSON<unknown[]>(chunkKey) || [],
+          );
+          if (chunks.length > 1) chunkSize = chunks[0].length;
+          materialized = setPath(materialized, path, chunks.flat());
+        } else if (lazyData.type === "object") {
+          materialized = setPath(
+            materialized,
+            path,
+            this.getJSON(lazyData.key),
+          );
+        }
+      }
+    });
+
+    const migrated = super.applyMigrations(key, materialized, migrations);
+    const lazyFields = lazyPaths.map((path) => path.join("."));
+    const processed = this.withoutMigrations(() =>
+      this.processLazyFields(key, migrated as object, lazyFields, chunkSize),
+    );
+
+    const currentKeys = new Set(this.getChunkKeys(processed));
+    previousKeys
+      .filter((chunkKey) => !currentKeys.has(chunkKey))
+      .forEach((chunkKey) => this.remove(chunkKey));
+    this.clearCacheOf(key);
+
+    return this.isPlainJSON(value as string)
+      ? JSON.stringify(processed)
+      : TypedCompression.compressData(processed);
+  }
+
+  /**
+   * Skips the chunks of lazy fields, which are migrated together with their parent.
+   * @protected
+   */
+  protected getMigrationKeys(): string[] {
+    const keys = super.getMigrationKeys();
+    const chunkKeys = new Set<string>();
+
+    this.withoutMigrations(() =>
+      keys.forEach((key) => {
+        const value = super.get<string>(key);
+        const data =
+          typeof value === "string"
+            ? TypedCompression.decompressData(value)
+            : null;
+        if (data && typeof data === "object") {
+          this.getChunkKeys(data).forEach((chunkKey) =>
+            chunkKeys.add(chunkKey),
+          );
+        }
+      }),
+    );
+
+    return keys.filter((key) => !chunkKeys.has(key));
+  }
+
+  /**
+   * Adds the chunk layout of lazy objects, and the object each chunk belongs to.
+   * @example
+   * ```typescript
+   * lazyStorage.inspect("user");
+   * // [{ key: "user", layout: [{ field: "posts", type: "array", keys: ["user:posts:0", ...] }] },
+   * //  { key: "user:posts:0", parent: "user" }, ...]
+   * ```
+   */
+  inspect(pattern?: KeyPattern): StorageInspection[] {
+    const inspections = super.inspect(pattern);
+    const parents = new Map<string, string>();
+
+    for (const inspection of inspections) {
+      const entry = this.peekEntry(inspection.key);
+      if (entry?.encoding !== "lazy") continue;
+
+      const layout = this.getChunkLayout(entry.value as Record<string, any>);
+
+      inspection.layout = layout;
+      layout.forEach(({ keys }) =>
+        keys.forEach((chunkKey) => parents.set(chunkKey, inspection.key)),
+      );
+    }
+
+    return inspections.map((inspection) =>
+      parents.has(inspection.key)
+        ? { ...inspection, parent: parents.get(inspection.key) }
+        : inspection,
+    );
+  }
+
+  /**
+   * Evicts the chunks of a lazy object together with it, so an object is never left
+   * pointing at missing chunks.
+   * @protected
+   */
+  protected getDependentKeys(key: string): string[] {
+    const entry = this.peekEntry(key);
+    return entry?.encoding === "lazy"
+      ? this.getChunkKeys(entry.value as Record<string, any>)
+      : [];
+  }
+
+  /**
+   * Includes the chunks of the matching objects, so a snapshot of an object is complete
+   * even when the pattern does not match its chunks.
+   * @protected
+   */
+  protected getSnapshotKeys(pattern?: KeyPattern): string[] {
+    const keys = super.getSnapshotKeys(pattern);
+    if (pattern === undefined) return keys;
+
+    const included = new Set(keys);
+    for (const key of keys) {
+      const entry = this.peekEntry(key);
+      if (entry?.encoding !== "lazy") continue;
+      this.getChunkKeys(entry.value as Record<string, any>).forEach(
+        (chunkKey) => included.add(chunkKey),
+      );
+    }
+    return [...included];
+  }
+
+  /**
+   * Exports lazy objects decompressed, with the markers of their lazy fields.
+   * @protected
+   */
+  protected decodeSnapshotValue(
+    entry: StorageSnapshotEntry,
+  ): StorageSnapshotEntry {
+    const data =
+      typeof entry.value === "string" ? this.decodeParent(entry.value) : null;
+    if (!data || !this.findLazyPaths(data).length) {
+      return super.decodeSnapshotValue(entry);
+    }
+    return { ...entry, value: data, encoding: "lazy" };
+  }
+
+  /**
+   * Describes how the lazy fields of a stored object are split across keys.
+   */
+  private getChunkLayout(data: Record<string, any>): StorageChunkLayout[] {
+    return this.findLazyPaths(data).map((path) => {
+      const marker = getPath(data, path);
+      return marker.type === "array"
+        ? {
+            field: path.join("."),
+            type: "array",
+            keys: marker.chunks,
+            total: marker.total,
+            chunkSize: marker.chunkSize,
+          }
+        : { field: path.join("."), type: "object", keys: [marker.key] };
+    });
+  }
+
+  /**
+   * Lists the keys holding the lazy fields of a stored object, at any depth.
+   */
+  private getChunkKeys(data: Record<string, any>): string[] {
+    return this.findLazyPaths(data).flatMap((path) => {
+      const field = getPath(data, path);
+      return field.type === "array"
+        ? field.chunks
+        : field.type === "object"
+          ? [field.key]
+          : [];
+    });
+  }
+
+  /**
+   * Lists the paths of the lazy field markers of a stored object, at any depth.
+   */
+  private findLazyPaths(data: unknown, path: Path = []): Path[] {
+    if (data === null || typeof data !== "object") return [];
+    if ((data as { __lazy?: boolean }).__lazy) return [path];
+
+    return Object.entries(data).flatMap(([field, value]) =>
+      this.findLazyPaths(value, [...path, field]),
+    );
+  }
+
+  /**
+   * Checks whether a stored parent was written as plain JSON rather than compressed.
+   */
+  private isPlainJSON(value: string): boolean {
+    try {
+      JSON.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Processes lazy fields in the given object.
    * @param parentKey - The parent key for the object.
    * @param value - The object to process.
-   * @param lazyFields - Fields to be processed lazily.
+   * @param lazyFields - Fields to be processed lazily, as names or dotted paths with `*` wildcards.
    * @param chunkSize - Size of chunks for large arrays.
    * @returns The processed object with lazy fields marked.
    */
@@ -159,30 +429,41 @@ export class LazyStorage extends JSONStorage {
     lazyFields: string[],
     chunkSize: number,
   ): any {
-    const processed = { ...value } as Record<string, any>;
+    let processed = { ...value } as Record<string, any>;
+    const isMarker = (field: any) => !!field?.__lazy;
 
     for (const field of lazyFields) {
-      const fieldValue = value[field as keyof T];
-      if (fieldValue === undefined) continue;
-
-      if (Array.isArray(fieldValue)) {
-        const chunks = this.chunkArray(fieldValue, chunkSize);
-        const chunkKeys = chunks.map((chunk, index) => {
-          const chunkKey = `${parentKey}:${field}:${index}`;
-          this.setJSON(chunkKey, chunk, {});
-          return chunkKey;
-        });
-
-        processed[field] = {
-          __lazy: true,
-          type: "array",
-          chunks: chunkKeys,
-          total: fieldValue.length,
-        };
-      } else if (typeof fieldValue === "object" && fieldValue !== null) {
-        const fieldKey = `${parentKey}:${field}`;
-        this.setJSON(fieldKey, fieldValue, {});
-        processed[field] = { __lazy: true, type: "object", key: fieldKey };
+      for (const path of expandPath(processed, parsePath(field), isMarker)) {
+        const fieldValue = getPath(processed, path);
+        const fieldKey = `${parentKey}:${path.join(":")}`;
+
+        if (Array.isArray(fieldValue)) {
+          const chunks = this.chunkArray(fieldValue, chunkSize);
+          const chunkKeys = chunks.map((chunk, index) => {
+            const chunkKey = `${fieldKey}:${index}`;
+            this.setJSON(chunkKey, chunk, {});
+            return chunkKey;
+          });
+
+          processed = setPath(processed, path, {
+            __lazy: true,
+            type: "array",
+            chunks: chunkKeys,
+            total: fieldValue.length,
+            chunkSize,
+          });
+        } else if (
+          typeof fieldValue === "object" &&
+          fieldValue !== null &&
+          !isMarker(fieldValue)
+        ) {
+          this.setJSON(fieldKey, fieldValue, {});
+          processed = setPath(processed, path, {
+            __lazy: true,
+            type: "object",
+            key: fieldKey,
+          });
+        }
       }
     }
 
@@ -195,47 +476,378 @@ export class LazyStorage extends JSONStorage {
    * @param data - The data to create a proxy for.
    * @returns A proxy object that intercepts property access for lazy loading.
    */
-  private createLazyProxy<T extends object>(key: string, data: T): T {
+  private createLazyProxy<T extends object>(
+    key: string,
+    data: T,
+    path: Path = [],
+  ): T {
     return new Proxy(data, {
       get: (target: T, prop: string | symbol) => {
-        if (
-          typeof prop === "string" &&
-          (target as Record<string, { __lazy?: boolean }>)[prop]?.__lazy
-        ) {
-          if (!this.cache.has(`${key}:${prop}`)) {
-            const value = this.loadLazyField(key, prop);
-            this.cache.set(`${key}:${prop}`, value);
+        const value: any = Reflect.get(target, prop);
+        if (typeof prop !== "string" || value === null) return value;
+        if (typeof value !== "object") return value;
+
+        const field = [...path, prop].join(".");
+        if (value.__lazy) {
+          if (!this.cache.has(`${key}:${field}`)) {
+            this.cache.set(`${key}:${field}`, this.loadLazyField(key, field));
           }
-          return this.cache.get(`${key}:${prop}`);
+          return this.cache.get(`${key}:${field}`);
+        }
+
+        if (!this.proxies.has(value)) {
+          this.proxies.set(
+            value,
+            this.findLazyPaths(value).length
+              ? this.createLazyProxy(key, value, [...path, prop])
+              : value,
+          );
         }
-        return Reflect.get(target, prop);
+        return this.proxies.get(value);
       },
     }) as T;
   }
 
   /**
-   * Loads a lazy field from storage.
+   * Loads a lazy field from storage. Arrays are returned as a `LazyArray`.
    * @param parentKey - The parent key of the object.
-   * @param field - The field to load.
+   * @param field - The field to load, or a dotted path to a nested field.
+   * @param eager - Loads every chunk of an array right away, instead of on demand.
    * @returns The loaded value or `undefined` if the field is not lazy or does not exist.
    */
-  private loadLazyField(parentKey: string, field: string) {
-    const data = super.getJSON<Record<string, any>>(parentKey);
-    if (!data || !data[field]?.__lazy) return undefined;
-
-    const lazyData = data[field];
+  private loadLazyField(parentKey: string, field: string, eager = false) {
+    const data = this.readParent(parentKey);
+    const lazyData = getPath(data, parsePath(field));
+    if (!lazyData?.__lazy) return undefined;
 
     if (lazyData.type === "array") {
-      return lazyData.chunks
-        .map((chunkKey: string) => this.getJSON(chunkKey) || [])
-        .flat();
+      const array = createLazyArray(lazyData as LazyArrayMarker, (chunkKey) =>
+        this.readChunk(chunkKey),
+      );
+      // Reading every item loads each chunk once
+      if (eager) Array.from(array);
+      return array;
     } else if (lazyData.type === "object") {
-      return this.getJSON(lazyData.key);
+      return this.withoutMigrations(() => this.getJSON(lazyData.key));
     }
 
     return undefined;
   }
 
+  /**
+   * Returns a lazy array field as a paged collection, without going through the parent proxy.
+   * Only the chunks holding the items that are read get loaded.
+   * @param key - The key of the object.
+   * @param field - The lazy array field.
+   * @returns The paged collection, or `null` if the key does not exist or the field is not a lazy array.
+   * @example
+   * ```typescript
+   * const posts = lazyStorage.getLazyArray<Post>("user", "posts");
+   * posts.length; // 1000, from the stored total
+   * posts.slice(100, 120); // loads the chunks holding items 100 to 119
+   * for await (const post of posts) render(post);
+   * ```
+   */
+  getLazyArray<T>(key: string, field: string): LazyArray<T> | null {
+    try {
+      const value = super.get<string>(key);
+      const data = value
+        ? TypedCompression.decompressData(value) || JSON.parse(value)
+        : null;
+      const marker = getPath(data, parsePath(field));
+      if (!marker?.__lazy || marker.type !== "array") return null;
+
+      return createLazyArray<T>(marker, (chunkKey) =>
+        this.withoutMigrations(() => this.getJSON<T[]>(chunkKey) || []),
+      );
+    } catch (error) {
+      console.error("[LazyStorage] Error getting lazy array:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Appends items to a lazy array field. Only the last chunk and the new chunks are
+   * written, together with the updated `total` and `chunks` of the parent.
+   * @param key - The key of the object.
+   * @param field - The lazy array field.
+   * @param items - The items to append.
+   * @returns Whether the write succeeded and which keys were evicted.
+   * @example
+   * ```typescript
+   * lazyStorage.appendLazy("user", "posts", [newPost]);
+   * ```
+   */
+  appendLazy<T>(key: string, field: string, items: T[]): SetResult {
+    return this.editLazyArray(key, field, (marker, evicted, fieldKey) => {
+      const chunkSize = this.getChunkSize(marker);
+      const chunks = [...marker.chunks];
+      const pending = [...items];
+
+      const lastIndex = chunks.length - 1;
+      if (lastIndex >= 0) {
+        const last = this.readChunk<T>(chunks[lastIndex]);
+        if (last.length < chunkSize) {
+          const filled = [
+            ...last,
+            ...pending.splice(0, chunkSize - last.length),
+          ];
+          this.writeChunk(chunks[lastIndex], filled, evicted);
+        }
+      }
+
+      for (const chunk of this.chunkArray(pending, chunkSize)) {
+        const chunkKey = `${fieldKey}:${chunks.length}`;
+        this.writeChunk(chunkKey, chunk, evicted);
+        chunks.push(chunkKey);
+      }
+
+      return {
+        ...marker,
+        chunks,
+        total: marker.total + items.length,
+        chunkSize,
+      };
+    });
+  }
+
+  /**
+   * Updates one item of a lazy array field, writing only the chunk that holds it and
+   * the revision of the parent.
+   * Object items are merged with the patch; a function receives the current item and returns the new one.
+   * @param key - The key of the object.
+   * @param field - The lazy array field.
+   * @param index - The index of the item.
+   * @param patch - The properties to merge into the item, or a function returning the new item.
+   * @returns Whether the write succeeded and which keys were evicted.
+   * @example
+   * ```typescript
+   * lazyStorage.updateLazyItem("user", "posts", 42, { title: "New title" });
+   * lazyStorage.updateLazyItem("user", "posts", 42, (post) => ({ ...post, likes: post.likes + 1 }));
+   * ```
+   */
+  updateLazyItem<T>(
+    key: string,
+    field: string,
+    index: number,
+    patch: Partial<T> | ((item: T) => T),
+  ): SetResult {
+    return this.editLazyArray(key, field, (marker, evicted) => {
+      if (!Number.isInteger(index) || index < 0 || index >= marker.total) {
+        throw new RangeError(
+          `[LazyStorage] Index ${index} is out of bounds of "${field}".`,
+        );
+      }
+
+      const chunkSize = this.getChunkSize(marker);
+      const chunkKey = marker.chunks[Math.floor(index / chunkSize)];
+      const chunk = this.readChunk<T>(chunkKey);
+      const item = chunk[index % chunkSize];
+
+      chunk[index % chunkSize] =
+        typeof patch === "function"
+          ? patch(item)
+          : item !== null && typeof item === "object"
+            ? { ...item, ...patch }
+            : (patch as T);
+      this.writeChunk(chunkKey, chunk, evicted);
+
+      // A new revision rewrites the parent, so readers of the key are notified
+      return { ...marker, revision: (marker.revision ?? 0) + 1 };
+    });
+  }
+
+  /**
+   * Removes items from a lazy array field, like `Array.prototype.splice`. The chunks
+   * before the first removed item are kept as they are, the following ones are rewritten,
+   * and chunk keys left empty are removed.
+   * @param key - The key of the object.
+   * @param field - The lazy array field.
+   * @param start - The index of the first item to remove.
+   * @param deleteCount - How many items to remove. Defaults to 1.
+   * @returns Whether the write succeeded and which keys were evicted.
+   * @example
+   * ```typescript
+   * lazyStorage.removeLazyItems("user", "posts", 10, 5);
+   * ```
+   */
+  removeLazyItems(
+    key: string,
+    field: string,
+    start: number,
+    deleteCount = 1,
+  ): SetResult {
+    return this.editLazyArray(key, field, (marker, evicted, fieldKey) => {
+      const chunkSize = this.getChunkSize(marker);
+      const from = Math.max(0, Math.min(start, marker.total));
+      const count = Math.max(0, Math.min(deleteCount, marker.total - from));
+      if (!count) return marker;
+
+      const firstChunk = Math.floor(from / chunkSize);
+      const tail = marker.chunks
+        .slice(firstChunk)
+        .flatMap((chunkKey) => this.readChunk(chunkKey));
+      tail.splice(from - firstChunk * chunkSize, count);
+
+      const chunks = marker.chunks.slice(0, firstChunk);
+      for (const chunk of this.chunkArray(tail, chunkSize)) {
+        const chunkKey = `${fieldKey}:${chunks.length}`;
+        this.writeChunk(chunkKey, chunk, evicted);
+        chunks.push(chunkKey);
+      }
+
+      marker.chunks
+        .filter((chunkKey) => !chunks.includes(chunkKey))
+        .forEach((chunkKey) => super.remove(chunkKey));
+
+      return { ...marker, chunks, total: marker.total - count, chunkSize };
+    });
+  }
+
+  /**
+   * Removes an object together with the chunks of its lazy fields.
+   * @param key - The key of the object to remove.
+   * @example
+   * ```typescript
+   * lazyStorage.remove("user"); // also removes "user:posts:0", "user:posts:1"...
+   * ```
+   */
+  remove(key: string): void {
+    try {
+      this.transaction(() => {
+        const data = this.readParent(key);
+        if (data) {
+          this.getChunkKeys(data).forEach((chunkKey) => super.remove(chunkKey));
+        }
+        super.remove(key);
+        this.clearCacheOf(key);
+      });
+    } catch (error) {
+      if (this.inTransaction) throw error;
+      console.error("[LazyStorage] Error removing lazy value:", error);
+    }
+  }
+
+  /**
+   * Runs an edit of a lazy array field in a transaction and writes the parent back
+   * when its marker changed, keeping the options it was stored with.
+   */
+  private editLazyArray(
+    key: string,
+    field: string,
+    edit: (
+      marker: LazyArrayMarker,
+      evicted: string[],
+      fieldKey: string,
+    ) => LazyArrayMarker,
+  ): SetResult {
+    try {
+      return this.writeObject(key, () => {
+        const value = super.get<string>(key);
+        const data = value ? this.decodeParent(value) : null;
+        const path = parsePath(field);
+        const marker = getPath(data, path);
+        if (!marker?.__lazy || marker.type !== "array") {
+          throw new Error(
+            `[LazyStorage] "${field}" of "${key}" is not a lazy array.`,
+          );
+        }
+
+        const evicted: string[] = [];
+        const updated = edit(marker, evicted, `${key}:${path.join(":")}`);
+        this.cache.delete(`${key}:${field}`);
+        if (updated === marker) return { success: true, evicted };
+
+        const parent = setPath(data, path, updated);
+        const options = this.getItemOptions(key);
+        evicted.push(
+          ...super.set(
+            key,
+            this.isPlainJSON(value!)
+              ? JSON.stringify(parent)
+              : TypedCompression.compressData(parent),
+            options,
+          ).evicted,
+        );
+        return { success: true, evicted };
+      });
+    } catch (error) {
+      if (this.inTransaction) throw error;
+      console.error("[LazyStorage] Error editing lazy array:", error);
+      return { success: false, evicted: [] };
+    }
+  }
+
+  /**
+   * Returns the number of items per chunk of a lazy array. Markers written by older
+   * versions do not record it, so it is taken from the first chunk.
+   */
+  private getChunkSize(marker: LazyArrayMarker): number {
+    if (marker.chunkSize) return marker.chunkSize;
+    if (marker.chunks.length > 1)
+      return this.readChunk(marker.chunks[0]).length;
+    return Math.max(marker.total, LazyStorage.DEFAULT_CHUNK_SIZE);
+  }
+
+  private readChunk<T>(chunkKey: string): T[] {
+    return this.withoutMigrations(() => this.getJSON<T[]>(chunkKey) || []);
+  }
+
+  private writeChunk(chunkKey: string, chunk: unknown[], evicted: string[]) {
+    evicted.push(...this.setJSON(chunkKey, chunk, {}).evicted);
+  }
+
+  /**
+   * Writes an object and its chunks in a transaction. The object is pinned meanwhile, so
+   * making room for one of its new chunks never evicts it with the chunks already written.
+   */
+  private writeObject<R>(key: string, write: () => R): R {
+    const unpin = this.pin(key);
+    try {
+      return this.transaction(write);
+    } finally {
+      unpin();
+    }
+  }
+
+  /**
+   * Reads the stored representation of a parent object, with markers in place of its lazy fields.
+   */
+  private readParent(key: string): Record<string, any> | null {
+    const value = this.withoutMigrations(() => super.get<string>(key));
+    return typeof value === "string" ? this.decodeParent(value) : null;
+  }
+
+  private decodeParent(value: string): Record<string, any> | null {
+    try {
+      const data = TypedCompression.decompressData(value) || JSON.parse(value);
+      return data && typeof data === "object" && !Array.isArray(data)
+        ? data
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Removes the chunk keys of a previous version of an object that the new one no longer uses.
+   */
+  private removeOrphans(
+    previous: Record<string, any>,
+    current: Record<string, any>,
+  ): void {
+    const currentKeys = new Set(this.getChunkKeys(current));
+    this.getChunkKeys(previous)
+      .filter((chunkKey) => !currentKeys.has(chunkKey))
+      .forEach((chunkKey) => super.remove(chunkKey));
+  }
+
+  private clearCacheOf(key: string): void {
+    for (const cacheKey of this.cache.keys()) {
+      if (cacheKey.startsWith(`${key}:`)) this.cache.delete(cacheKey);
+    }
+  }
+
   /**
    * Chunks an array into smaller arrays of the specified size.
    * @param array - The array to chunk.
@@ -249,7 +861,8 @@ export class LazyStorage extends JSONStorage {
   }
 
   /**
-   * Preloads specific lazy fields.
+   * Preloads specific lazy fields. Arrays are cached as the same `LazyArray` that reading
+   * the field returns, with all of its chunks loaded.
    * @param key - The key of the object.
    * @param fields - Fields to preload.
    * @example
@@ -258,12 +871,22 @@ export class LazyStorage extends JSONStorage {
    * ```
    */
   preload(key: string, fields: string[]): void {
-    fields.forEach((field) => {
-      const value = this.loadLazyField(key, field);
-      if (value !== undefined) {
-        this.cache.set(`${key}:${field}`, value);
-      }
-    });
+    const data = fields.some((field) => field.includes("*"))
+      ? this.readParent(key)
+      : null;
+
+    fields
+      .flatMap((field) =>
+        field.includes("*")
+          ? expandPath(data, parsePath(field)).map((path) => path.join("."))
+          : [field],
+      )
+      .forEach((field) => {
+        const value = this.loadLazyField(key, field, true);
+        if (value !== undefined) {
+          this.cache.set(`${key}:${field}`, value);
+        }
+      });
   }
 
   /**
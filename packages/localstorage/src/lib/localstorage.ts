@@ -1,25 +1,140 @@
 import { compress, decompress } from "lz-string";
 import {
+  EncryptionKeyProvider,
+  ImportSnapshotOptions,
   IStorage,
+  KeyPattern,
+  QuotaPolicy,
+  SetResult,
+  StorageBackend,
+  StorageBatchListener,
+  StorageChange,
+  StorageConfig,
   StorageEventListener,
+  StorageExpireListener,
   StorageItem,
+  StorageInspection,
+  StorageMigration,
   StorageOptions,
+  StorageSnapshot,
+  StorageSnapshotEntry,
+  SweeperOptions,
 } from "../core/types";
+import { WebStorageBackend } from "../backends/web-storage-backend";
+import { EvictionCandidate, orderForEviction } from "../utils/eviction";
+import { matchesPattern } from "../utils/pattern";
+import { parse, stringify } from "../utils/serializer";
+import {
+  decryptValue,
+  encryptValue,
+  getEncryptionKeyId,
+  isEncrypted,
+} from "../utils/encryption";
+
+/**
+ * Marks a raw stored value as compressed: `__LZ__:<expiresAt>:<payload>`. The expiry
+ * stays readable so expired keys can be skipped without decompressing them.
+ */
+const COMPRESSED_PREFIX = "__LZ__:";
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Part of the TTL that must pass before a read restarts a sliding TTL. Rewriting the item
+ * on every read would fire a storage event in every other tab, whose reads would write it
+ * back in turn.
+ */
+const SLIDING_REFRESH_RATIO = 0.1;
 
 /**
  * Checks if the current environment supports localStorage.
  */
-const isClient = typeof globalThis !== "undefined" && !!globalThis.localStorage;
+const isClient = () =>
+  typeof globalThis !== "undefined" && !!globalThis.localStorage;
+
+/**
+ * Default BroadcastChannel name used for cross-tab synchronization.
+ */
+const DEFAULT_SYNC_CHANNEL = "@brushy/storage";
+
+/**
+ * Message published on the BroadcastChannel whenever a synced instance writes a key.
+ */
+interface SyncMessage {
+  key: string;
+  newValue: string | null;
+  oldValue: string | null;
+  /**
+   * The page that published the change. Missing in messages of older versions.
+   */
+  origin?: string;
+}
+
+/**
+ * Identifies the messages published by this page, which its own instances already received.
+ */
+const ORIGIN = Math.random().toString(36).slice(2);
+
+/**
+ * Instances listening to external changes, by channel name. Changes published on the
+ * page are delivered to them synchronously, before the BroadcastChannel message.
+ */
+const subscribers = new Map<string, Set<LocalStorage>>();
+
+/**
+ * Channels used to publish changes, shared by every instance with the same channel name.
+ */
+const publishers = new Map<string, BroadcastChannel>();
+
+/**
+ * Returns the shared publishing channel for a name, or null when BroadcastChannel is unavailable.
+ */
+function getPublisher(name: string): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
 
-if (!isClient) {
-  console.warn(
-    "[LocalStorage] This library requires an environment with localStorage support.",
+  let channel = publishers.get(name);
+  if (!channel) {
+    channel = createChannel(name);
+    publishers.set(name, channel);
+  }
+  return channel;
+}
+
+/**
+ * Checks whether an error thrown by a backend means the storage quota was exceeded.
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const { name, code } = error as { name?: string; code?: number };
+  return (
+    name === "QuotaExceededError" ||
+    name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22 ||
+    code === 1014
   );
 }
 
+/**
+ * Opens a BroadcastChannel that does not keep a Node.js process alive.
+ */
+function createChannel(name: string): BroadcastChannel {
+  const channel = new BroadcastChannel(name);
+  (channel as BroadcastChannel & { unref?: () => void }).unref?.();
+  return channel;
+}
+
+/**
+ * State of an open transaction: the raw values the touched keys had before it
+ * started, and the coalesced changes to deliver when it commits.
+ */
+interface TransactionState {
+  snapshots: Map<string, string | null>;
+  changes: Map<string, { newValue: any; oldValue: any }>;
+}
+
 /**
  * A class that provides an enhanced interface to the browser's localStorage.
  * It supports features like TTL (time-to-live), compression, and event listeners.
+ * Any `StorageBackend` (sessionStorage, in-memory, file) can be injected in place of localStorage.
  *
  * @example
  * ```typescript
@@ -31,274 +146,1619 @@ if (!isClient) {
  */
 export class LocalStorage implements IStorage {
   private listeners: Map<string, Set<StorageEventListener>> = new Map();
-  private storage: Storage;
+  private batchListeners: Set<StorageBatchListener> = new Set();
+  private expireListeners: Set<StorageExpireListener> = new Set();
+  private sweeper: {
+    timer: ReturnType<typeof setInterval>;
+    idle?: number;
+  } | null = null;
+  private activeTransaction: TransactionState | null = null;
+  private backend: StorageBackend | null = null;
+  private syncChannel: string | null;
+  private subscriber: BroadcastChannel | null = null;
+  private syncing = false;
+  private lastSeen: Map<string, string | null> = new Map();
+  private quota: QuotaPolicy | null;
+  private pinned: KeyPattern[] = [];
+  private accessLog: Map<string, { lastAccess: number; hits: number }> =
+    new Map();
+  private migrations: StorageMigration[] = [];
+  private migrationsPaused = 0;
+  private encryptionKey: EncryptionKeyProvider | null;
+  private structured: boolean;
 
   /**
    * Creates a new instance of LocalStorage with an optional prefix for keys.
    *
    * @param prefix - The prefix to use for all stored keys. Defaults to '@brushy/storage:'.
-   * @throws {Error} If the environment does not support localStorage.
+   * @param config - Instance configuration, such as the storage backend. Defaults to the browser's localStorage.
+   * Without a backend, an instance can be created where localStorage is missing, such as
+   * during server rendering; it is bound to localStorage when it is first used.
    *
    * @example
    * ```typescript
    * const storage = new LocalStorage('@myapp:');
+   * const memoryStorage = new LocalStorage('@test:', { backend: new MemoryStorageBackend() });
+   * const syncedStorage = new LocalStorage('@myapp:', { sync: true });
+   * const sweptStorage = new LocalStorage('@myapp:', { sweeper: { interval: 60000 } });
+   * const versionedStorage = new LocalStorage('@myapp:', {
+   *   migrations: [{ pattern: 'user', version: 1, migrate: (user) => ({ ...user, roles: [] }) }],
+   * });
    * ```
    */
-  constructor(private prefix: string = "@brushy/storage:") {
-    if (!isClient) {
-      throw new Error(
-        "[LocalStorage] This library requires an environment with localStorage support.",
-      );
+  constructor(
+    private prefix: string = "@brushy/storage:",
+    private config: StorageConfig = {},
+  ) {
+    this.syncChannel = config.sync
+      ? (typeof config.sync === "object" && config.sync.channel) ||
+        DEFAULT_SYNC_CHANNEL
+      : null;
+    this.quota = config.quota ?? null;
+    this.encryptionKey = config.encryptionKey ?? null;
+    this.structured = config.serializer === "structured";
+    config.migrations?.forEach((migration) =>
+      this.registerMigration(migration),
+    );
+
+    if (config.backend) {
+      this.backend = config.backend;
+    } else if (isClient()) {
+      this.backend = new WebStorageBackend(globalThis.localStorage);
+    }
+
+    if (config.sweeper) {
+      this.startSweeper(config.sweeper === true ? {} : config.sweeper);
+    }
+  }
+
+  /**
+   * The backend of the instance, bound to localStorage on first use when none was given.
+   *
+   * @throws {Error} If no backend was given and the environment does not support localStorage.
+   * @private
+   */
+  private get storage(): StorageBackend {
+    if (!this.backend) {
+      if (!isClient()) {
+        throw new Error(
+          "[LocalStorage] This library requires an environment with localStorage support.",
+        );
+      }
+      this.backend = new WebStorageBackend(globalThis.localStorage);
     }
-    this.storage = globalThis.localStorage;
+    return this.backend;
   }
 
   /**
    * Stores a value in localStorage with optional TTL and compression.
+   * When a quota policy is configured, other keys of the prefix may be evicted to make room.
    *
    * @template T - The type of the value to be stored.
    * @param key - The key under which to store the value.
    * @param value - The value to store.
-   * @param options - Optional settings for TTL and compression.
+   * @param options - Optional settings for TTL and compression. With `sliding`, every read restarts the TTL.
+   * @returns Whether the write succeeded and which keys were evicted to make room for it.
    *
    * @example
    * ```typescript
    * const storage = new LocalStorage();
-   * storage.set('user', { name: 'John', age: 30 }, { ttl: 3600000, compress: true });
+   * const { success, evicted } = storage.set('user', { name: 'John', age: 30 }, { ttl: 3600000, compress: true });
+   * storage.set('session', token, { ttl: 1800000, sliding: true });
    * ```
    */
-  set<T>(key: string, value: T, options: StorageOptions = {}): void {
+  set<T>(key: string, value: T, options: StorageOptions = {}): SetResult {
+    const evicted: string[] = [];
+
     try {
+      if (options.encrypt) {
+        throw new Error(
+          "[LocalStorage] Encrypted items must be written with setAsync.",
+        );
+      }
+
+      const storageKey = this.prefix + key;
+      const previous = this.publishes ? this.storage.getItem(storageKey) : null;
       const oldValue = this.get(key);
       const item: StorageItem<T> = {
         value,
         timestamp: Date.now(),
         ttl: options.ttl,
+        sliding: options.sliding,
         compressed: options.compress,
+        version: this.getVersion(key),
       };
 
-      let storageValue = JSON.stringify(item);
+      const storageValue = this.encodeItem(item);
 
-      if (options.compress && storageValue.length > 1024) {
-        try {
-          storageValue = compress(storageValue);
-        } catch (compressionError) {
-          console.warn(
-            "[LocalStorage] Compression failed, storing uncompressed:",
-            compressionError,
+      if (!this.writeItem(key, storageValue, evicted)) {
+        if (this.activeTransaction) {
+          throw new Error(
+            `[LocalStorage] The quota policy rejected the write of "${key}".`,
           );
         }
+        return { success: false, evicted };
       }
 
-      this.storage.setItem(this.prefix + key, storageValue);
       this.notifyListeners(key, value, oldValue);
+      this.publish(storageKey, storageValue, previous);
+      return { success: true, evicted };
     } catch (error) {
+      if (this.activeTransaction) throw error;
       console.error("[LocalStorage] Error saving item:", error);
+      return { success: false, evicted };
     }
   }
 
   /**
-   * Retrieves a value from localStorage, checking for expiration and decompressing if necessary.
+   * Runs several writes and removals as a single all-or-nothing operation.
+   * If the function throws, or any write fails, every key it touched is restored
+   * and the error is rethrown. Listeners are notified once the transaction commits,
+   * with one call per changed key and a single batch for `subscribeBatch` listeners.
+   * Transactions nested in another one join the outer transaction.
    *
-   * @template T - The type of the value to be retrieved.
-   * @param key - The key from which to retrieve the value.
-   * @returns The stored value if it exists and hasn't expired, otherwise null.
+   * @template R - The type returned by the function.
+   * @param fn - Receives the storage itself. It must be synchronous.
+   * @returns The value returned by the function.
+   * @throws The error that aborted the transaction.
    *
    * @example
    * ```typescript
    * const storage = new LocalStorage();
-   * const user = storage.get('user');
-   * console.log(user); // { name: 'John', age: 30 } or null
+   * storage.transaction((tx) => {
+   *   tx.set('cart', items);
+   *   tx.set('cart:total', total);
+   *   tx.remove('cart:draft');
+   * });
    * ```
    */
-  get<T>(key: string): T | null {
+  transaction<R>(fn: (tx: this) => R): R {
+    if (this.activeTransaction) return fn(this);
+
+    const state: TransactionState = {
+      snapshots: new Map(),
+      changes: new Map(),
+    };
+    this.activeTransaction = state;
+
+    let result: R;
     try {
-      const storageValue = this.storage.getItem(this.prefix + key);
+      result = fn(this);
+      if (result instanceof Promise) {
+        throw new TypeError("[LocalStorage] Transactions must be synchronous.");
+      }
+    } catch (error) {
+      this.activeTransaction = null;
+      this.rollback(state);
+      throw error;
+    }
 
-      if (!storageValue) return null;
+    this.activeTransaction = null;
+    this.commit(state);
+    return result;
+  }
 
-      let itemStr = storageValue;
-      let item: StorageItem<T>;
+  /**
+   * Whether a transaction is open, so subclasses rethrow errors instead of swallowing them.
+   *
+   * @protected
+   */
+  protected get inTransaction(): boolean {
+    return this.activeTransaction !== null;
+  }
 
+  /**
+   * Restores the raw values the keys touched by a transaction had before it started.
+   *
+   * @private
+   */
+  private rollback(state: TransactionState): void {
+    state.snapshots.forEach((storageValue, storageKey) => {
       try {
-        const decompressedValue = decompress(storageValue);
-        itemStr = decompressedValue || storageValue;
-      } catch (decompressError) {
-        console.warn(
-          "[LocalStorage] Decompression failed, using original value:",
-          decompressError,
-        );
+        if (storageValue === null) {
+          this.storage.removeItem(storageKey);
+        } else {
+          this.storage.setItem(storageKey, storageValue);
+        }
+      } catch (error) {
+        console.error("[LocalStorage] Error rolling back transaction:", error);
       }
+    });
+  }
 
-      try {
-        item = JSON.parse(itemStr);
-      } catch (parseError) {
-        console.error("[LocalStorage] Invalid JSON:", parseError);
-        return null;
-      }
+  /**
+   * Delivers the changes of a committed transaction to listeners and other tabs.
+   * Keys whose raw value ended up unchanged are skipped.
+   *
+   * @private
+   */
+  private commit(state: TransactionState): void {
+    const changes: StorageChange[] = [];
 
-      if (item.ttl && Date.now() - item.timestamp > item.ttl) {
-        this.remove(key);
-        return null;
-      }
+    state.changes.forEach(({ newValue, oldValue }, key) => {
+      const storageKey = this.prefix + key;
+      const original = state.snapshots.get(storageKey) ?? null;
+      const current = this.storage.getItem(storageKey);
+      if (current === original) return;
 
-      return item.value;
-    } catch (error) {
-      console.error("[LocalStorage] Error retrieving item:", error);
-      return null;
+      this.publish(storageKey, current, original);
+      changes.push({ key, newValue, oldValue });
+    });
+
+    this.dispatch(changes);
+  }
+
+  /**
+   * Remembers the raw value of a key before a transaction first modifies it.
+   *
+   * @private
+   */
+  private snapshot(storageKey: string): void {
+    const snapshots = this.activeTransaction?.snapshots;
+    if (snapshots && !snapshots.has(storageKey)) {
+      snapshots.set(storageKey, this.storage.getItem(storageKey));
     }
   }
 
   /**
-   * Removes an item from localStorage.
+   * Serializes an item, compressing it when it was stored with `compress` and is large enough.
    *
-   * @param key - The key of the item to remove.
+   * @private
+   */
+  private encodeItem(item: StorageItem<unknown>): string {
+    // Metadata left undefined is dropped, as JSON.stringify does, rather than tagged
+    const fields = Object.entries(item).filter(
+      ([field, value]) => field === "value" || value !== undefined,
+    );
+    let storageValue = this.serialize(Object.fromEntries(fields));
+
+    if (item.compressed && storageValue.length > 1024) {
+      try {
+        const expiresAt = item.ttl ? item.timestamp + item.ttl : "";
+        storageValue = `${COMPRESSED_PREFIX}${expiresAt}:${compress(storageValue)}`;
+      } catch (compressionError) {
+        console.warn(
+          "[LocalStorage] Compression failed, storing uncompressed:",
+          compressionError,
+        );
+      }
+    }
+
+    return storageValue;
+  }
+
+  /**
+   * Serializes a value with the serializer of the instance.
    *
-   * @example
-   * ```typescript
-   * const storage = new LocalStorage();
-   * storage.remove('user');
-   * ```
+   * @protected
    */
-  remove(key: string): void {
-    try {
-      const storageKey = this.prefix + key;
-      const storageValue = this.storage.getItem(storageKey);
-      let oldValue = null;
+  protected serialize(
+    value: unknown,
+    replacer?: (this: any, key: string, value: any) => any,
+    space?: number,
+  ): string {
+    return this.structured
+      ? stringify(value, replacer, space)
+      : JSON.stringify(value, replacer, space);
+  }
 
-      if (storageValue) {
-        let itemStr = storageValue;
-        try {
-          const decompressedValue = decompress(storageValue);
-          itemStr = decompressedValue || storageValue;
-        } catch {}
+  /**
+   * Parses text written by `serialize`.
+   *
+   * @protected
+   */
+  protected deserialize(
+    text: string,
+    reviver?: (this: any, key: string, value: any) => any,
+  ): any {
+    return this.structured ? parse(text, reviver) : JSON.parse(text, reviver);
+  }
 
-        try {
-          const item = JSON.parse(itemStr);
-          oldValue = item.value;
-        } catch {}
+  /**
+   * Writes a raw value to the backend, enforcing the quota policy.
+   * Keys evicted to make room are appended to `evicted`.
+   *
+   * @returns True if the value was written, false if the quota policy rejected it.
+   * @throws The backend error when the write fails for reasons other than the quota.
+   *
+   * @private
+   */
+  private writeItem(
+    key: string,
+    storageValue: string,
+    evicted: string[],
+  ): boolean {
+    const storageKey = this.prefix + key;
+    const size = this.byteSize(storageValue);
+    const maxBytes = this.quota?.maxBytes;
+
+    if (maxBytes !== undefined) {
+      const usage = this.getUsage(storageKey);
+      if (
+        usage + size > maxBytes &&
+        !this.makeRoom({ key, size, usage, maxBytes }, evicted)
+      ) {
+        return false;
       }
+    }
 
-      this.storage.removeItem(storageKey);
-      this.notifyListeners(key, null, oldValue);
-    } catch (error) {
-      console.error("[LocalStorage] Error removing item:", error);
+    this.snapshot(storageKey);
+
+    while (true) {
+      try {
+        this.storage.setItem(storageKey, storageValue);
+        return true;
+      } catch (error) {
+        if (!this.quota || !isQuotaExceededError(error)) throw error;
+
+        const usage = this.getUsage(storageKey);
+        if (
+          this.quota.onQuotaExceeded?.({ key, size, usage, error }) === false
+        ) {
+          return false;
+        }
+
+        const [candidate] = this.getEvictionCandidates(storageKey);
+        if (!candidate) return false;
+
+        this.remove(candidate.key);
+        evicted.push(candidate.key);
+      }
     }
   }
 
   /**
-   * Clears all items from localStorage that match the current prefix.
+   * Evicts keys until a write fits in the byte budget.
+   * Nothing is evicted when the write cannot fit even after evicting every other key.
    *
-   * @example
-   * ```typescript
-   * const storage = new LocalStorage();
-   * storage.clear();
-   * ```
+   * @returns True if enough room was made.
+   *
+   * @private
    */
-  clear(): void {
-    try {
-      Object.keys(this.storage)
-        .filter((key) => key.startsWith(this.prefix))
-        .forEach((key) => {
-          const pureKey = key.replace(this.prefix, "");
-          this.remove(pureKey);
-        });
-    } catch (error) {
-      console.error("[LocalStorage] Error clearing items:", error);
+  private makeRoom(
+    info: { key: string; size: number; usage: number; maxBytes: number },
+    evicted: string[],
+  ): boolean {
+    if (this.quota?.onQuotaExceeded?.(info) === false) return false;
+
+    const storageKey = this.prefix + info.key;
+    let usage = this.getUsage(storageKey);
+    const plan: EvictionCandidate[] = [];
+
+    for (const candidate of this.getEvictionCandidates(storageKey)) {
+      if (usage + info.size <= info.maxBytes) break;
+      plan.push(candidate);
+      usage -= candidate.size;
     }
+
+    if (usage + info.size > info.maxBytes) return false;
+
+    plan.forEach((candidate) => {
+      this.remove(candidate.key);
+      evicted.push(candidate.key);
+    });
+    return true;
   }
 
   /**
-   * Subscribes to changes for a specific key in localStorage.
+   * Keeps a key, or the keys matching a pattern, from being evicted by the quota policy.
+   * Writes to a pinned key may still evict other keys.
    *
-   * @param key - The key to listen for changes.
-   * @param listener - The function to call when the key changes.
-   * @returns A function to unsubscribe the listener.
+   * @param pattern - The key, a glob such as `draft:*`, or a regular expression.
+   * @returns A function to let the keys be evicted again.
    *
    * @example
    * ```typescript
-   * const storage = new LocalStorage();
-   * const unsubscribe = storage.subscribe('user', (key, newValue, oldValue) => {
-   *   console.log(`User data changed from ${oldValue} to ${newValue}`);
-   * });
-   * // Later, to unsubscribe
-   * unsubscribe();
+   * const storage = new LocalStorage('@myapp:', { quota: { maxBytes: 512 * 1024 } });
+   * storage.pin('auth:*');
    * ```
    */
-  subscribe(key: string, listener: StorageEventListener): () => void {
-    if (!this.listeners.has(key)) {
-      this.listeners.set(key, new Set());
-    }
-
-    this.listeners.get(key)!.add(listener);
+  pin(pattern: KeyPattern): () => void {
+    this.pinned.push(pattern);
 
     return () => {
-      const keyListeners = this.listeners.get(key);
-      if (keyListeners) {
-        keyListeners.delete(listener);
-        if (keyListeners.size === 0) {
-          this.listeners.delete(key);
-        }
-      }
+      const index = this.pinned.indexOf(pattern);
+      if (index !== -1) this.pinned.splice(index, 1);
     };
   }
 
   /**
-   * Notifies all listeners of a key about changes.
+   * Lists the keys stored with a key, such as the chunks of a lazy object, which are
+   * evicted together with it and never on their own.
    *
-   * @param key - The key that changed.
-   * @param newValue - The new value of the key.
-   * @param oldValue - The old value of the key.
+   * @protected
+   */
+  protected getDependentKeys(_key: string): string[] {
+    return [];
+  }
+
+  /**
+   * Lists the other keys of the prefix in the order they should be evicted. Internal and
+   * pinned keys are skipped, and keys stored with another one count towards its size.
    *
    * @private
    */
-  private notifyListeners(key: string, newValue: any, oldValue: any): void {
-    const keyListeners = this.listeners.get(key);
-    if (keyListeners) {
-      keyListeners.forEach((listener) => {
-        try {
-          listener(key, newValue, oldValue);
-        } catch (error) {
-          console.error("[LocalStorage] Error notifying listener:", error);
-        }
+  private getEvictionCandidates(excludeKey: string): EvictionCandidate[] {
+    const keys = this.storage
+      .keys()
+      .filter((storageKey) => storageKey.startsWith(this.prefix))
+      .map((storageKey) => storageKey.slice(this.prefix.length))
+      .filter((key) => !this.isInternalKey(key));
+    const excluded = excludeKey.slice(this.prefix.length);
+
+    const dependents = new Map(
+      keys.map((key) => [key, this.getDependentKeys(key)]),
+    );
+    const owned = new Set([...dependents.values()].flat());
+
+    const candidates = keys
+      .filter(
+        (key) =>
+          key !== excluded &&
+          !owned.has(key) &&
+          !dependents.get(key)!.includes(excluded) &&
+          !this.pinned.some((pattern) => matchesPattern(key, pattern)),
+      )
+      .map((key) => {
+        const storageValue = this.storage.getItem(this.prefix + key) ?? "";
+        const item = this.decodeItem(storageValue);
+        const access = this.accessLog.get(key);
+
+        return {
+          key,
+          size: [key, ...dependents.get(key)!].reduce(
+            (total, member) =>
+              total +
+              this.byteSize(this.storage.getItem(this.prefix + member) ?? ""),
+            0,
+          ),
+          timestamp: item?.timestamp ?? 0,
+          ttl: item?.ttl,
+          lastAccess: access?.lastAccess,
+          hits: access?.hits,
+        };
       });
-    }
+
+    return orderForEviction(candidates, this.quota?.eviction);
   }
 
   /**
-   * Checks if an item exists in localStorage and hasn't expired.
+   * Sums the size in bytes of every key of the prefix, except `excludeKey`.
    *
-   * @param key - The key to check.
-   * @returns True if the item exists and hasn't expired, false otherwise.
+   * @private
+   */
+  private getUsage(excludeKey: string): number {
+    return this.storage
+      .keys()
+      .filter((key) => key.startsWith(this.prefix) && key !== excludeKey)
+      .reduce(
+        (total, key) => total + this.byteSize(this.storage.getItem(key) ?? ""),
+        0,
+      );
+  }
+
+  /**
+   * Measures a raw stored value the same way as `getSize`.
    *
-   * @example
-   * ```typescript
-   * const storage = new LocalStorage();
-   * if (storage.has('user')) {
-   *   console.log('User data exists and is not expired');
-   * }
-   * ```
+   * @private
    */
-  has(key: string): boolean {
-    return this.get(key) !== null;
+  private byteSize(storageValue: string): number {
+    return new Blob([storageValue]).size;
   }
 
   /**
-   * Calculates the approximate size in bytes of an item in localStorage.
+   * Retrieves a value from localStorage, checking for expiration and decompressing if necessary.
+   * Values stored with an older version are upgraded by the registered migrations and written back.
    *
-   * @param key - The key of the item to measure.
-   * @returns The size of the item in bytes, or 0 if the item does not exist.
+   * @template T - The type of the value to be retrieved.
+   * @param key - The key from which to retrieve the value.
+   * @returns The stored value if it exists and hasn't expired, otherwise null.
    *
    * @example
    * ```typescript
    * const storage = new LocalStorage();
-   * const size = storage.getSize('user');
-   * console.log(`User data size: ${size} bytes`);
+   * const user = storage.get('user');
+   * console.log(user); // { name: 'John', age: 30 } or null
    * ```
    */
-  getSize(key: string): number {
+  get<T>(key: string): T | null {
     try {
-      const item = this.storage.getItem(this.prefix + key);
+      const storageValue = this.storage.getItem(this.prefix + key);
+
+      if (!storageValue) return null;
+      if (isEncrypted(storageValue)) {
+        console.warn(
+          "[LocalStorage] Encrypted item must be read with getAsync:",
+          key,
+        );
+        return null;
+      }
+
+      let itemStr = storageValue;
+      let item: StorageItem<T>;
+
+      try {
+        itemStr = this.unpack(storageValue);
+      } catch (decompressError) {
+        console.warn(
+          "[LocalStorage] Decompression failed, using original value:",
+          decompressError,
+        );
+      }
+
+      try {
+        item = this.deserialize(itemStr);
+      } catch (parseError) {
+        console.error("[LocalStorage] Invalid JSON:", parseError);
+        return null;
+      }
+
+      if (this.isExpired(item)) {
+        this.expireItem(key, storageValue, item.value);
+        return null;
+      }
+
+      this.recordAccess(key);
+
+      const current = this.slide(this.upgradeItem(key, item) ?? item);
+      if (current !== item) this.persistItem(key, this.encodeItem(current));
+      return current.value;
+    } catch (error) {
+      console.error("[LocalStorage] Error retrieving item:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Registers a migration that upgrades the values of the matching keys.
+   * Values are migrated lazily when read with `get`, or eagerly with `migrateAll`,
+   * running every pending migration in version order.
+   *
+   * @param migration - The keys to migrate, the version they reach and the upgrade function.
+   * @returns A function to unregister the migration.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.registerMigration({
+   *   pattern: 'user:*',
+   *   version: 2,
+   *   migrate: ({ name, ...user }) => ({ ...user, fullName: name }),
+   * });
+   * ```
+   */
+  registerMigration(migration: StorageMigration): () => void {
+    this.migrations.push(migration);
+
+    return () => {
+      this.migrations = this.migrations.filter((other) => other !== migration);
+    };
+  }
+
+  /**
+   * Upgrades every stored value of the prefix that has pending migrations.
+   *
+   * @returns The keys that were migrated.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * const migrated = storage.migrateAll();
+   * console.log(migrated); // ['user:1', 'user:2']
+   * ```
+   */
+  migrateAll(): string[] {
+    const migrated: string[] = [];
+
+    for (const key of this.getMigrationKeys()) {
+      try {
+        const item = this.decodeItem(this.storage.getItem(this.prefix + key));
+        if (!item || this.isExpired(item)) continue;
+        if (this.migrateItem(key, item) !== item) {
+          migrated.push(key);
+        }
+      } catch (error) {
+        console.error("[LocalStorage] Error migrating item:", error);
+      }
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Applies migrations to a stored value. Subclasses override it to migrate the
+   * value they expose instead of its stored representation.
+   *
+   * @protected
+   */
+  protected applyMigrations(
+    key: string,
+    value: unknown,
+    migrations: StorageMigration[],
+  ): unknown {
+    return migrations.reduce(
+      (current, migration) => migration.migrate(current, key),
+      value,
+    );
+  }
+
+  /**
+   * Lists the keys `migrateAll` should visit.
+   *
+   * @protected
+   */
+  protected getMigrationKeys(): string[] {
+    return this.storage
+      .keys()
+      .filter((storageKey) => storageKey.startsWith(this.prefix))
+      .map((storageKey) => storageKey.slice(this.prefix.length))
+      .filter((key) => !this.isInternalKey(key));
+  }
+
+  /**
+   * Checks whether a key holds the bookkeeping of a subclass rather than a value of
+   * its own. `keys`, `entries`, snapshots, `clear`, migrations and quota eviction skip
+   * these keys.
+   *
+   * @protected
+   */
+  protected isInternalKey(_key: string): boolean {
+    return false;
+  }
+
+  /**
+   * Runs a function without applying migrations to the values it reads,
+   * for internal entries such as chunks.
+   *
+   * @protected
+   */
+  protected withoutMigrations<R>(fn: () => R): R {
+    this.migrationsPaused++;
+    try {
+      return fn();
+    } finally {
+      this.migrationsPaused--;
+    }
+  }
+
+  /**
+   * Returns the migrations of a key newer than the given version, in version order.
+   *
+   * @private
+   */
+  private getPendingMigrations(
+    key: string,
+    fromVersion: number,
+  ): StorageMigration[] {
+    if (this.migrationsPaused) return [];
+
+    return this.migrations
+      .filter(
+        (migration) =>
+          migration.version > fromVersion &&
+          matchesPattern(key, migration.pattern),
+      )
+      .sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Returns the current version of a key, or undefined if no migration applies to it.
+   *
+   * @private
+   */
+  private getVersion(key: string): number | undefined {
+    const [latest] = this.getPendingMigrations(key, 0).slice(-1);
+    return latest?.version;
+  }
+
+  /**
+   * Upgrades an item to the current version of its key.
+   *
+   * @returns The migrated item, or null when it was already up to date.
+   *
+   * @private
+   */
+  private upgradeItem<T>(
+    key: string,
+    item: StorageItem<T>,
+  ): StorageItem<T> | null {
+    const pending = this.getPendingMigrations(key, item.version ?? 0);
+    if (!pending.length) return null;
+
+    return {
+      ...item,
+      value: this.applyMigrations(key, item.value, pending) as T,
+      version: pending[pending.length - 1].version,
+    };
+  }
+
+  /**
+   * Upgrades an item to the current version of its key and writes it back.
+   *
+   * @returns The migrated item, or the same item when it was already up to date.
+   *
+   * @private
+   */
+  private migrateItem<T>(key: string, item: StorageItem<T>): StorageItem<T> {
+    const migrated = this.upgradeItem(key, item);
+    if (!migrated) return item;
+
+    this.persistItem(key, this.encodeItem(migrated));
+    return migrated;
+  }
+
+  /**
+   * Writes back an item that was migrated or refreshed by a read. Reads never evict
+   * other keys, so the item is left as it is when it no longer fits in the quota. A
+   * failure only means the work is done again on the next read.
+   *
+   * @private
+   */
+  private persistItem(key: string, storageValue: string): void {
+    const storageKey = this.prefix + key;
+    const maxBytes = this.quota?.maxBytes;
+    if (
+      maxBytes !== undefined &&
+      this.getUsage(storageKey) + this.byteSize(storageValue) > maxBytes
+    ) {
+      return;
+    }
+
+    try {
+      this.snapshot(storageKey);
+      this.storage.setItem(storageKey, storageValue);
+    } catch (error) {
+      console.warn("[LocalStorage] Could not persist item:", error);
+    }
+  }
+
+  /**
+   * Removes an item from localStorage.
+   *
+   * @param key - The key of the item to remove.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.remove('user');
+   * ```
+   */
+  remove(key: string): void {
+    try {
+      const storageValue = this.storage.getItem(this.prefix + key);
+      this.deleteItem(key, storageValue, this.decodeValue(storageValue));
+    } catch (error) {
+      if (this.activeTransaction) throw error;
+      console.error("[LocalStorage] Error removing item:", error);
+    }
+  }
+
+  /**
+   * Deletes a key from the backend and notifies listeners and other tabs.
+   *
+   * @private
+   */
+  private deleteItem(
+    key: string,
+    storageValue: string | null,
+    oldValue: unknown,
+  ): void {
+    const storageKey = this.prefix + key;
+
+    this.snapshot(storageKey);
+    this.storage.removeItem(storageKey);
+    this.accessLog.delete(key);
+    this.notifyListeners(key, null, oldValue);
+    this.publish(storageKey, null, storageValue);
+  }
+
+  /**
+   * Clears all items from localStorage that match the current prefix, or only the
+   * keys matching a pattern.
+   *
+   * @param pattern - Optional key or glob pattern (`user:*`, `cache:**`) or RegExp.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.clear('session:*');
+   * storage.clear();
+   * ```
+   */
+  clear(pattern?: KeyPattern): void {
+    try {
+      this.storage
+        .keys()
+        .filter((key) => key.startsWith(this.prefix))
+        .forEach((key) => {
+          const pureKey = key.replace(this.prefix, "");
+          if (this.isInternalKey(pureKey)) return;
+          if (pattern === undefined || matchesPattern(pureKey, pattern)) {
+            this.remove(pureKey);
+          }
+        });
+    } catch (error) {
+      if (this.activeTransaction) throw error;
+      console.error("[LocalStorage] Error clearing items:", error);
+    }
+  }
+
+  /**
+   * Returns a storage scoped to `<prefix><name>:`, of the same class and with the same
+   * configuration, except for migrations and the sweeper, which stay with this instance.
+   * The namespace has its own listeners, and `clear` on it only removes its own keys;
+   * clearing this instance removes the keys of its namespaces as well.
+   *
+   * @param name - The name of the namespace. Namespaces can be nested.
+   * @returns The scoped storage.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage('@myapp:');
+   * const user = storage.namespace('user:42');
+   * user.set('theme', 'dark'); // stored under '@myapp:user:42:theme'
+   * user.clear(); // removes the keys of user 42 only
+   * ```
+   */
+  namespace(name: string): this {
+    const Storage = this.constructor as new (
+      prefix: string,
+      config: StorageConfig,
+    ) => this;
+    return new Storage(`${this.prefix}${name}:`, {
+      ...this.config,
+      migrations: undefined,
+      sweeper: undefined,
+    });
+  }
+
+  /**
+   * Creates an instance of another storage class over the same prefix and configuration,
+   * e.g. a `JSONStorage` for the keys of a `LocalStorage` namespace. The sweeper stays
+   * with this instance.
+   *
+   * @param Storage - The class to instantiate.
+   * @param config - Settings to override in the configuration of the new instance.
+   * @returns The new instance.
+   *
+   * @example
+   * ```typescript
+   * const settings = new LocalStorage('@myapp:').namespace('settings');
+   * settings.derive(JSONStorage).setJSON('layout', { columns: 2 });
+   * ```
+   */
+  derive<S extends LocalStorage>(
+    Storage: new (prefix: string, config: StorageConfig) => S,
+    config: StorageConfig = {},
+  ): S {
+    return new Storage(this.prefix, {
+      ...this.config,
+      sweeper: undefined,
+      ...config,
+    });
+  }
+
+  /**
+   * Lists the keys of the prefix that hold a value that has not expired.
+   * Values are not decoded: compressed values keep their expiry in a readable header.
+   *
+   * @param pattern - Optional key or glob pattern (`user:*`, `cache:**`) or RegExp.
+   * @returns The matching keys, without the prefix.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.keys('user:*'); // ['user:1', 'user:2']
+   * ```
+   */
+  keys(pattern?: KeyPattern): string[] {
+    try {
+      return this.storage
+        .keys()
+        .filter((storageKey) => storageKey.startsWith(this.prefix))
+        .map((storageKey) => storageKey.slice(this.prefix.length))
+        .filter(
+          (key) =>
+            !this.isInternalKey(key) &&
+            (pattern === undefined || matchesPattern(key, pattern)) &&
+            this.isLive(this.storage.getItem(this.prefix + key)),
+        );
+    } catch (error) {
+      console.error("[LocalStorage] Error listing keys:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Iterates over the keys of the prefix and their values. Each value is read,
+   * and decompressed, only when the iteration reaches it.
+   *
+   * @template T - The type of the values.
+   * @param pattern - Optional key or glob pattern (`user:*`, `cache:**`) or RegExp.
+   * @returns An iterator of `[key, value]` pairs.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * for (const [key, user] of storage.entries<User>('user:*')) {
+   *   console.log(key, user.name);
+   * }
+   * ```
+   */
+  *entries<T = unknown>(pattern?: KeyPattern): IterableIterator<[string, T]> {
+    for (const key of this.keys(pattern)) {
+      const value = this.get<T>(key);
+      if (value !== null) yield [key, value];
+    }
+  }
+
+  /**
+   * Iterates asynchronously over the keys of the prefix and their values,
+   * decrypting encrypted values on the way.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * for await (const [key, value] of storage) {
+   *   console.log(key, value);
+   * }
+   * ```
+   */
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<[string, unknown]> {
+    for (const key of this.keys()) {
+      const value = await this.getAsync(key);
+      if (value !== null) yield [key, value];
+    }
+  }
+
+  /**
+   * Retrieves several values at once.
+   *
+   * @template T - The type of the values.
+   * @param keys - The keys to read.
+   * @returns An object mapping each key to its value, or null if it is missing or expired.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * const { theme, locale } = storage.getMany(['theme', 'locale']);
+   * ```
+   */
+  getMany<T = unknown>(keys: string[]): Record<string, T | null> {
+    return Object.fromEntries(keys.map((key) => [key, this.get<T>(key)]));
+  }
+
+  /**
+   * Stores several values in a single transaction: either all of them are written or none.
+   *
+   * @param values - An object mapping each key to the value to store.
+   * @param options - Optional settings for TTL and compression, applied to every value.
+   * @returns Whether the values were written and which keys were evicted to make room.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.setMany({ theme: 'dark', locale: 'en' }, { ttl: 3600000 });
+   * ```
+   */
+  setMany(
+    values: Record<string, unknown>,
+    options: StorageOptions = {},
+  ): SetResult {
+    try {
+      return this.transaction(() => {
+        const evicted: string[] = [];
+        Object.entries(values).forEach(([key, value]) => {
+          evicted.push(...this.set(key, value, options).evicted);
+        });
+        return { success: true, evicted };
+      });
+    } catch (error) {
+      if (this.inTransaction) throw error;
+      console.error("[LocalStorage] Error saving items:", error);
+      return { success: false, evicted: [] };
+    }
+  }
+
+  /**
+   * Removes several items in a single transaction, notifying batch listeners once.
+   *
+   * @param keys - The keys to remove.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.removeMany(['theme', 'locale']);
+   * ```
+   */
+  removeMany(keys: string[]): void {
+    try {
+      this.transaction(() => keys.forEach((key) => this.remove(key)));
+    } catch (error) {
+      if (this.inTransaction) throw error;
+      console.error("[LocalStorage] Error removing items:", error);
+    }
+  }
+
+  /**
+   * Removes every expired item of the prefix. Compressed items are checked without
+   * decompressing them; encrypted items are only expired when read with `getAsync`.
+   *
+   * @returns The keys that were removed.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * const expired = storage.sweep();
+   * console.log(expired); // ['session', 'cache:users']
+   * ```
+   */
+  sweep(): string[] {
+    const expired: string[] = [];
+
+    for (const storageKey of this.storage.keys()) {
+      if (!storageKey.startsWith(this.prefix)) continue;
+
+      try {
+        const storageValue = this.storage.getItem(storageKey);
+        if (!storageValue || isEncrypted(storageValue)) continue;
+
+        const expiresAt = this.getExpiry(storageValue);
+        if (typeof expiresAt !== "number" || Date.now() <= expiresAt) continue;
+
+        const key = storageKey.slice(this.prefix.length);
+        this.expireItem(key, storageValue, this.decodeValue(storageValue));
+        expired.push(key);
+      } catch (error) {
+        console.error("[LocalStorage] Error sweeping item:", error);
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Starts sweeping expired items periodically. With `idle`, each sweep waits for
+   * the browser to be idle, when `requestIdleCallback` is available.
+   * Calling it again replaces the previous schedule.
+   *
+   * @param options - The interval between sweeps, in milliseconds (defaults to 60000), and whether to wait for idle time.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.startSweeper({ interval: 30000, idle: true });
+   * // Later
+   * storage.stopSweeper();
+   * ```
+   */
+  startSweeper(options: SweeperOptions = {}): void {
+    const { interval = 60000, idle = false } = options;
+    this.stopSweeper();
+
+    const run = () => {
+      if (!idle || typeof requestIdleCallback !== "function") {
+        this.sweep();
+        return;
+      }
+
+      const sweeper = this.sweeper;
+      if (!sweeper || sweeper.idle !== undefined) return;
+      sweeper.idle = requestIdleCallback(
+        () => {
+          sweeper.idle = undefined;
+          this.sweep();
+        },
+        { timeout: interval },
+      );
+    };
+
+    this.sweeper = { timer: setInterval(run, interval) };
+  }
+
+  /**
+   * Stops the sweeper started with `startSweeper` or the `sweeper` option.
+   */
+  stopSweeper(): void {
+    if (!this.sweeper) return;
+
+    clearInterval(this.sweeper.timer);
+    if (this.sweeper.idle !== undefined) {
+      cancelIdleCallback(this.sweeper.idle);
+    }
+    this.sweeper = null;
+  }
+
+  /**
+   * Subscribes to the expiration of items, whether found by a read or by the sweeper.
+   * Unlike the key listeners, it is not called when an item is removed manually.
+   *
+   * @param listener - Receives the expired key and its last value.
+   * @returns A function to unsubscribe the listener.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * storage.subscribeExpire((key, oldValue) => {
+   *   if (key === 'session') redirectToLogin();
+   * });
+   * ```
+   */
+  subscribeExpire(listener: StorageExpireListener): () => void {
+    this.expireListeners.add(listener);
+    return () => {
+      this.expireListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribes to changes for a specific key in localStorage.
+   * When the instance was created with `sync`, changes made by other tabs and other
+   * instances with the same prefix are delivered as well.
+   *
+   * @param key - The key to listen for changes.
+   * @param listener - The function to call when the key changes.
+   * @returns A function to unsubscribe the listener.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * const unsubscribe = storage.subscribe('user', (key, newValue, oldValue) => {
+   *   console.log(`User data changed from ${oldValue} to ${newValue}`);
+   * });
+   * // Later, to unsubscribe
+   * unsubscribe();
+   * ```
+   */
+  subscribe(key: string, listener: StorageEventListener): () => void {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+
+    this.listeners.get(key)!.add(listener);
+    this.startSync();
+
+    return () => {
+      const keyListeners = this.listeners.get(key);
+      if (keyListeners) {
+        keyListeners.delete(listener);
+        if (keyListeners.size === 0) {
+          this.listeners.delete(key);
+        }
+      }
+      if (this.listeners.size === 0 && this.batchListeners.size === 0) {
+        this.stopSync();
+      }
+    };
+  }
+
+  /**
+   * Subscribes to every change of the prefix. Changes made in a transaction are
+   * delivered together once it commits; any other change arrives as a batch of one.
+   *
+   * @param listener - Receives the list of changed keys with their new and old values.
+   * @returns A function to unsubscribe the listener.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * const unsubscribe = storage.subscribeBatch((changes) => {
+   *   console.log(changes.map((change) => change.key)); // ['cart', 'cart:total']
+   * });
+   * ```
+   */
+  subscribeBatch(listener: StorageBatchListener): () => void {
+    this.batchListeners.add(listener);
+    this.startSync();
+
+    return () => {
+      this.batchListeners.delete(listener);
+      if (this.listeners.size === 0 && this.batchListeners.size === 0) {
+        this.stopSync();
+      }
+    };
+  }
+
+  /**
+   * Notifies all listeners of a key about changes. Inside a transaction the change
+   * is held, coalesced with earlier changes of the same key, until it commits.
+   *
+   * @param key - The key that changed.
+   * @param newValue - The new value of the key.
+   * @param oldValue - The old value of the key.
+   *
+   * @private
+   */
+  private notifyListeners(key: string, newValue: any, oldValue: any): void {
+    if (this.activeTransaction) {
+      const pending = this.activeTransaction.changes.get(key);
+      this.activeTransaction.changes.set(key, {
+        newValue,
+        oldValue: pending ? pending.oldValue : oldValue,
+      });
+      return;
+    }
+
+    this.dispatch([{ key, newValue, oldValue }]);
+  }
+
+  /**
+   * Calls the key listeners of each change, then the batch listeners once.
+   *
+   * @private
+   */
+  private dispatch(changes: StorageChange[]): void {
+    if (!changes.length) return;
+
+    changes.forEach(({ key, newValue, oldValue }) => {
+      this.listeners.get(key)?.forEach((listener) => {
+        try {
+          listener(key, newValue, oldValue);
+        } catch (error) {
+          console.error("[LocalStorage] Error notifying listener:", error);
+        }
+      });
+    });
+
+    this.batchListeners.forEach((listener) => {
+      try {
+        listener(changes);
+      } catch (error) {
+        console.error("[LocalStorage] Error notifying listener:", error);
+      }
+    });
+  }
+
+  /**
+   * Starts listening to `storage` events and the BroadcastChannel, if sync is enabled.
+   *
+   * @private
+   */
+  private startSync(): void {
+    if (!this.syncChannel || this.syncing) return;
+    this.syncing = true;
+
+    if (typeof window !== "undefined" && window.addEventListener) {
+      window.addEventListener("storage", this.handleStorageEvent);
+    }
+
+    if (!subscribers.has(this.syncChannel)) {
+      subscribers.set(this.syncChannel, new Set());
+    }
+    subscribers.get(this.syncChannel)!.add(this);
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.subscriber = createChannel(this.syncChannel);
+      this.subscriber.onmessage = (event: MessageEvent<SyncMessage>) => {
+        const { key, newValue, oldValue, origin } = event.data;
+        if (origin === ORIGIN) return;
+        this.applyExternalChange(key, newValue, oldValue);
+      };
+    }
+  }
+
+  /**
+   * Stops listening to external changes once the last listener is gone.
+   *
+   * @private
+   */
+  private stopSync(): void {
+    if (!this.syncing) return;
+    this.syncing = false;
+
+    if (typeof window !== "undefined" && window.removeEventListener) {
+      window.removeEventListener("storage", this.handleStorageEvent);
+    }
+
+    const pageSubscribers = subscribers.get(this.syncChannel!);
+    pageSubscribers?.delete(this);
+    if (pageSubscribers?.size === 0) subscribers.delete(this.syncChannel!);
+
+    this.subscriber?.close();
+    this.subscriber = null;
+  }
+
+  /**
+   * Whether the changes of this instance are published: it is synced, or synced
+   * instances of the page are listening.
+   *
+   * @private
+   */
+  private get publishes(): boolean {
+    return !!this.syncChannel || subscribers.size > 0;
+  }
+
+  /**
+   * Checks whether another instance reads and writes the same backend.
+   *
+   * @private
+   */
+  private sharesBackend(other: LocalStorage): boolean {
+    const area = (instance: LocalStorage) => {
+      const backend =
+        instance.backend ?? (isClient() ? instance.storage : null);
+      return backend instanceof WebStorageBackend ? backend.area : backend;
+    };
+    const own = area(this);
+    return own !== null && own === area(other);
+  }
+
+  /**
+   * Publishes a raw change to other tabs and instances.
+   * The synced instances of the page receive it right away: those on the channel of a
+   * synced instance, or those sharing the backend of an instance that is not synced.
+   * Only synced instances post it to other tabs. Inside a transaction the change is held
+   * with the notifications: `commit` publishes the final value of every changed key, and
+   * a rollback publishes nothing.
+   *
+   * @private
+   */
+  private publish(
+    storageKey: string,
+    newValue: string | null,
+    oldValue: string | null,
+  ): void {
+    if (!this.publishes || this.activeTransaction) return;
+
+    if (!this.syncChannel) {
+      subscribers.forEach((instances) =>
+        instances.forEach((instance) => {
+          if (instance !== this && instance.sharesBackend(this)) {
+            instance.applyExternalChange(storageKey, newValue, oldValue);
+          }
+        }),
+      );
+      return;
+    }
+
+    this.lastSeen.set(storageKey, newValue);
+
+    subscribers.get(this.syncChannel)?.forEach((instance) => {
+      if (instance !== this) {
+        instance.applyExternalChange(storageKey, newValue, oldValue);
+      }
+    });
+
+    try {
+      const message: SyncMessage = {
+        key: storageKey,
+        newValue,
+        oldValue,
+        origin: ORIGIN,
+      };
+      getPublisher(this.syncChannel)?.postMessage(message);
+    } catch (error) {
+      console.error("[LocalStorage] Error broadcasting change:", error);
+    }
+  }
+
+  /**
+   * Handles `storage` events fired when another tab changes the same storage area.
+   *
+   * @private
+   */
+  private handleStorageEvent = (event: StorageEvent): void => {
+    const area =
+      this.storage instanceof WebStorageBackend ? this.storage.area : null;
+    if (!area || event.storageArea !== area) return;
+
+    if (event.key === null) {
+      this.listeners.forEach((_, key) =>
+        this.applyExternalChange(this.prefix + key, null, null),
+      );
+      return;
+    }
+
+    this.applyExternalChange(event.key, event.newValue, event.oldValue);
+  };
+
+  /**
+   * Decodes an external raw change and notifies the listeners of its key.
+   * Changes arriving through both the `storage` event and the BroadcastChannel are delivered once.
+   *
+   * @private
+   */
+  private applyExternalChange(
+    storageKey: string,
+    newValue: string | null,
+    oldValue: string | null,
+  ): void {
+    if (!storageKey.startsWith(this.prefix)) return;
+    if (
+      this.lastSeen.has(storageKey) &&
+      this.lastSeen.get(storageKey) === newValue
+    ) {
+      return;
+    }
+
+    this.lastSeen.set(storageKey, newValue);
+    const key = storageKey.slice(this.prefix.length);
+
+    if (
+      this.encryptionKey &&
+      (isEncrypted(newValue) || isEncrypted(oldValue))
+    ) {
+      Promise.all([
+        this.decodeValueAsync(storageKey, newValue),
+        this.decodeValueAsync(storageKey, oldValue),
+      ])
+        .then(([decodedNew, decodedOld]) =>
+          this.notifyListeners(key, decodedNew, decodedOld),
+        )
+        .catch((error) =>
+          console.error(
+            "[LocalStorage] Error decrypting external change:",
+            error,
+          ),
+        );
+      return;
+    }
+
+    this.notifyListeners(
+      key,
+      this.decodeValue(newValue),
+      this.decodeValue(oldValue),
+    );
+  }
+
+  /**
+   * Extracts the value from a raw stored item, decompressing it if needed.
+   *
+   * @param storageValue - The raw string read from the backend.
+   * @returns The stored value, or null if it is missing or cannot be decoded.
+   *
+   * @private
+   */
+  private decodeValue(storageValue: string | null): any {
+    return this.decodeItem(storageValue)?.value ?? null;
+  }
+
+  /**
+   * Extracts the value from a raw stored item, decrypting it if needed.
+   *
+   * @private
+   */
+  private async decodeValueAsync(
+    storageKey: string,
+    storageValue: string | null,
+  ): Promise<any> {
+    if (!isEncrypted(storageValue)) return this.decodeValue(storageValue);
+    return (await this.decryptItem(storageKey, storageValue!))?.value ?? null;
+  }
+
+  /**
+   * Parses a raw stored item, decompressing it if needed.
+   *
+   * @param storageValue - The raw string read from the backend.
+   * @returns The stored item, or null if it is missing or cannot be decoded.
+   *
+   * @private
+   */
+  private decodeItem(storageValue: string | null): StorageItem<any> | null {
+    if (!storageValue) return null;
+
+    let itemStr = storageValue;
+    try {
+      itemStr = this.unpack(storageValue);
+    } catch {}
+
+    try {
+      const item = this.deserialize(itemStr);
+      return item && typeof item === "object" ? item : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Returns the serialized item held by a raw stored value, decompressing it if needed.
+   *
+   * @private
+   */
+  private unpack(storageValue: string): string {
+    if (!storageValue.startsWith(COMPRESSED_PREFIX)) {
+      return decompress(storageValue) || storageValue;
+    }
+
+    const payload = storageValue.slice(
+      storageValue.indexOf(":", COMPRESSED_PREFIX.length) + 1,
+    );
+    return decompress(payload) || payload;
+  }
+
+  /**
+   * Checks whether a raw stored value holds an item that has not expired, reading
+   * the expiry from the header of compressed values instead of decompressing them.
+   * Encrypted values cannot be inspected synchronously and count as live.
+   *
+   * @private
+   */
+  private isLive(storageValue: string | null): boolean {
+    if (!storageValue) return false;
+    if (isEncrypted(storageValue)) return true;
+
+    const expiresAt = this.getExpiry(storageValue);
+    return (
+      expiresAt !== undefined && (expiresAt === null || Date.now() <= expiresAt)
+    );
+  }
+
+  /**
+   * Reads when a raw stored value expires, from the header of compressed values
+   * or from the item itself.
+   *
+   * @returns The expiration time, null if the item never expires, or undefined
+   * if the value is not a readable item.
+   *
+   * @private
+   */
+  private getExpiry(storageValue: string): number | null | undefined {
+    if (storageValue.startsWith(COMPRESSED_PREFIX)) {
+      const expiresAt = storageValue.slice(
+        COMPRESSED_PREFIX.length,
+        storageValue.indexOf(":", COMPRESSED_PREFIX.length),
+      );
+      return expiresAt ? Number(expiresAt) : null;
+    }
+
+    let item: StorageItem<unknown> | null;
+    try {
+      item = JSON.parse(storageValue);
+    } catch {
+      item = this.decodeItem(storageValue);
+    }
+    if (!item || typeof item !== "object") return undefined;
+    return item.ttl ? item.timestamp + item.ttl : null;
+  }
+
+  /**
+   * Records a read of a key, used by the LRU and LFU eviction strategies.
+   *
+   * @private
+   */
+  private recordAccess(key: string): void {
+    if (!this.quota) return;
+    const access = this.accessLog.get(key);
+    this.accessLog.set(key, {
+      lastAccess: Date.now(),
+      hits: (access?.hits ?? 0) + 1,
+    });
+  }
+
+  /**
+   * Checks if an item exists in localStorage and hasn't expired.
+   *
+   * @param key - The key to check.
+   * @returns True if the item exists and hasn't expired, false otherwise.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * if (storage.has('user')) {
+   *   console.log('User data exists and is not expired');
+   * }
+   * ```
+   */
+  has(key: string): boolean {
+    return this.get(key) !== null;
+  }
+
+  /**
+   * Calculates the approximate size in bytes of an item in localStorage.
+   *
+   * @param key - The key of the item to measure.
+   * @returns The size of the item in bytes, or 0 if the item does not exist.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * const size = storage.getSize('user');
+   * console.log(`User data size: ${size} bytes`);
+   * ```
+   */
+  getSize(key: string): number {
+    try {
+      const item = this.storage.getItem(this.prefix + key);
       return item ? new Blob([item]).size : 0;
     } catch (error) {
       console.error("[LocalStorage] Error calculating size:", error);
@@ -326,10 +1786,17 @@ export class LocalStorage implements IStorage {
       const storageValue = this.storage.getItem(this.prefix + key);
 
       if (!storageValue) return null;
+      if (isEncrypted(storageValue)) {
+        console.warn(
+          "[LocalStorage] Encrypted item must be read with getTTLAsync:",
+          key,
+        );
+        return null;
+      }
 
       let itemStr = storageValue;
       try {
-        itemStr = decompress(storageValue) || storageValue;
+        itemStr = this.unpack(storageValue);
       } catch (decompressError) {
         console.warn(
           "[LocalStorage] TTL decompression failed:",
@@ -337,15 +1804,552 @@ export class LocalStorage implements IStorage {
         );
       }
 
-      const item: StorageItem<any> = JSON.parse(itemStr);
+      const item: StorageItem<any> = this.deserialize(itemStr);
+      return this.getRemainingTTL(item);
+    } catch (error) {
+      console.error("[LocalStorage] Error getting TTL:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Describes what is stored under the keys of the prefix, for debugging: the size of
+   * each item, whether it is compressed or encrypted, its remaining TTL, the version of
+   * its shape and a preview of its decoded value. Nothing is read through `get`, so
+   * sliding TTLs, access statistics and migrations are left untouched.
+   *
+   * @param pattern - Optional key or glob pattern (`user:*`, `cache:**`) or RegExp.
+   * @returns One description per live key.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage();
+   * console.table(storage.inspect());
+   * ```
+   */
+  inspect(pattern?: KeyPattern): StorageInspection[] {
+    return this.getSnapshotKeys(pattern).flatMap((key) => {
+      const entry = this.peekEntry(key);
+      if (!entry) return [];
+
+      let preview: string | null = null;
+      if (entry.raw === undefined) {
+        try {
+          const json = JSON.stringify(entry.value) ?? String(entry.value);
+          preview =
+            json.length > PREVIEW_LENGTH
+              ? `${json.slice(0, PREVIEW_LENGTH)}…`
+              : json;
+        } catch {
+          preview = String(entry.value);
+        }
+      }
+
+      return [
+        {
+          key,
+          size: this.getSize(key),
+          compressed: !!this.storage
+            .getItem(this.prefix + key)
+            ?.startsWith(COMPRESSED_PREFIX),
+          encrypted: entry.raw !== undefined,
+          ttl: entry.ttl ?? null,
+          version: entry.version,
+          preview,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Exports the keys of the prefix as a portable bundle that can be written to JSON,
+   * for debugging, backups or seeding test fixtures. Values are exported decoded and
+   * decompressed, with their remaining TTL; encrypted values are exported as stored.
+   * Keys are exported without the prefix, so the bundle can be imported under another one.
+   *
+   * @param pattern - Optional key or glob pattern (`user:*`, `cache:**`) or RegExp.
+   * @returns The snapshot of the matching keys.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage('@myapp:');
+   * const backup = JSON.stringify(storage.exportSnapshot());
+   * ```
+   */
+  exportSnapshot(pattern?: KeyPattern): StorageSnapshot {
+    const entries = this.getSnapshotKeys(pattern).flatMap((key) => {
+      const entry = this.peekEntry(key);
+      return entry ? [entry] : [];
+    });
+
+    return {
+      format: "@brushy/localstorage",
+      version: 1,
+      exportedAt: Date.now(),
+      entries,
+    };
+  }
+
+  /**
+   * Writes the keys of a snapshot made by `exportSnapshot`, in a single transaction.
+   * TTLs restart from the remaining time recorded in the snapshot, and values are
+   * compressed again when they were compressed before. Listeners are notified of every
+   * imported key.
+   *
+   * @param snapshot - The snapshot, or its JSON.
+   * @param options - Whether to clear the keys of the prefix first.
+   * @returns The imported keys.
+   * @throws If the snapshot is not valid, or the quota policy rejects one of its keys.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage('@myapp:');
+   * storage.importSnapshot(backup, { clear: true });
+   * ```
+   */
+  importSnapshot(
+    snapshot: StorageSnapshot | string,
+    options: ImportSnapshotOptions = {},
+  ): string[] {
+    const data: StorageSnapshot =
+      typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+    if (
+      data?.format !== "@brushy/localstorage" ||
+      data.version !== 1 ||
+      !Array.isArray(data.entries)
+    ) {
+      throw new Error("[LocalStorage] Unsupported snapshot format.");
+    }
+
+    return this.transaction(() => {
+      if (options.clear) this.clear();
+      return data.entries.map((entry) => {
+        this.restoreEntry(entry);
+        return entry.key;
+      });
+    });
+  }
+
+  /**
+   * Lists the keys `inspect` and `exportSnapshot` cover.
+   *
+   * @protected
+   */
+  protected getSnapshotKeys(pattern?: KeyPattern): string[] {
+    return this.keys(pattern);
+  }
+
+  /**
+   * Returns the options a key was stored with, so that a subclass rewriting it keeps them.
+   * The TTL is the time left, or the whole window of sliding items.
+   *
+   * @protected
+   */
+  protected getItemOptions(key: string): StorageOptions {
+    const item = this.decodeItem(this.storage.getItem(this.prefix + key));
+    if (!item) return {};
+
+    return {
+      ttl: (item.sliding ? item.ttl : this.getRemainingTTL(item)) ?? undefined,
+      sliding: item.sliding,
+      compress: item.compressed,
+    };
+  }
+
+  /**
+   * Decodes a stored key into a snapshot entry, or returns null if it is missing, expired
+   * or cannot be decoded. Unlike `get`, it has no side effects.
+   *
+   * @protected
+   */
+  protected peekEntry(key: string): StorageSnapshotEntry | null {
+    const storageValue = this.storage.getItem(this.prefix + key);
+    if (!storageValue) return null;
+    if (isEncrypted(storageValue)) return { key, raw: storageValue };
+
+    const item = this.decodeItem(storageValue);
+    if (!item) return null;
+
+    const ttl = this.getRemainingTTL(item);
+    if (ttl === 0) return null;
+
+    return this.decodeSnapshotValue({
+      key,
+      value: item.value,
+      ...(ttl !== null && { ttl }),
+      ...(item.sliding && { sliding: true }),
+      ...(item.compressed && { compressed: true }),
+      ...(item.version !== undefined && { version: item.version }),
+    });
+  }
+
+  /**
+   * Decodes the value of a snapshot entry, as the subclass stores it. Values written with
+   * `set` are exported as they are.
+   *
+   * @protected
+   */
+  protected decodeSnapshotValue(
+    entry: StorageSnapshotEntry,
+  ): StorageSnapshotEntry {
+    return entry;
+  }
+
+  /**
+   * Writes a snapshot entry and notifies the listeners of its key.
+   *
+   * @private
+   */
+  private restoreEntry(entry: StorageSnapshotEntry): void {
+    const storageKey = this.prefix + entry.key;
+    const previous = this.storage.getItem(storageKey);
+    const value =
+      entry.encoding === "json"
+        ? this.serialize(entry.value)
+        : entry.encoding === "lazy"
+          ? JSON.stringify(entry.value)
+          : entry.value;
+
+    const storageValue =
+      entry.raw ??
+      this.encodeItem({
+        value,
+        timestamp: Date.now(),
+        ttl: entry.ttl,
+        sliding: entry.sliding,
+        compressed: entry.compressed,
+        version: entry.version,
+      });
+
+    if (!this.writeItem(entry.key, storageValue, [])) {
+      throw new Error(
+        `[LocalStorage] The quota policy rejected the import of "${entry.key}".`,
+      );
+    }
+
+    this.notifyListeners(
+      entry.key,
+      entry.raw === undefined ? value : null,
+      this.decodeValue(previous),
+    );
+    this.publish(storageKey, storageValue, previous);
+  }
+
+  /**
+   * Stores a value, encrypting it when the `encrypt` option is set. The item is
+   * compressed first, then encrypted with AES-GCM using the current key of the
+   * `encryptionKey` provider. Values without `encrypt` are stored like `set` does.
+   *
+   * @template T - The type of the value to be stored.
+   * @param key - The key under which to store the value.
+   * @param value - The value to store.
+   * @param options - Optional settings for TTL, compression and encryption.
+   * @returns Whether the write succeeded and which keys were evicted to make room for it.
+   *
+   * @example
+   * ```typescript
+   * const storage = new LocalStorage('@myapp:', { encryptionKey: () => ({ id: 'v1', key }) });
+   * await storage.setAsync('auth:token', token, { encrypt: true, ttl: 3600000 });
+   * ```
+   */
+  async setAsync<T>(
+    key: string,
+    value: T,
+    options: StorageOptions = {},
+  ): Promise<SetResult> {
+    if (!options.encrypt) return this.set(key, value, options);
+
+    const evicted: string[] = [];
+
+    try {
+      const storageKey = this.prefix + key;
+      const previous = this.publishes ? this.storage.getItem(storageKey) : null;
+      const oldValue = await this.getAsync(key);
+      const item: StorageItem<T> = {
+        value,
+        timestamp: Date.now(),
+        ttl: options.ttl,
+        sliding: options.sliding,
+        compressed: options.compress,
+        version: this.getVersion(key),
+      };
+
+      const storageValue = await this.encryptItem(key, item);
+
+      if (!this.writeItem(key, storageValue, evicted)) {
+        return { success: false, evicted };
+      }
+
+      this.notifyListeners(key, value, oldValue);
+      this.publish(storageKey, storageValue, previous);
+      return { success: true, evicted };
+    } catch (error) {
+      console.error("[LocalStorage] Error saving item:", error);
+      return { success: false, evicted };
+    }
+  }
+
+  /**
+   * Retrieves a value, decrypting it if it was stored with `encrypt`.
+   *
+   * @template T - The type of the value to be retrieved.
+   * @param key - The key from which to retrieve the value.
+   * @returns The stored value if it exists and hasn't expired, otherwise null.
+   *
+   * @example
+   * ```typescript
+   * const token = await storage.getAsync<string>('auth:token');
+   * ```
+   */
+  async getAsync<T>(key: string): Promise<T | null> {
+    try {
+      const storageKey = this.prefix + key;
+      const storageValue = this.storage.getItem(storageKey);
+      if (!isEncrypted(storageValue)) return this.get<T>(key);
+
+      const item = await this.decryptItem<T>(storageKey, storageValue!);
+      if (!item) return null;
+
+      if (this.isExpired(item)) {
+        this.expireItem(key, storageValue, item.value);
+        return null;
+      }
+
+      this.recordAccess(key);
+
+      const current = this.slide(this.upgradeItem(key, item) ?? item);
+      if (current === item) return item.value;
+
+      this.persistItem(key, await this.encryptItem(key, current));
+      return current.value;
+    } catch (error) {
+      console.error("[LocalStorage] Error retrieving item:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Removes an item, decrypting it first so listeners receive the old value.
+   *
+   * @param key - The key of the item to remove.
+   */
+  async removeAsync(key: string): Promise<void> {
+    try {
+      const storageKey = this.prefix + key;
+      const storageValue = this.storage.getItem(storageKey);
+      if (!isEncrypted(storageValue)) return this.remove(key);
+
+      const oldValue = await this.decodeValueAsync(storageKey, storageValue);
+      this.deleteItem(key, storageValue, oldValue);
+    } catch (error) {
+      console.error("[LocalStorage] Error removing item:", error);
+    }
+  }
+
+  /**
+   * Clears all items that match the current prefix, decrypting them for listeners.
+   */
+  async clearAsync(): Promise<void> {
+    try {
+      const keys = this.storage
+        .keys()
+        .filter(
+          (storageKey) =>
+            storageKey.startsWith(this.prefix) &&
+            !this.isInternalKey(storageKey.slice(this.prefix.length)),
+        );
+
+      for (const storageKey of keys) {
+        await this.removeAsync(storageKey.slice(this.prefix.length));
+      }
+    } catch (error) {
+      console.error("[LocalStorage] Error clearing items:", error);
+    }
+  }
+
+  /**
+   * Checks if an item exists and hasn't expired, decrypting it if needed.
+   *
+   * @param key - The key to check.
+   * @returns True if the item exists and hasn't expired, false otherwise.
+   */
+  async hasAsync(key: string): Promise<boolean> {
+    return (await this.getAsync(key)) !== null;
+  }
 
-      if (!item.ttl) return null;
+  /**
+   * Calculates the remaining time in milliseconds before an item expires, decrypting it if needed.
+   *
+   * @param key - The key of the item to check.
+   * @returns The remaining time in milliseconds, or null if the item does not exist or has no TTL.
+   */
+  async getTTLAsync(key: string): Promise<number | null> {
+    try {
+      const storageKey = this.prefix + key;
+      const storageValue = this.storage.getItem(storageKey);
+      if (!isEncrypted(storageValue)) return this.getTTL(key);
 
-      const elapsed = Date.now() - item.timestamp;
-      return Math.max(0, item.ttl - elapsed);
+      const item = await this.decryptItem(storageKey, storageValue!);
+      return item ? this.getRemainingTTL(item) : null;
     } catch (error) {
       console.error("[LocalStorage] Error getting TTL:", error);
       return null;
     }
   }
+
+  /**
+   * Re-encrypts every entry of the prefix written with an older key, using the
+   * current key of the `encryptionKey` provider. The provider must still resolve
+   * the old key ids while the rotation runs.
+   *
+   * @returns The keys that were re-encrypted.
+   *
+   * @example
+   * ```typescript
+   * const keys = { v1: oldKey, v2: newKey };
+   * const storage = new LocalStorage('@myapp:', {
+   *   encryptionKey: (id = 'v2') => ({ id, key: keys[id] }),
+   * });
+   * await storage.rotateEncryption(); // ['auth:token']
+   * ```
+   */
+  async rotateEncryption(): Promise<string[]> {
+    const provider = this.requireEncryptionKey();
+    const current = await provider();
+    const rotated: string[] = [];
+
+    const keys = this.storage
+      .keys()
+      .filter((storageKey) => storageKey.startsWith(this.prefix));
+
+    for (const storageKey of keys) {
+      const storageValue = this.storage.getItem(storageKey);
+      if (
+        !isEncrypted(storageValue) ||
+        getEncryptionKeyId(storageValue!) === current.id
+      ) {
+        continue;
+      }
+
+      try {
+        const plaintext = await decryptValue(
+          storageValue!,
+          provider,
+          storageKey,
+        );
+        this.storage.setItem(
+          storageKey,
+          await encryptValue(plaintext, current, storageKey),
+        );
+        rotated.push(storageKey.slice(this.prefix.length));
+      } catch (error) {
+        console.error("[LocalStorage] Error rotating encryption key:", error);
+      }
+    }
+
+    return rotated;
+  }
+
+  /**
+   * Checks whether a stored item has outlived its TTL.
+   *
+   * @private
+   */
+  private isExpired(item: StorageItem<unknown>): boolean {
+    return !!item.ttl && Date.now() - item.timestamp > item.ttl;
+  }
+
+  /**
+   * Restarts the TTL of an item stored with `sliding` once a tenth of it has passed,
+   * returning the same item otherwise.
+   *
+   * @private
+   */
+  private slide<T>(item: StorageItem<T>): StorageItem<T> {
+    if (!item.sliding || !item.ttl) return item;
+
+    const elapsed = Date.now() - item.timestamp;
+    if (elapsed < item.ttl * SLIDING_REFRESH_RATIO) return item;
+    return { ...item, timestamp: Date.now() };
+  }
+
+  /**
+   * Removes an expired item and notifies the expire listeners, besides the key listeners.
+   *
+   * @private
+   */
+  private expireItem(
+    key: string,
+    storageValue: string | null,
+    oldValue: unknown,
+  ): void {
+    this.deleteItem(key, storageValue, oldValue);
+    this.expireListeners.forEach((listener) => {
+      try {
+        listener(key, oldValue);
+      } catch (error) {
+        console.error("[LocalStorage] Error notifying listener:", error);
+      }
+    });
+  }
+
+  /**
+   * Returns the time left before an item expires, or null if it has no TTL.
+   *
+   * @private
+   */
+  private getRemainingTTL(item: StorageItem<unknown>): number | null {
+    if (!item.ttl) return null;
+
+    const elapsed = Date.now() - item.timestamp;
+    return Math.max(0, item.ttl - elapsed);
+  }
+
+  /**
+   * Returns the key provider, or throws if encryption was not configured.
+   *
+   * @private
+   */
+  private requireEncryptionKey(): EncryptionKeyProvider {
+    if (!this.encryptionKey) {
+      throw new Error(
+        "[LocalStorage] Encryption requires the encryptionKey option.",
+      );
+    }
+    return this.encryptionKey;
+  }
+
+  /**
+   * Serializes, compresses and encrypts an item with the current key.
+   *
+   * @private
+   */
+  private async encryptItem(
+    key: string,
+    item: StorageItem<unknown>,
+  ): Promise<string> {
+    const provider = this.requireEncryptionKey();
+    return encryptValue(
+      this.encodeItem(item),
+      await provider(),
+      this.prefix + key,
+    );
+  }
+
+  /**
+   * Decrypts and parses a raw encrypted item.
+   *
+   * @private
+   */
+  private async decryptItem<T>(
+    storageKey: string,
+    storageValue: string,
+  ): Promise<StorageItem<T> | null> {
+    const plaintext = await decryptValue(
+      storageValue,
+      this.requireEncryptionKey(),
+      storageKey,
+    );
+    return this.decodeItem(plaintext);
+  }
 }
@@ -0,0 +1,441 @@
+import { JSONStorage } from "./json-storage";
+import { OutboxConflictError } from "../core/errors";
+
+/**
+ * A mutation waiting in an outbox to be sent.
+ */
+export interface OutboxEntry<M> {
+  /**
+   * Idempotency key of the mutation. Enqueuing the same key again does not add a new entry,
+   * and the sender can pass it on so the server applies a replayed mutation only once.
+   */
+  id: string;
+  mutation: M;
+  /**
+   * Number of failed attempts to send it.
+   */
+  attempts: number;
+  createdAt: number;
+  /**
+   * When the next attempt may be made, after a failure.
+   */
+  nextAttemptAt: number;
+  /**
+   * Message of the last error, if an attempt failed.
+   */
+  error?: string;
+}
+
+/**
+ * What to do with a mutation rejected as conflicting: send it again, drop it, or
+ * replace it with a mutation rebased on the current state.
+ */
+export type OutboxConflictResolution<M> = "retry" | "drop" | { mutation: M };
+
+/**
+ * `idle` when nothing is pending, `sending` while mutations are sent, `waiting` while
+ * a failed mutation waits for its next attempt, and `offline` while the browser is offline.
+ */
+export type OutboxStatus = "idle" | "sending" | "waiting" | "offline";
+
+export interface OutboxOptions<M> {
+  /**
+   * Sends a mutation to the server. It must reject for the mutation to be retried,
+   * with an `OutboxConflictError` when the server reports a conflict.
+   */
+  send: (mutation: M, entry: OutboxEntry<M>) => Promise<void>;
+  /**
+   * The storage the queue is persisted in. Defaults to a synced `JSONStorage`.
+   */
+  storage?: JSONStorage;
+  /**
+   * Key the queue is stored under. Defaults to `@brushy/outbox`.
+   */
+  key?: string;
+  /**
+   * Attempts made before a mutation is dropped and `onFailure` is called. Defaults to 5.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, in milliseconds, doubled on every failure. Defaults to 1000.
+   */
+  retryDelay?: number;
+  /**
+   * Longest delay between retries, in milliseconds. Defaults to 60000.
+   */
+  maxRetryDelay?: number;
+  /**
+   * Decides what to do with a conflicting mutation. Conflicting mutations are dropped without it.
+   */
+  onConflict?: (
+    entry: OutboxEntry<M>,
+    error: OutboxConflictError,
+  ) => OutboxConflictResolution<M> | Promise<OutboxConflictResolution<M>>;
+  /**
+   * Called when a mutation is dropped after its last attempt.
+   */
+  onFailure?: (entry: OutboxEntry<M>, error: unknown) => void;
+}
+
+/**
+ * The state of an outbox, as returned by `getSnapshot`.
+ */
+export interface OutboxSnapshot<M> {
+  entries: OutboxEntry<M>[];
+  status: OutboxStatus;
+}
+
+const isOffline = () =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+
+/**
+ * Generates an idempotency key for a mutation enqueued without one.
+ */
+const generateId = (): string =>
+  globalThis.crypto?.randomUUID?.() ??
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * A durable queue of mutations made while offline, or while the server is unreachable.
+ * Mutations are persisted in a `JSONStorage`, so they survive reloads, and are replayed
+ * in order through the sender once the browser is online. A failed mutation is retried
+ * with exponential backoff and blocks the ones enqueued after it until it succeeds,
+ * conflicts or runs out of attempts.
+ *
+ * Several tabs may replay the same queue; pass the idempotency key of each entry on to
+ * the server so that a mutation sent twice is applied once.
+ *
+ * @template M - The type of the mutations, which must be JSON serializable.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new Outbox<TodoMutation>({
+ *   send: async (mutation, { id }) => {
+ *     const response = await fetch("/api/todos", {
+ *       method: "POST",
+ *       headers: { "Idempotency-Key": id },
+ *       body: JSON.stringify(mutation),
+ *     });
+ *     if (response.status === 409) throw new OutboxConflictError(await response.json());
+ *     if (!response.ok) throw new Error(response.statusText);
+ *   },
+ *   onConflict: () => "drop",
+ * });
+ *
+ * outbox.start();
+ * outbox.enqueue({ type: "add", title: "Buy milk" });
+ * ```
+ */
+export class Outbox<M = unknown> {
+  private readonly storage: JSONStorage;
+  private readonly key: string;
+  private listeners: Set<() => void> = new Set();
+  private snapshot: OutboxSnapshot<M> | null = null;
+  private sending: Promise<void> | null = null;
+  private rerun = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private starts = 0;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Creates an outbox. It only sends mutations once started.
+   *
+   * @param options - The sender, where the queue is stored, and how failures and conflicts are handled.
+   */
+  constructor(private readonly options: OutboxOptions<M>) {
+    this.storage =
+      options.storage ?? new JSONStorage(undefined, { sync: true });
+    this.key = options.key ?? "@brushy/outbox";
+    this.storage.pin(this.key);
+  }
+
+  /**
+   * Adds a mutation to the queue and tries to send it if the outbox is started.
+   *
+   * @param mutation - The mutation to send.
+   * @param id - Its idempotency key. Defaults to a random one.
+   * @returns The queued entry, or the existing one if the key was already queued.
+   */
+  enqueue(mutation: M, id: string = generateId()): OutboxEntry<M> {
+    const entries = this.read();
+    const existing = entries.find((entry) => entry.id === id);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const entry: OutboxEntry<M> = {
+      id,
+      mutation,
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+    this.write([...entries, entry]);
+
+    if (this.starts > 0) this.flushInBackground();
+    return entry;
+  }
+
+  /**
+   * Removes a queued mutation without sending it.
+   *
+   * @param id - The idempotency key of the mutation.
+   */
+  discard(id: string): void {
+    this.write(this.read().filter((entry) => entry.id !== id));
+  }
+
+  /**
+   * Returns the queued mutations, in the order they will be sent.
+   */
+  entries(): OutboxEntry<M>[] {
+    return this.getSnapshot().entries;
+  }
+
+  /**
+   * Returns the queued mutations and the status of the outbox. The snapshot keeps its
+   * identity until either changes, as `useSyncExternalStore` expects.
+   */
+  getSnapshot(): OutboxSnapshot<M> {
+    if (!this.snapshot) {
+      const entries = this.read();
+      this.snapshot = { entries, status: this.getStatus(entries) };
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Subscribes to changes of the queue, made in this tab or in others, and of the status.
+   *
+   * @param listener - Called after every change.
+   * @returns A function to unsubscribe the listener.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.storage.subscribe(this.key, () => this.notify());
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.unsubscribe) {
+        this.unsubscribe();
+        this.unsubscribe = null;
+      }
+    };
+  }
+
+  /**
+   * Starts replaying the queue: right away, whenever the browser comes back online,
+   * and when a failed mutation is due to be retried. Calls are counted, so the outbox
+   * keeps running until `stop` has been called as many times.
+   */
+  start(): void {
+    if (this.starts++ > 0) return;
+    if (typeof window !== "undefined" && window.addEventListener) {
+      window.addEventListener("online", this.handleOnline);
+      window.addEventListener("offline", this.handleOffline);
+    }
+    this.flushInBackground();
+  }
+
+  /**
+   * Stops replaying the queue. A mutation being sent is still completed, but the
+   * following ones are left queued.
+   */
+  stop(): void {
+    if (this.starts === 0 || --this.starts > 0) return;
+    if (typeof window !== "undefined" && window.removeEventListener) {
+      window.removeEventListener("online", this.handleOnline);
+      window.removeEventListener("offline", this.handleOffline);
+    }
+    this.clearTimer();
+  }
+
+  /**
+   * Sends the queued mutations that are due, in order, stopping at the first one that
+   * fails. Nothing is sent while the browser is offline. Calls made while the queue is
+   * being sent share the same run, which goes over the queue again once it is over. A
+   * run of a started outbox ends when it is stopped.
+   *
+   * @returns A promise that resolves once the run is over.
+   */
+  flush(): Promise<void> {
+    if (this.sending) {
+      this.rerun = true;
+    } else {
+      this.sending = (async () => {
+        do {
+          this.rerun = false;
+          await this.run();
+        } while (this.rerun);
+      })().finally(() => {
+        this.sending = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.sending;
+  }
+
+  private async run(): Promise<void> {
+    this.clearTimer();
+    const started = this.starts > 0;
+
+    while (!isOffline() && (!started || this.starts > 0)) {
+      const [entry] = this.read();
+      if (!entry) return;
+
+      if (entry.nextAttemptAt > Date.now()) {
+        this.schedule(entry.nextAttemptAt - Date.now());
+        return;
+      }
+
+      try {
+        await this.options.send(entry.mutation, entry);
+        this.discard(entry.id);
+      } catch (error) {
+        const proceed =
+          error instanceof OutboxConflictError
+            ? await this.resolveConflict(entry, error)
+            : this.retry(entry, error);
+        if (!proceed) return;
+      }
+    }
+  }
+
+  /**
+   * Applies the resolution of `onConflict` to a conflicting entry. A replaced mutation
+   * and one to retry both count as a failed attempt and wait like any failed mutation,
+   * so a server that keeps reporting conflicts does not get them in a loop.
+   * @returns Whether the run can go on.
+   */
+  private async resolveConflict(
+    entry: OutboxEntry<M>,
+    error: OutboxConflictError,
+  ): Promise<boolean> {
+    let resolution: OutboxConflictResolution<M> = "drop";
+    try {
+      resolution = (await this.options.onConflict?.(entry, error)) ?? "drop";
+    } catch (callbackError) {
+      console.error("[Outbox] Error resolving conflict:", callbackError);
+    }
+
+    if (resolution === "drop") {
+      this.discard(entry.id);
+      return true;
+    }
+    if (resolution === "retry") return this.retry(entry, error);
+
+    this.update(entry.id, (current) => ({
+      ...current,
+      mutation: resolution.mutation,
+    }));
+    return this.retry({ ...entry, mutation: resolution.mutation }, error);
+  }
+
+  /**
+   * Records a failed attempt and schedules the next one, or drops the entry after its last attempt.
+   * @returns Whether the run can go on with the next entry.
+   */
+  private retry(entry: OutboxEntry<M>, error: unknown): boolean {
+    const attempts = entry.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= (this.options.maxAttempts ?? 5)) {
+      this.discard(entry.id);
+      try {
+        this.options.onFailure?.({ ...entry, attempts, error: message }, error);
+      } catch (callbackError) {
+        console.error("[Outbox] Error notifying failure:", callbackError);
+      }
+      return true;
+    }
+
+    const delay = Math.min(
+      (this.options.retryDelay ?? 1000) * 2 ** (attempts - 1),
+      this.options.maxRetryDelay ?? 60000,
+    );
+    this.update(entry.id, (current) => ({
+      ...current,
+      attempts,
+      nextAttemptAt: Date.now() + delay,
+      error: message,
+    }));
+    this.schedule(delay);
+    return false;
+  }
+
+  private update(
+    id: string,
+    change: (entry: OutboxEntry<M>) => OutboxEntry<M>,
+  ): void {
+    this.write(
+      this.read().map((entry) => (entry.id === id ? change(entry) : entry)),
+    );
+  }
+
+  private read(): OutboxEntry<M>[] {
+    return this.storage.getJSON<OutboxEntry<M>[]>(this.key) ?? [];
+  }
+
+  private write(entries: OutboxEntry<M>[]): void {
+    if (entries.length) {
+      this.storage.setJSON(this.key, entries);
+    } else {
+      this.storage.remove(this.key);
+    }
+    this.notify();
+  }
+
+  private getStatus(entries: OutboxEntry<M>[]): OutboxStatus {
+    if (!entries.length) return "idle";
+    if (isOffline()) return "offline";
+    if (this.timer) return "waiting";
+    return this.sending ? "sending" : "idle";
+  }
+
+  private notify(): void {
+    this.snapshot = null;
+    this.listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error("[Outbox] Error notifying listener:", error);
+      }
+    });
+  }
+
+  private schedule(delay: number): void {
+    if (this.starts === 0) return;
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flushInBackground();
+    }, delay);
+    (this.timer as { unref?: () => void }).unref?.();
+    this.notify();
+  }
+
+  private clearTimer(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Flushes without waiting, reporting errors instead of leaving them unhandled.
+   */
+  private flushInBackground(): void {
+    this.flush().catch((error) =>
+      console.error("[Outbox] Error sending mutations:", error),
+    );
+  }
+
+  private handleOnline = (): void => {
+    this.flushInBackground();
+  };
+
+  private handleOffline = (): void => {
+    this.notify();
+  };
+}
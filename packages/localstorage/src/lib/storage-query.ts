@@ -0,0 +1,178 @@
+import { LocalStorage } from "./localstorage";
+
+export interface StorageQueryOptions {
+  /**
+   * How long fetched data is fresh, in milliseconds. Stale data is still returned,
+   * but revalidated in the background. Defaults to 0, so every read revalidates.
+   */
+  staleTime?: number;
+  /**
+   * How long fetched data is kept in storage, in milliseconds. Defaults to a day.
+   */
+  ttl?: number;
+  /**
+   * Compresses the stored data.
+   */
+  compress?: boolean;
+  /**
+   * The storage the data is cached in. Defaults to a synced `LocalStorage` with the default prefix.
+   */
+  storage?: LocalStorage;
+}
+
+/**
+ * How a query is cached: the fetched data, and when it was fetched.
+ */
+interface QueryEntry<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+
+let defaultStorage: LocalStorage | null = null;
+
+/**
+ * The fetches in flight, by storage and key, so that concurrent reads share them.
+ */
+const inFlight = new WeakMap<LocalStorage, Map<string, Promise<unknown>>>();
+
+const resolveStorage = (options: StorageQueryOptions): LocalStorage =>
+  options.storage ??
+  (defaultStorage ??= new LocalStorage(undefined, { sync: true }));
+
+/**
+ * Reads the cached entry of a key, or null if it is missing or was not written by a query.
+ */
+const readEntry = <T>(
+  key: string,
+  options: StorageQueryOptions,
+): QueryEntry<T> | null => {
+  const entry = resolveStorage(options).get<QueryEntry<T>>(key);
+  return entry && typeof entry.fetchedAt === "number" ? entry : null;
+};
+
+/**
+ * Returns the data cached under a key, without fetching it.
+ *
+ * @template T - The type of the data.
+ * @param key - The key the data is cached under.
+ * @param options - The `storage` the data is cached in.
+ * @returns The cached data, or null if nothing is cached.
+ */
+export function getQueryData<T>(
+  key: string,
+  options: StorageQueryOptions = {},
+): T | null {
+  return readEntry<T>(key, options)?.data ?? null;
+}
+
+/**
+ * Returns whether the data cached under a key is older than `staleTime`, or missing.
+ *
+ * @param key - The key the data is cached under.
+ * @param options - The `staleTime` and `storage` the data is read with.
+ * @returns True if the data should be fetched again.
+ */
+export function isQueryStale(
+  key: string,
+  options: StorageQueryOptions = {},
+): boolean {
+  const entry = readEntry(key, options);
+  if (!entry) return true;
+
+  return Date.now() - entry.fetchedAt >= (options.staleTime ?? 0);
+}
+
+/**
+ * Returns whether a fetch of a key is in flight.
+ *
+ * @param key - The key the data is cached under.
+ * @param options - The `storage` the data is cached in.
+ */
+export function isQueryFetching(
+  key: string,
+  options: StorageQueryOptions = {},
+): boolean {
+  return !!inFlight.get(resolveStorage(options))?.has(key);
+}
+
+/**
+ * Fetches the data of a key and caches it, whether or not the cached data is stale.
+ * While a fetch of the key is in flight, calls share it instead of starting another.
+ *
+ * @template T - The type of the data.
+ * @param key - The key the data is cached under.
+ * @param fetcher - Fetches the data.
+ * @param options - The `ttl`, compression and `storage` the data is cached with.
+ * @returns The fetched data.
+ * @throws The error of the fetcher. The cached data is kept.
+ */
+export function revalidateQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: StorageQueryOptions = {},
+): Promise<T> {
+  const storage = resolveStorage(options);
+  if (!inFlight.has(storage)) inFlight.set(storage, new Map());
+  const fetches = inFlight.get(storage)!;
+
+  const pending = fetches.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const request = (async () => {
+    try {
+      const data = await fetcher();
+      const entry: QueryEntry<T> = { data, fetchedAt: Date.now() };
+      storage.set(key, entry, {
+        ttl: options.ttl ?? DEFAULT_TTL,
+        compress: options.compress,
+      });
+      return data;
+    } finally {
+      fetches.delete(key);
+    }
+  })();
+
+  fetches.set(key, request);
+  return request;
+}
+
+/**
+ * Reads data through a stale-while-revalidate cache kept in storage. Cached data is
+ * returned right away, and fetched again in the background once it is older than
+ * `staleTime`. Without cached data, the data is fetched and cached before returning.
+ * Concurrent reads of a key share a single fetch. The data is stored together with the
+ * time it was fetched, which is how its age is known.
+ *
+ * @template T - The type of the data, which must be serializable by the storage.
+ * @param key - The key the data is cached under.
+ * @param fetcher - Fetches the data.
+ * @param options - How long the data is fresh and kept, whether it is compressed, and the storage it is kept in.
+ * @returns The cached data, or the fetched data when nothing is cached.
+ * @throws The error of the fetcher, when nothing is cached. Errors of background revalidations are logged.
+ *
+ * @example
+ * ```typescript
+ * const user = await storageQuery(
+ *   "user:42",
+ *   () => fetch("/api/users/42").then((response) => response.json()),
+ *   { staleTime: 60000, ttl: 3600000, compress: true },
+ * );
+ * ```
+ */
+export async function storageQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: StorageQueryOptions = {},
+): Promise<T> {
+  const cached = readEntry<T>(key, options);
+  if (!cached) return revalidateQuery(key, fetcher, options);
+
+  if (isQueryStale(key, options)) {
+    revalidateQuery(key, fetcher, options).catch((error) => {
+      console.error("[storageQuery] Error revalidating query:", key, error);
+    });
+  }
+  return cached.data;
+}
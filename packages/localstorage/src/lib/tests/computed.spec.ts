@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { computed } from "../computed";
+import { LocalStorage } from "../localstorage";
+import { MemoryStorageBackend } from "../../backends/memory-backend";
+
+interface CartItem {
+  price: number;
+  quantity: number;
+}
+
+describe("computed", () => {
+  let storage: LocalStorage;
+
+  const cartTotal = (items: CartItem[] | null, currency: string | null) => ({
+    amount: (items ?? []).reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0,
+    ),
+    currency: currency ?? "USD",
+  });
+
+  beforeEach(() => {
+    storage = new LocalStorage("@test:", {
+      backend: new MemoryStorageBackend(),
+    });
+  });
+
+  it("should derive a value from the source keys, with null for missing ones", () => {
+    const fn = vi.fn(cartTotal);
+    const total = computed(["cart:items", "prefs:currency"], fn, { storage });
+
+    expect(total.get()).toEqual({ amount: 0, currency: "USD" });
+
+    storage.set("cart:items", [{ price: 10, quantity: 2 }]);
+    storage.set("prefs:currency", "EUR");
+
+    expect(total.get()).toEqual({ amount: 20, currency: "EUR" });
+    expect(fn).toHaveBeenLastCalledWith([{ price: 10, quantity: 2 }], "EUR");
+  });
+
+  it("should keep the identity of an unchanged value", () => {
+    storage.set("cart:items", [{ price: 10, quantity: 2 }]);
+    const total = computed(["cart:items", "prefs:currency"], cartTotal, {
+      storage,
+    });
+
+    expect(total.get()).toBe(total.get());
+  });
+
+  it("should memoize the value while subscribed", () => {
+    const fn = vi.fn(cartTotal);
+    const total = computed(["cart:items", "prefs:currency"], fn, { storage });
+    const unsubscribe = total.subscribe(() => {});
+    fn.mockClear();
+
+    total.get();
+    total.get();
+    expect(fn).not.toHaveBeenCalled();
+
+    storage.set("prefs:currency", "EUR");
+    expect(fn).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it("should notify subscribers only when the derived value changes", () => {
+    const total = computed(["cart:items", "prefs:currency"], cartTotal, {
+      storage,
+    });
+    const listener = vi.fn();
+    const unsubscribe = total.subscribe(listener);
+
+    storage.set("cart:items", [{ price: 5, quantity: 2 }]);
+    storage.set("cart:items", [{ price: 10, quantity: 1 }]);
+    storage.set("unrelated", true);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ amount: 10, currency: "USD" });
+
+    unsubscribe();
+    storage.set("prefs:currency", "EUR");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should compare values with a custom equals", () => {
+    const total = computed(["cart:items", "prefs:currency"], cartTotal, {
+      storage,
+      equals: (a, b) => a.amount === b.amount,
+    });
+    const listener = vi.fn();
+    total.subscribe(listener);
+
+    storage.set("prefs:currency", "EUR");
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(total.get().currency).toBe("USD");
+  });
+});
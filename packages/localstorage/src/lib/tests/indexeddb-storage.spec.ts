@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { IndexedDBStorage } from "../indexeddb-storage";
+
+describe("IndexedDBStorage", () => {
+  let storage: IndexedDBStorage;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    storage = new IndexedDBStorage("@test:", { indexedDB: new IDBFactory() });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    vi.restoreAllMocks();
+  });
+
+  it("should set and get a value", async () => {
+    await storage.setAsync("user", { name: "John", age: 30 });
+
+    expect(await storage.getAsync("user")).toEqual({ name: "John", age: 30 });
+    expect(await storage.hasAsync("user")).toBe(true);
+  });
+
+  it("should return null for a non-existent key", async () => {
+    expect(await storage.getAsync("missing")).toBeNull();
+    expect(await storage.hasAsync("missing")).toBe(false);
+  });
+
+  it("should round-trip compressed values", async () => {
+    const rows = Array.from({ length: 500 }, (_, i) => ({
+      id: i,
+      title: `Row ${i}`,
+    }));
+
+    await storage.setAsync("rows", rows, {
+      compress: true,
+      compression: { threshold: 128 },
+    });
+
+    expect(await storage.getAsync("rows")).toEqual(rows);
+  });
+
+  it("should round-trip values compressed with the deflate codec", async () => {
+    const rows = Array.from({ length: 500 }, (_, i) => ({ id: i }));
+
+    await storage.setAsync("rows", rows, {
+      compress: true,
+      compression: { threshold: 128, codec: "deflate" },
+    });
+
+    expect(await storage.getAsync("rows")).toEqual(rows);
+  });
+
+  it("should expire values after their TTL", async () => {
+    const now = Date.now();
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(now);
+
+    await storage.setAsync("session", "token", { ttl: 100 });
+    expect(await storage.getTTLAsync("session")).toBe(100);
+
+    nowSpy.mockReturnValue(now + 200);
+
+    expect(await storage.getAsync("session")).toBeNull();
+    expect(await storage.getTTLAsync("session")).toBeNull();
+  });
+
+  it("should return null for getTTLAsync when the item has no TTL", async () => {
+    await storage.setAsync("key", "value");
+    expect(await storage.getTTLAsync("key")).toBeNull();
+  });
+
+  it("should remove a value", async () => {
+    await storage.setAsync("key", "value");
+    await storage.removeAsync("key");
+
+    expect(await storage.getAsync("key")).toBeNull();
+  });
+
+  it("should only clear keys with its own prefix", async () => {
+    const factory = new IDBFactory();
+    const first = new IndexedDBStorage("@first:", { indexedDB: factory });
+    const second = new IndexedDBStorage("@second:", { indexedDB: factory });
+
+    await first.setAsync("a", 1);
+    await first.setAsync("b", 2);
+    await second.setAsync("a", 3);
+
+    await first.clearAsync();
+
+    expect(await first.getAsync("a")).toBeNull();
+    expect(await first.getAsync("b")).toBeNull();
+    expect(await second.getAsync("a")).toBe(3);
+
+    await first.close();
+    await second.close();
+  });
+
+  it("should create a custom store on an existing database", async () => {
+    const factory = new IDBFactory();
+    const items = new IndexedDBStorage("@test:", { indexedDB: factory });
+    await items.setAsync("a", 1);
+
+    const cache = new IndexedDBStorage("@test:", {
+      indexedDB: factory,
+      storeName: "cache",
+    });
+    await cache.setAsync("a", 2);
+
+    expect(await cache.getAsync("a")).toBe(2);
+    expect(await items.getAsync("a")).toBe(1);
+
+    await items.close();
+    await cache.close();
+  });
+
+  it("should notify listeners on set and remove", async () => {
+    const listener = vi.fn();
+    const unsubscribe = storage.subscribe("key", listener);
+
+    await storage.setAsync("key", "first");
+    await storage.setAsync("key", "second");
+    await storage.removeAsync("key");
+
+    expect(listener).toHaveBeenNthCalledWith(1, "key", "first", null);
+    expect(listener).toHaveBeenNthCalledWith(2, "key", "second", "first");
+    expect(listener).toHaveBeenNthCalledWith(3, "key", null, "second");
+
+    unsubscribe();
+    await storage.setAsync("key", "third");
+
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it("should log listener errors without failing the write", async () => {
+    storage.subscribe("key", () => {
+      throw new Error("Listener error");
+    });
+
+    await storage.setAsync("key", "value");
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[IndexedDBStorage] Error notifying listener:",
+      expect.any(Error),
+    );
+    expect(await storage.getAsync("key")).toBe("value");
+  });
+
+  it("should reject writes when IndexedDB is unavailable", async () => {
+    const unsupported = new IndexedDBStorage("@test:", {
+      indexedDB: undefined,
+    });
+    vi.stubGlobal("indexedDB", undefined);
+
+    await expect(unsupported.setAsync("key", "value")).rejects.toThrow(
+      "IndexedDB support",
+    );
+    expect(await unsupported.getAsync("key")).toBeNull();
+
+    vi.unstubAllGlobals();
+  });
+
+  it("should resolve writes with a result", async () => {
+    expect(await storage.setAsync("key", "value")).toEqual({
+      success: true,
+      evicted: [],
+    });
+  });
+
+  it("should reject removals and clears when IndexedDB is unavailable", async () => {
+    const unsupported = new IndexedDBStorage("@test:", {
+      indexedDB: undefined,
+    });
+    vi.stubGlobal("indexedDB", undefined);
+
+    await expect(unsupported.removeAsync("key")).rejects.toThrow(
+      "IndexedDB support",
+    );
+    await expect(unsupported.clearAsync()).rejects.toThrow("IndexedDB support");
+    expect(console.error).toHaveBeenCalledWith(
+      "[IndexedDBStorage] Error removing item:",
+      expect.any(Error),
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      "[IndexedDBStorage] Error clearing items:",
+      expect.any(Error),
+    );
+
+    vi.unstubAllGlobals();
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { JSONStorage } from "../json-storage";
+import { LazyStorage } from "../lazy-storage";
+import { StorageValidationError } from "../../core/errors";
+import type { JSONSchema } from "../../core/types";
 
 describe("JSONStorage", () => {
   let storage: JSONStorage;
@@ -346,4 +349,373 @@ describe("JSONStorage", () => {
       });
     });
   });
+
+  describe("schema validation", () => {
+    const userSchema: JSONSchema = {
+      type: "object",
+      properties: { name: { type: "string" }, age: { type: "number" } },
+      required: ["name"],
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("should reject invalid values in setJSON", () => {
+      storage.registerSchema("user:*", userSchema);
+
+      expect(() => storage.setJSON("user:1", { age: "30" })).toThrow(
+        StorageValidationError,
+      );
+      expect(storage.get("user:1")).toBeNull();
+
+      storage.setJSON("user:1", { name: "John", age: 30 });
+      expect(storage.getJSON("user:1")).toEqual({ name: "John", age: 30 });
+    });
+
+    it("should read and write the covered keys through the registration", () => {
+      const users = storage.registerSchema<{ name: string; age?: number }>(
+        "user:*",
+        userSchema,
+      );
+
+      users.setJSON("user:1", { name: "John", age: 30 });
+      expect(users.getJSON("user:1")?.name).toBe("John");
+      expect(users.safeGetJSON("user:2")).toEqual({
+        success: true,
+        data: null,
+      });
+
+      storage.set("user:3", JSON.stringify({ age: 30 }));
+      expect(users.getJSON("user:3")).toBeNull();
+      expect(users.safeGetJSON("user:3").success).toBe(false);
+
+      expect(() => users.getJSON("settings")).toThrow(/not covered/);
+
+      users();
+      expect(() => storage.setJSON("user:4", { age: "30" })).not.toThrow();
+    });
+
+    it("should only validate keys matching the pattern", () => {
+      storage.registerSchema(/^user:\d+$/, userSchema);
+
+      expect(() => storage.setJSON("user:admin", { age: "30" })).not.toThrow();
+    });
+
+    it("should reject invalid updates and merges", () => {
+      storage.setJSON("user:1", { name: "John", age: 30 });
+      storage.setJSON("ids", [1, 2]);
+      storage.registerSchema("user:*", userSchema);
+      storage.registerSchema("ids", {
+        type: "array",
+        items: { type: "number" },
+      });
+
+      expect(() =>
+        storage.updateJSON<any>("user:1", { age: "thirty" }),
+      ).toThrow(StorageValidationError);
+      expect(() => storage.mergeArrays<any>("ids", ["3"])).toThrow(
+        StorageValidationError,
+      );
+      expect(storage.getJSON("user:1")).toEqual({ name: "John", age: 30 });
+      expect(storage.getJSON("ids")).toEqual([1, 2]);
+    });
+
+    it("should report invalid stored values instead of returning them", () => {
+      storage.setJSON("user:1", { age: 30 });
+      storage.registerSchema("user:*", userSchema);
+
+      expect(storage.getJSON("user:1")).toBeNull();
+      expect(storage.validateJSON("user:1")).toEqual([
+        { path: ["name"], message: "Required" },
+      ]);
+
+      const result = storage.safeGetJSON("user:1");
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error.key).toBe("user:1");
+    });
+
+    it("should report unparsable values from safeGetJSON", () => {
+      storage.set("broken", "{ invalid");
+
+      const result = storage.safeGetJSON("broken");
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error.issues[0].message).toContain(
+        "not valid JSON",
+      );
+    });
+
+    it("should return null data for missing keys", () => {
+      storage.registerSchema("user:*", userSchema);
+
+      expect(storage.safeGetJSON("user:404")).toEqual({
+        success: true,
+        data: null,
+      });
+      expect(storage.validateJSON("user:404")).toEqual([]);
+    });
+
+    it("should store the output of Standard Schema validators", () => {
+      storage.registerSchema("settings", {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: (value: unknown) => ({
+            value: { theme: "light", ...(value as object) },
+          }),
+        },
+      });
+
+      storage.setJSON("settings", { fontSize: 14 });
+
+      expect(storage.getJSON("settings")).toEqual({
+        theme: "light",
+        fontSize: 14,
+      });
+    });
+
+    it("should use the most recently registered validator and allow unregistering", () => {
+      storage.registerSchema("user:*", userSchema);
+      const unregister = storage.registerSchema("user:1", { type: "object" });
+
+      expect(() => storage.setJSON("user:1", { age: 1 })).not.toThrow();
+
+      unregister();
+
+      expect(() => storage.setJSON("user:1", { age: 1 })).toThrow(
+        StorageValidationError,
+      );
+    });
+
+    it("should validate complete lazy values before chunking them", () => {
+      const lazy = new LazyStorage();
+      lazy.registerSchema("user", {
+        type: "object",
+        properties: { posts: { type: "array", items: { type: "string" } } },
+      });
+
+      expect(() =>
+        lazy.setLazy("user", { posts: [1] }, { lazyFields: ["posts"] }),
+      ).toThrow(StorageValidationError);
+
+      lazy.setLazy("user", { posts: ["a", "b"] }, { lazyFields: ["posts"] });
+      expect(lazy.getLazy<{ posts: string[] }>("user")?.posts).toEqual([
+        "a",
+        "b",
+      ]);
+    });
+  });
+
+  describe("migrations", () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("should migrate the parsed JSON value", () => {
+      storage.setJSON("settings", { dark: true });
+      storage.registerMigration({
+        pattern: "settings",
+        version: 1,
+        migrate: ({ dark }) => ({ theme: dark ? "dark" : "light" }),
+      });
+
+      expect(storage.getJSON("settings")).toEqual({ theme: "dark" });
+      expect(storage.get("settings")).toBe('{"theme":"dark"}');
+    });
+
+    it("should validate migrated values", () => {
+      storage.setJSON("settings", { dark: true });
+      storage.registerMigration({
+        pattern: "settings",
+        version: 1,
+        migrate: () => ({ theme: 1 }),
+      });
+      storage.registerSchema("settings", {
+        type: "object",
+        properties: { theme: { type: "string" } },
+      });
+
+      expect(storage.getJSON("settings")).toBeNull();
+    });
+  });
+
+  describe("structured serializer", () => {
+    beforeEach(() => {
+      storage = new JSONStorage("@brushy/json:", { serializer: "structured" });
+    });
+
+    it("should round-trip rich types", () => {
+      const value = { at: new Date(0), tags: new Set(["a"]), count: 1n };
+
+      storage.setJSON("event", value);
+
+      expect(storage.getJSON("event")).toEqual(value);
+      expect(storage.isValidJSON("event")).toBe(true);
+    });
+
+    it("should apply the replacer and reviver", () => {
+      storage.setJSON(
+        "event",
+        { at: new Date(0), secret: "x" },
+        { replacer: (key, value) => (key === "secret" ? undefined : value) },
+      );
+
+      const result = storage.getJSON<{ at: number }>("event", {
+        reviver: (_key, value) =>
+          value instanceof Date ? value.getTime() : value,
+      });
+
+      expect(result).toStrictEqual({ at: 0 });
+    });
+
+    it("should keep rich types through updateJSON", () => {
+      storage.setJSON("event", { at: new Date(0), seen: new Set<string>() });
+
+      const result = storage.updateJSON<{ at: Date; seen: Set<string> }>(
+        "event",
+        { seen: new Set(["john"]) },
+      );
+
+      expect(result?.at).toEqual(new Date(0));
+      expect(storage.getJSON<any>("event").seen).toEqual(new Set(["john"]));
+    });
+  });
+
+  describe("history", () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("should undo and redo writes", () => {
+      storage.enableHistory("form");
+      storage.setJSON("form", { name: "John" });
+      storage.updateJSON("form", { name: "Jane" });
+
+      expect(storage.canUndo("form")).toBe(true);
+      expect(storage.undo("form")).toBe(true);
+      expect(storage.getJSON("form")).toEqual({ name: "John" });
+      expect(storage.canRedo("form")).toBe(true);
+
+      expect(storage.redo("form")).toBe(true);
+      expect(storage.getJSON("form")).toEqual({ name: "Jane" });
+      expect(storage.canRedo("form")).toBe(false);
+    });
+
+    it("should undo a removal and the first write", () => {
+      storage.enableHistory("form:*");
+      storage.setJSON("form:1", { name: "John" });
+      storage.remove("form:1");
+
+      storage.undo("form:1");
+      expect(storage.getJSON("form:1")).toEqual({ name: "John" });
+
+      storage.undo("form:1");
+      expect(storage.getJSON("form:1")).toBeNull();
+      expect(storage.undo("form:1")).toBe(false);
+    });
+
+    it("should drop the redo steps on a new write", () => {
+      storage.enableHistory("form");
+      storage.setJSON("form", { step: 1 });
+      storage.setJSON("form", { step: 2 });
+      storage.undo("form");
+      storage.setJSON("form", { step: 3 });
+
+      expect(storage.canRedo("form")).toBe(false);
+      storage.undo("form");
+      expect(storage.getJSON("form")).toEqual({ step: 1 });
+    });
+
+    it("should keep at most limit steps and skip unchanged writes", () => {
+      storage.enableHistory("counter", { limit: 2 });
+      [1, 2, 2, 3, 4].forEach((count) => storage.setJSON("counter", { count }));
+
+      expect(storage.undo("counter")).toBe(true);
+      expect(storage.undo("counter")).toBe(true);
+      expect(storage.undo("counter")).toBe(false);
+      expect(storage.getJSON("counter")).toEqual({ count: 2 });
+    });
+
+    it("should persist the history next to the value", () => {
+      storage.enableHistory("form", { persist: true });
+      storage.setJSON("form", { name: "John" });
+      storage.setJSON("form", { name: "Jane" });
+
+      const reloaded = new JSONStorage();
+      reloaded.enableHistory("form", { persist: true });
+      reloaded.undo("form");
+
+      expect(reloaded.getJSON("form")).toEqual({ name: "John" });
+      expect(localStorage.getItem("@brushy/json:form:__history__")).not.toBe(
+        null,
+      );
+    });
+
+    it("should keep persisted histories out of the keys of the prefix", () => {
+      storage.enableHistory("form", { persist: true });
+      storage.setJSON("form", { name: "John" });
+      storage.setJSON("form", { name: "Jane" });
+
+      expect(storage.keys()).toEqual(["form"]);
+      expect([...storage.entries()].map(([key]) => key)).toEqual(["form"]);
+      expect(storage.exportSnapshot().entries.map(({ key }) => key)).toEqual([
+        "form",
+      ]);
+
+      storage.clear();
+      expect(storage.getJSON("form")).toBeNull();
+      expect(localStorage.getItem("@brushy/json:form:__history__")).not.toBe(
+        null,
+      );
+    });
+
+    it("should not evict persisted histories to make room", () => {
+      const limited = new JSONStorage("@quota:", { quota: { maxBytes: 400 } });
+      limited.enableHistory("form", { persist: true });
+      limited.setJSON("form", { name: "John" });
+      limited.setJSON("form", { name: "Jane" });
+
+      const { evicted } = limited.setJSON("notes", { text: "x".repeat(100) });
+
+      expect(evicted).not.toContain("form:__history__");
+      expect(limited.canUndo("form")).toBe(true);
+    });
+
+    it("should keep the options of the key when undoing", () => {
+      vi.useFakeTimers();
+      storage.enableHistory("form");
+      storage.setJSON("form", { name: "John" }, { ttl: 1000 });
+      storage.setJSON("form", { name: "Jane" }, { ttl: 1000 });
+
+      storage.undo("form");
+      expect(storage.getJSON("form")).toEqual({ name: "John" });
+      expect(storage.getTTL("form")).toBe(1000);
+
+      vi.advanceTimersByTime(1001);
+      expect(storage.getJSON("form")).toBeNull();
+      vi.useRealTimers();
+    });
+
+    it("should not record keys without history and stop when disabled", () => {
+      const disable = storage.enableHistory("form");
+      storage.setJSON("other", { name: "John" });
+      storage.setJSON("other", { name: "Jane" });
+
+      expect(storage.canUndo("other")).toBe(false);
+
+      disable();
+      expect(storage.canUndo("form")).toBe(false);
+      expect(storage.undo("form")).toBe(false);
+    });
+
+    it("should forget the history with clearHistory", () => {
+      storage.enableHistory("form", { persist: true });
+      storage.setJSON("form", { name: "John" });
+      storage.clearHistory("form");
+
+      expect(storage.canUndo("form")).toBe(false);
+      expect(storage.getJSON("form")).toEqual({ name: "John" });
+    });
+  });
 });
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+import { createLazyArray, LazyArrayMarker } from "../lazy-array";
+
+describe("createLazyArray", () => {
+  const chunks: Record<string, number[]> = {
+    "c:0": [0, 1, 2],
+    "c:1": [3, 4, 5],
+    "c:2": [6],
+  };
+  const marker: LazyArrayMarker = {
+    __lazy: true,
+    type: "array",
+    chunks: ["c:0", "c:1", "c:2"],
+    total: 7,
+    chunkSize: 3,
+  };
+  const setup = (overrides: Partial<LazyArrayMarker> = {}) => {
+    const loadChunk = vi.fn((chunkKey: string) => chunks[chunkKey]);
+    return {
+      list: createLazyArray({ ...marker, ...overrides }, loadChunk),
+      loadChunk,
+    };
+  };
+
+  it("should report the stored total without loading chunks", () => {
+    const { list, loadChunk } = setup();
+
+    expect(list.length).toBe(7);
+    expect(Array.isArray(list)).toBe(true);
+    expect(loadChunk).not.toHaveBeenCalled();
+  });
+
+  it("should load only the chunk holding an accessed index", () => {
+    const { list, loadChunk } = setup();
+
+    expect(list[4]).toBe(4);
+    expect(list[5]).toBe(5);
+    expect(list[7]).toBeUndefined();
+    expect(loadChunk).toHaveBeenCalledTimes(1);
+    expect(loadChunk).toHaveBeenCalledWith("c:1");
+  });
+
+  it("should slice loading only the chunks in range", () => {
+    const { list, loadChunk } = setup();
+
+    expect(list.slice(2, 4)).toEqual([2, 3]);
+    expect(loadChunk.mock.calls).toEqual([["c:0"], ["c:1"]]);
+  });
+
+  it("should behave like the complete array", () => {
+    const { list } = setup();
+
+    expect(list).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(list.map((n) => n * 2)).toEqual([0, 2, 4, 6, 8, 10, 12]);
+    expect(JSON.stringify(list)).toBe("[0,1,2,3,4,5,6]");
+  });
+
+  it("should iterate asynchronously one chunk at a time", async () => {
+    const { list, loadChunk } = setup();
+    const seen: number[] = [];
+
+    for await (const item of list) {
+      seen.push(item);
+      if (item === 2) expect(loadChunk).toHaveBeenCalledTimes(1);
+    }
+
+    expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(loadChunk).toHaveBeenCalledTimes(3);
+  });
+
+  it("should derive the chunk size of markers written without it", () => {
+    const { list, loadChunk } = setup({ chunkSize: undefined });
+
+    expect(list[6]).toBe(6);
+    expect(loadChunk.mock.calls).toEqual([["c:0"], ["c:2"]]);
+  });
+});
@@ -185,6 +185,7 @@ describe("LazyStorage", () => {
           type: "array",
           chunks: expect.any(Array),
           total: 3,
+          chunkSize: 2,
         },
       });
     });
@@ -243,20 +244,14 @@ describe("LazyStorage", () => {
         },
       };
 
-      // Mock do método getJSON para retornar os dados do chunk quando solicitado
-      vi.spyOn(JSONStorage.prototype, "getJSON")
-        .mockImplementationOnce((k) => {
-          if (k === "testKey") {
-            return data;
-          }
-          return null;
-        })
-        .mockImplementationOnce((k) => {
-          if (k === "testKey:hobbies:0") {
-            return ["reading", "swimming"];
-          }
-          return null;
-        });
+      // O pai é lido do armazenamento; o chunk vem do mock de getJSON
+      storage.set(key, JSON.stringify(data));
+      vi.spyOn(JSONStorage.prototype, "getJSON").mockImplementationOnce((k) => {
+        if (k === "testKey:hobbies:0") {
+          return ["reading", "swimming"];
+        }
+        return null;
+      });
 
       // Criar o proxy diretamente usando o método privado
       const proxy = (storage as any).createLazyProxy(key, data);
@@ -374,6 +369,47 @@ describe("LazyStorage", () => {
       expect(result.hobbies).toEqual(["reading", "swimming", "coding"]);
     });
 
+    it("should cache the same lazy array as reading the field", () => {
+      storage.setLazy(
+        "testKey",
+        { hobbies: ["reading", "swimming", "coding"] },
+        { lazyFields: ["hobbies"], chunkSize: 2 },
+      );
+
+      storage.preload("testKey", ["hobbies"]);
+      const getJSON = vi.spyOn(JSONStorage.prototype, "getJSON");
+      const hobbies = storage.getLazy<any>("testKey").hobbies;
+
+      expect(hobbies).toEqual(["reading", "swimming", "coding"]);
+      expect(hobbies[Symbol.asyncIterator]).toBeTypeOf("function");
+      expect(getJSON).not.toHaveBeenCalledWith("testKey:hobbies:1");
+    });
+
+    it("should preload fields of compressed parents", () => {
+      vi.mocked(TypedCompression.compressData).mockImplementationOnce(
+        (data) => `__TC__:${JSON.stringify(data)}`,
+      );
+      vi.mocked(TypedCompression.decompressData).mockImplementation((data) => {
+        try {
+          return JSON.parse(data.replace(/^__TC__:/, ""));
+        } catch {
+          return null;
+        }
+      });
+      storage.setLazy(
+        "testKey",
+        { hobbies: ["reading", "swimming"] },
+        { lazyFields: ["hobbies"], compression: { threshold: 1 } },
+      );
+
+      storage.preload("testKey", ["hobbies"]);
+
+      expect(storage.getLazy<any>("testKey").hobbies).toEqual([
+        "reading",
+        "swimming",
+      ]);
+    });
+
     it("should not preload non-existent fields", () => {
       const key = "testKey";
       const value = { name: "John" };
@@ -404,4 +440,504 @@ describe("LazyStorage", () => {
       expect(after.hobbies).toEqual(["reading", "swimming", "coding"]);
     });
   });
+
+  describe("getLazyArray", () => {
+    it("should load only the chunks of the accessed items", () => {
+      storage.setLazy(
+        "user",
+        { name: "John", posts: Array.from({ length: 10 }, (_, i) => i) },
+        { lazyFields: ["posts"], chunkSize: 3 },
+      );
+      const getJSON = vi.spyOn(JSONStorage.prototype, "getJSON");
+
+      const posts = storage.getLazyArray<number>("user", "posts")!;
+
+      expect(posts.length).toBe(10);
+      expect(posts[7]).toBe(7);
+      expect(posts.slice(6, 8)).toEqual([6, 7]);
+      expect(getJSON.mock.calls).toEqual([["user:posts:2"]]);
+    });
+
+    it("should expose lazy arrays of getLazy as paged collections", () => {
+      storage.setLazy(
+        "user",
+        { name: "John", posts: Array.from({ length: 10 }, (_, i) => i) },
+        { lazyFields: ["posts"], chunkSize: 3 },
+      );
+
+      const user = storage.getLazy<any>("user");
+      const getJSON = vi.spyOn(JSONStorage.prototype, "getJSON");
+
+      expect(user.posts[5]).toBe(5);
+      expect(getJSON).toHaveBeenCalledWith("user:posts:1");
+      expect(getJSON).not.toHaveBeenCalledWith("user:posts:0");
+    });
+
+    it("should return null when the field is not a lazy array", () => {
+      storage.setLazy("user", { name: "John" });
+
+      expect(storage.getLazyArray("user", "name")).toBeNull();
+      expect(storage.getLazyArray("missing", "posts")).toBeNull();
+    });
+  });
+
+  describe("incremental edits", () => {
+    const chunkKeys = () =>
+      Object.keys(localStorage)
+        .filter((key) => key.includes("user:posts:"))
+        .sort();
+
+    beforeEach(() => {
+      storage.setLazy(
+        "user",
+        { name: "John", posts: [0, 1, 2, 3, 4] },
+        { lazyFields: ["posts"], chunkSize: 2 },
+      );
+    });
+
+    it("should append items writing only the last and the new chunks", () => {
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+      storage.appendLazy("user", "posts", [5, 6, 7]);
+
+      const written = setItem.mock.calls.map(([key]) => key);
+      expect(written).not.toContain("@brushy/lazy:user:posts:0");
+      expect(written).not.toContain("@brushy/lazy:user:posts:1");
+      expect(storage.getLazyArray("user", "posts")).toEqual([
+        0, 1, 2, 3, 4, 5, 6, 7,
+      ]);
+      expect(storage.getJSON("user:posts:2")).toEqual([4, 5]);
+      expect(storage.getJSON("user:posts:3")).toEqual([6, 7]);
+    });
+
+    it("should update one item writing only its chunk and the parent", () => {
+      storage.setLazy(
+        "user",
+        { posts: [{ id: 0 }, { id: 1 }, { id: 2 }] },
+        { lazyFields: ["posts"], chunkSize: 2 },
+      );
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+      storage.updateLazyItem("user", "posts", 2, { title: "Post" });
+
+      expect(setItem.mock.calls.map(([key]) => key)).toEqual([
+        "@brushy/lazy:user:posts:1",
+        "@brushy/lazy:user",
+      ]);
+      expect(storage.getLazyArray("user", "posts")).toEqual([
+        { id: 0 },
+        { id: 1 },
+        { id: 2, title: "Post" },
+      ]);
+    });
+
+    it("should update an item with a function", () => {
+      storage.updateLazyItem<number>("user", "posts", 1, (n) => n * 10);
+
+      expect(storage.getLazyArray("user", "posts")).toEqual([0, 10, 2, 3, 4]);
+    });
+
+    it("should notify the parent key when an item is updated", () => {
+      const listener = vi.fn();
+      storage.subscribe("user", listener);
+
+      storage.updateLazyItem<number>("user", "posts", 1, (n) => n * 10);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(storage.getLazy<any>("user").posts[1]).toBe(10);
+    });
+
+    it("should keep the options the parent was stored with", () => {
+      storage.setLazy(
+        "user",
+        { posts: [0, 1, 2] },
+        { lazyFields: ["posts"], chunkSize: 2, ttl: 60000, sliding: true },
+      );
+
+      storage.appendLazy("user", "posts", [3]);
+      storage.updateLazyItem<number>("user", "posts", 0, (n) => n + 1);
+
+      const item = JSON.parse(localStorage.getItem("@brushy/lazy:user")!);
+      expect(item).toMatchObject({ ttl: 60000, sliding: true });
+    });
+
+    it("should reject indexes out of bounds", () => {
+      const result = storage.updateLazyItem("user", "posts", 5, 0);
+
+      expect(result).toEqual({ success: false, evicted: [] });
+      expect(console.error).toHaveBeenCalledWith(
+        "[LazyStorage] Error editing lazy array:",
+        expect.any(RangeError),
+      );
+    });
+
+    it("should remove items and garbage collect empty chunks", () => {
+      const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+      storage.removeLazyItems("user", "posts", 2, 2);
+
+      expect(setItem.mock.calls.map(([key]) => key)).not.toContain(
+        "@brushy/lazy:user:posts:0",
+      );
+      expect(storage.getLazyArray("user", "posts")).toEqual([0, 1, 4]);
+      expect(chunkKeys()).toEqual([
+        "@brushy/lazy:user:posts:0",
+        "@brushy/lazy:user:posts:1",
+      ]);
+    });
+
+    it("should garbage collect chunks when setLazy shrinks an array", () => {
+      storage.setLazy(
+        "user",
+        { name: "John", posts: [0] },
+        { lazyFields: ["posts"], chunkSize: 2 },
+      );
+
+      expect(chunkKeys()).toEqual(["@brushy/lazy:user:posts:0"]);
+      expect(storage.getLazy<any>("user").posts).toEqual([0]);
+    });
+
+    it("should remove the chunks together with the parent", () => {
+      storage.remove("user");
+
+      expect(storage.has("user")).toBe(false);
+      expect(chunkKeys()).toEqual([]);
+    });
+
+    it("should fail when the field is not a lazy array", () => {
+      expect(storage.appendLazy("user", "name", [1])).toEqual({
+        success: false,
+        evicted: [],
+      });
+      expect(storage.get("user:name:0")).toBeNull();
+    });
+  });
+
+  describe("nested lazy fields", () => {
+    const data = {
+      name: "John",
+      profile: { bio: "Hi", history: [1, 2, 3] },
+      projects: [
+        { name: "a", files: ["a1", "a2"] },
+        { name: "b", files: ["b1"] },
+      ],
+    };
+
+    it("should externalize dotted paths and wildcards", () => {
+      storage.setLazy("user", data, {
+        lazyFields: ["profile.history", "projects.*.files"],
+        chunkSize: 2,
+      });
+
+      const parent = JSON.parse(storage.get<string>("user")!);
+      expect(parent.profile.bio).toBe("Hi");
+      expect(parent.profile.history).toMatchObject({
+        __lazy: true,
+        chunks: ["user:profile:history:0", "user:profile:history:1"],
+      });
+      expect(parent.projects[1].files).toMatchObject({
+        __lazy: true,
+        chunks: ["user:projects:1:files:0"],
+      });
+      expect(storage.getJSON("user:projects:0:files:0")).toEqual(["a1", "a2"]);
+    });
+
+    it("should load nested fields on demand through a recursive proxy", () => {
+      storage.setLazy("user", data, {
+        lazyFields: ["profile.history", "projects.*.files"],
+      });
+      const user = storage.getLazy<typeof data>("user")!;
+      const getJSON = vi.spyOn(JSONStorage.prototype, "getJSON");
+
+      expect(user.projects[0].name).toBe("a");
+      expect(getJSON).not.toHaveBeenCalled();
+
+      expect(user.projects[1].files).toEqual(["b1"]);
+      expect(user.profile.history).toEqual([1, 2, 3]);
+      expect(user.profile).toBe(user.profile);
+      expect(getJSON).not.toHaveBeenCalledWith("user:projects:0:files:0");
+    });
+
+    it("should preload nested fields with wildcards", () => {
+      storage.setLazy("user", data, { lazyFields: ["projects.*.files"] });
+
+      storage.preload("user", ["projects.*.files"]);
+      const getJSON = vi.spyOn(JSONStorage.prototype, "getJSON");
+      const user = storage.getLazy<typeof data>("user")!;
+
+      expect(user.projects[0].files).toEqual(["a1", "a2"]);
+      expect(getJSON).not.toHaveBeenCalledWith("user:projects:0:files:0");
+    });
+
+    it("should edit and remove nested lazy arrays", () => {
+      storage.setLazy("user", data, { lazyFields: ["projects.*.files"] });
+
+      storage.appendLazy("user", "projects.1.files", ["b2"]);
+      expect(storage.getLazyArray("user", "projects.1.files")).toEqual([
+        "b1",
+        "b2",
+      ]);
+
+      storage.remove("user");
+      expect(storage.get("user:projects:0:files:0")).toBeNull();
+      expect(storage.get("user:projects:1:files:0")).toBeNull();
+    });
+  });
+
+  describe("transactions", () => {
+    it("should not leave any chunk behind when a chunk write fails", () => {
+      const setItem = Storage.prototype.setItem;
+      vi.spyOn(Storage.prototype, "setItem").mockImplementation(function (
+        this: Storage,
+        key: string,
+        value: string,
+      ) {
+        if (key.endsWith("user:posts:1")) throw new Error("Disk full");
+        setItem.call(this, key, value);
+      });
+
+      const result = storage.setLazy(
+        "user",
+        { name: "John", posts: ["a", "b", "c", "d"] },
+        { lazyFields: ["posts"], chunkSize: 2 },
+      );
+
+      expect(result).toEqual({ success: false, evicted: [] });
+      expect(storage.has("user")).toBe(false);
+      expect(storage.has("user:posts:0")).toBe(false);
+    });
+
+    it("should keep the previous value and chunks when rewriting fails", () => {
+      storage.setLazy(
+        "user",
+        { name: "John", posts: ["a", "b"] },
+        { lazyFields: ["posts"] },
+      );
+      vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+        throw new Error("Disk full");
+      });
+
+      storage.setLazy(
+        "user",
+        { name: "Jane", posts: ["c"] },
+        { lazyFields: ["posts"] },
+      );
+      vi.mocked(Storage.prototype.setItem).mockRestore();
+
+      const user = storage.getLazy<any>("user");
+      expect(user.name).toBe("John");
+      expect(user.posts).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("quota eviction", () => {
+    it("should evict a lazy object together with its chunks", () => {
+      const limited = new LazyStorage("@quota:", {
+        quota: { maxBytes: 900, eviction: "lru" },
+      });
+      const nowSpy = vi.spyOn(Date, "now");
+
+      nowSpy.mockReturnValue(1000);
+      limited.setLazy(
+        "user",
+        {
+          name: "John",
+          posts: Array.from({ length: 6 }, (_, i) => `post ${i}`),
+        },
+        { lazyFields: ["posts"], chunkSize: 2 },
+      );
+      nowSpy.mockReturnValue(2000);
+      limited.setJSON("settings", { theme: "dark" });
+
+      nowSpy.mockReturnValue(3000);
+      const result = limited.setJSON("report", { text: "x".repeat(700) });
+
+      expect(result.success).toBe(true);
+      expect(result.evicted).toEqual(["user"]);
+      expect(limited.keys().sort()).toEqual(["report", "settings"]);
+      expect(limited.getLazy("user")).toBeNull();
+    });
+
+    it("should not evict the object being rewritten to make room for its chunks", () => {
+      const limited = new LazyStorage("@quota:", {
+        quota: { maxBytes: 900, eviction: "ttl-first" },
+      });
+      const posts = (count: number) =>
+        Array.from({ length: count }, (_, i) => `post ${i}`);
+      const nowSpy = vi.spyOn(Date, "now");
+
+      nowSpy.mockReturnValue(1000);
+      limited.setLazy(
+        "user",
+        { name: "John", posts: posts(6) },
+        { lazyFields: ["posts"], chunkSize: 2, ttl: 60000 },
+      );
+      nowSpy.mockReturnValue(2000);
+      limited.setJSON("report", { text: "x".repeat(420) });
+
+      nowSpy.mockReturnValue(3000);
+      const result = limited.setLazy(
+        "user",
+        { name: "John", posts: posts(10) },
+        { lazyFields: ["posts"], chunkSize: 2, ttl: 60000 },
+      );
+
+      expect(result.success).toBe(true);
+      expect(Array.from(limited.getLazy<any>("user").posts)).toEqual(posts(10));
+    });
+  });
+
+  describe("migrations", () => {
+    it("should migrate the complete value and rewrite its chunks", () => {
+      storage.setLazy(
+        "user",
+        { name: "John", posts: ["a", "b", "c", "d", "e"] },
+        { lazyFields: ["posts"], chunkSize: 2 },
+      );
+      storage.registerMigration({
+        pattern: "user",
+        version: 1,
+        migrate: ({ posts, ...user }) => ({
+          ...user,
+          posts: posts.slice(0, 3).map((title: string) => ({ title })),
+        }),
+      });
+
+      const user = storage.getLazy<any>("user");
+
+      expect(user.name).toBe("John");
+      expect(user.posts).toEqual([
+        { title: "a" },
+        { title: "b" },
+        { title: "c" },
+      ]);
+      expect(storage.getJSON("user:posts:0")).toEqual([
+        { title: "a" },
+        { title: "b" },
+      ]);
+      expect(storage.get("user:posts:2")).toBeNull();
+    });
+
+    it("should skip chunks in migrateAll", () => {
+      storage.setLazy(
+        "user",
+        { name: "John", posts: [1, 2, 3] },
+        { lazyFields: ["posts"], chunkSize: 2 },
+      );
+      const migrate = vi.fn((user) => ({ ...user, migrated: true }));
+      storage.registerMigration({ pattern: "**", version: 1, migrate });
+
+      expect(storage.migrateAll()).toEqual(["user"]);
+      expect(migrate).toHaveBeenCalledTimes(1);
+      expect(migrate).toHaveBeenCalledWith(
+        { name: "John", posts: [1, 2, 3] },
+        "user",
+      );
+
+      const user = storage.getLazy<any>("user");
+      expect(user.migrated).toBe(true);
+      expect(user.posts).toEqual([1, 2, 3]);
+    });
+  });
+});
+
+describe("LazyStorage - inspection and snapshots", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should report the chunk layout of lazy fields", () => {
+    const storage = new LazyStorage();
+    storage.setLazy(
+      "user",
+      { name: "John", posts: [1, 2, 3], profile: { bio: "Hi" } },
+      { lazyFields: ["posts", "profile"], chunkSize: 2 },
+    );
+    storage.setJSON("settings", { theme: "dark" });
+
+    const inspections = storage.inspect("user");
+    const user = inspections.find(({ key }) => key === "user")!;
+
+    expect(inspections.map(({ key }) => key).sort()).toEqual([
+      "user",
+      "user:posts:0",
+      "user:posts:1",
+      "user:profile",
+    ]);
+    expect(user.layout).toEqual([
+      {
+        field: "posts",
+        type: "array",
+        keys: ["user:posts:0", "user:posts:1"],
+        total: 3,
+        chunkSize: 2,
+      },
+      { field: "profile", type: "object", keys: ["user:profile"] },
+    ]);
+    expect(inspections.find(({ key }) => key === "user:posts:1")?.parent).toBe(
+      "user",
+    );
+    expect(inspections.find(({ key }) => key === "user:posts:1")?.preview).toBe(
+      "[3]",
+    );
+  });
+
+  it("should export lazy objects and their chunks decoded", () => {
+    const storage = new LazyStorage();
+    storage.setLazy(
+      "user",
+      { name: "John", posts: [1, 2, 3] },
+      { lazyFields: ["posts"], chunkSize: 2 },
+    );
+
+    const { entries } = storage.exportSnapshot("user");
+    const user = entries.find(({ key }) => key === "user");
+    const chunk = entries.find(({ key }) => key === "user:posts:0");
+
+    expect(entries).toHaveLength(3);
+    expect(user).toMatchObject({
+      encoding: "lazy",
+      value: { name: "John", posts: { __lazy: true, total: 3 } },
+    });
+    expect(chunk).toMatchObject({ encoding: "json", value: [1, 2] });
+  });
+
+  it("should restore lazy objects from a snapshot", () => {
+    const source = new LazyStorage("@source:");
+    source.setLazy(
+      "user",
+      { name: "John", posts: [1, 2, 3] },
+      { lazyFields: ["posts"], chunkSize: 2 },
+    );
+    const snapshot = JSON.stringify(source.exportSnapshot());
+
+    const target = new LazyStorage("@target:");
+    target.importSnapshot(snapshot);
+
+    const user = target.getLazy<{ name: string; posts: number[] }>("user");
+    expect(user?.name).toBe("John");
+    expect([...user!.posts]).toEqual([1, 2, 3]);
+  });
+
+  it("should export JSON values of a JSONStorage parsed", () => {
+    const storage = new JSONStorage();
+    storage.setJSON("settings", { theme: "dark" });
+
+    const [entry] = storage.exportSnapshot().entries;
+
+    expect(entry).toEqual({
+      key: "settings",
+      value: { theme: "dark" },
+      encoding: "json",
+    });
+
+    storage.clear();
+    storage.importSnapshot({
+      format: "@brushy/localstorage",
+      version: 1,
+      exportedAt: 0,
+      entries: [entry],
+    });
+    expect(storage.getJSON("settings")).toEqual({ theme: "dark" });
+  });
 });
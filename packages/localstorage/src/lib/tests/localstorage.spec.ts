@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { LocalStorage } from "../localstorage";
+import { MemoryStorageBackend } from "../../backends/memory-backend";
 import * as lzString from "lz-string";
 
 /**
@@ -943,3 +944,1424 @@ describe("LocalStorage - Compressão", () => {
     });
   });
 });
+
+describe("LocalStorage - Sincronização entre abas", () => {
+  let mockLocalStorage: MockLocalStorage;
+
+  const dispatchStorageEvent = (init: {
+    key: string | null;
+    newValue: string | null;
+    oldValue: string | null;
+    storageArea: unknown;
+  }) => {
+    window.dispatchEvent(Object.assign(new Event("storage"), init));
+  };
+
+  const flushMessages = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  beforeEach(() => {
+    mockLocalStorage = new MockLocalStorage();
+    Object.defineProperty(globalThis, "localStorage", {
+      value: mockLocalStorage,
+      writable: true,
+    });
+  });
+
+  it("deve notificar os listeners quando outra aba altera a chave", () => {
+    const storage = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    storage.subscribe("user", listener);
+
+    const oldItem = JSON.stringify({ value: "John", timestamp: Date.now() });
+    const newItem =
+      "compressed:" + JSON.stringify({ value: "Jane", timestamp: Date.now() });
+
+    dispatchStorageEvent({
+      key: "@sync:user",
+      newValue: newItem,
+      oldValue: oldItem,
+      storageArea: mockLocalStorage,
+    });
+
+    expect(listener).toHaveBeenCalledWith("user", "Jane", "John");
+  });
+
+  it("deve ignorar eventos de outros prefixos e de outras áreas", () => {
+    const storage = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    storage.subscribe("user", listener);
+
+    const item = JSON.stringify({ value: "Jane", timestamp: Date.now() });
+    dispatchStorageEvent({
+      key: "@other:user",
+      newValue: item,
+      oldValue: null,
+      storageArea: mockLocalStorage,
+    });
+    dispatchStorageEvent({
+      key: "@sync:user",
+      newValue: item,
+      oldValue: null,
+      storageArea: new MockLocalStorage(),
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("não deve ouvir eventos externos quando sync está desativado", () => {
+    const storage = new LocalStorage("@sync:");
+    const listener = vi.fn();
+    storage.subscribe("user", listener);
+
+    dispatchStorageEvent({
+      key: "@sync:user",
+      newValue: JSON.stringify({ value: "Jane", timestamp: Date.now() }),
+      oldValue: null,
+      storageArea: mockLocalStorage,
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("deve parar de ouvir quando o último listener é removido", () => {
+    const storage = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    const unsubscribe = storage.subscribe("user", listener);
+
+    unsubscribe();
+    dispatchStorageEvent({
+      key: "@sync:user",
+      newValue: JSON.stringify({ value: "Jane", timestamp: Date.now() }),
+      oldValue: null,
+      storageArea: mockLocalStorage,
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("deve entregar alterações de outra instância pelo BroadcastChannel", async () => {
+    const writer = new LocalStorage("@sync:", { sync: true });
+    const reader = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    const unsubscribe = reader.subscribe("user", listener);
+
+    writer.set("user", { name: "Jane" });
+    await flushMessages();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("user", { name: "Jane" }, null);
+
+    writer.remove("user");
+    await flushMessages();
+
+    expect(listener).toHaveBeenLastCalledWith("user", null, { name: "Jane" });
+    unsubscribe();
+  });
+
+  it("não deve notificar duas vezes a mesma alteração", async () => {
+    const writer = new LocalStorage("@sync:", { sync: true });
+    const reader = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    const unsubscribe = reader.subscribe("user", listener);
+
+    writer.set("user", "Jane");
+    await flushMessages();
+
+    dispatchStorageEvent({
+      key: "@sync:user",
+      newValue: mockLocalStorage.getItem("@sync:user"),
+      oldValue: null,
+      storageArea: mockLocalStorage,
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it("deve entregar alterações de outra instância da página imediatamente", async () => {
+    const writer = new LocalStorage("@sync:", { sync: true });
+    const reader = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    const unsubscribe = reader.subscribe("user", listener);
+
+    writer.set("user", "Jane");
+    writer.set("user", "John");
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith("user", "John", "Jane");
+
+    await flushMessages();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it("deve entregar alterações de uma instância sem sync", async () => {
+    const writer = new LocalStorage("@sync:");
+    const reader = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    const unsubscribe = reader.subscribe("user", listener);
+
+    writer.set("user", "Jane");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("user", "Jane", null);
+
+    writer.remove("user");
+    await flushMessages();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith("user", null, "Jane");
+    unsubscribe();
+  });
+
+  it("não deve entregar alterações de uma instância sem sync em outro backend", () => {
+    const writer = new LocalStorage("@sync:", {
+      backend: new MemoryStorageBackend(),
+    });
+    const reader = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    const unsubscribe = reader.subscribe("user", listener);
+
+    writer.set("user", "Jane");
+
+    expect(listener).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it("não deve notificar a própria instância duas vezes", async () => {
+    const storage = new LocalStorage("@sync:", { sync: true });
+    const listener = vi.fn();
+    const unsubscribe = storage.subscribe("user", listener);
+
+    storage.set("user", "Jane");
+    await flushMessages();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+});
+
+describe("LocalStorage - Cota e política de remoção", () => {
+  const quotaError = () =>
+    Object.assign(new Error("Quota exceeded"), { name: "QuotaExceededError" });
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("deve informar sucesso quando a escrita cabe no orçamento", () => {
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 1024 },
+    });
+
+    expect(storage.set("a", "value")).toEqual({ success: true, evicted: [] });
+  });
+
+  it("não deve remover chaves fixadas com pin", () => {
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 100, eviction: "lru" },
+    });
+    const nowSpy = vi.spyOn(Date, "now");
+
+    nowSpy.mockReturnValue(1000);
+    storage.set("first", "x".repeat(20));
+    nowSpy.mockReturnValue(2000);
+    storage.set("second", "x".repeat(20));
+    const unpin = storage.pin("first");
+
+    nowSpy.mockReturnValue(3000);
+    expect(storage.set("third", "x".repeat(20)).evicted).toEqual(["second"]);
+
+    unpin();
+    nowSpy.mockReturnValue(4000);
+    expect(storage.set("fourth", "x".repeat(20)).evicted).toEqual(["first"]);
+  });
+
+  it("deve remover as chaves menos usadas recentemente quando excede o orçamento", () => {
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 100, eviction: "lru" },
+    });
+    const nowSpy = vi.spyOn(Date, "now");
+
+    nowSpy.mockReturnValue(1000);
+    storage.set("first", "x".repeat(20));
+    nowSpy.mockReturnValue(2000);
+    storage.set("second", "x".repeat(20));
+    nowSpy.mockReturnValue(3000);
+    storage.get("first");
+
+    const result = storage.set("third", "x".repeat(20));
+
+    expect(result).toEqual({ success: true, evicted: ["second"] });
+    expect(storage.get("first")).not.toBeNull();
+    expect(storage.get("second")).toBeNull();
+  });
+
+  it("deve remover as chaves menos acessadas com a estratégia lfu", () => {
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 150, eviction: "lfu" },
+    });
+
+    storage.set("popular", "x".repeat(20));
+    storage.set("unpopular", "x".repeat(20));
+    storage.get("popular");
+    storage.get("popular");
+
+    expect(storage.set("new", "x".repeat(20)).evicted).toEqual(["unpopular"]);
+  });
+
+  it("deve remover primeiro os itens mais próximos de expirar com ttl-first", () => {
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 170, eviction: "ttl-first" },
+    });
+
+    storage.set("permanent", "x".repeat(20));
+    storage.set("temporary", "x".repeat(20), { ttl: 1000 });
+
+    expect(storage.set("new", "x".repeat(20)).evicted).toEqual(["temporary"]);
+  });
+
+  it("deve notificar os listeners das chaves removidas", () => {
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 100 },
+    });
+    const listener = vi.fn();
+
+    storage.set("old", "x".repeat(20));
+    storage.subscribe("old", listener);
+    storage.set("new", "x".repeat(20));
+
+    expect(listener).toHaveBeenCalledWith("old", null, "x".repeat(20));
+  });
+
+  it("não deve remover nada quando a escrita não cabe nem após remover tudo", () => {
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 100 },
+    });
+
+    storage.set("small", "x");
+    const result = storage.set("huge", "x".repeat(500));
+
+    expect(result).toEqual({ success: false, evicted: [] });
+    expect(storage.get("small")).toBe("x");
+    expect(storage.get("huge")).toBeNull();
+  });
+
+  it("deve rejeitar a escrita quando onQuotaExceeded retorna false", () => {
+    const onQuotaExceeded = vi.fn().mockReturnValue(false);
+    const storage = new LocalStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 100, onQuotaExceeded },
+    });
+
+    storage.set("old", "x".repeat(20));
+    const result = storage.set("new", "x".repeat(20));
+
+    expect(result).toEqual({ success: false, evicted: [] });
+    expect(onQuotaExceeded).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "new", maxBytes: 100 }),
+    );
+    expect(storage.get("old")).not.toBeNull();
+  });
+
+  it("deve remover chaves e tentar novamente quando o backend lança QuotaExceededError", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@quota:", {
+      backend,
+      quota: { eviction: "lru" },
+    });
+    storage.set("old", "value");
+
+    vi.spyOn(backend, "setItem").mockImplementationOnce(() => {
+      throw quotaError();
+    });
+    const result = storage.set("new", "value");
+
+    expect(result).toEqual({ success: true, evicted: ["old"] });
+    expect(storage.get("new")).toBe("value");
+  });
+
+  it("deve falhar quando o backend lança QuotaExceededError e não há política", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@quota:", { backend });
+    storage.set("old", "value");
+
+    vi.spyOn(backend, "setItem").mockImplementationOnce(() => {
+      throw quotaError();
+    });
+
+    expect(storage.set("new", "value")).toEqual({
+      success: false,
+      evicted: [],
+    });
+    expect(storage.get("old")).toBe("value");
+    expect(console.error).toHaveBeenCalledWith(
+      "[LocalStorage] Error saving item:",
+      expect.any(Error),
+    );
+  });
+
+  it("deve falhar quando não há mais chaves para remover", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@quota:", { backend, quota: {} });
+
+    vi.spyOn(backend, "setItem").mockImplementation(() => {
+      throw quotaError();
+    });
+
+    expect(storage.set("new", "value")).toEqual({
+      success: false,
+      evicted: [],
+    });
+  });
+});
+
+describe("LocalStorage - Migrações de versão", () => {
+  const legacyItem = (value: unknown, extra = {}) =>
+    JSON.stringify({ value, timestamp: Date.now(), ...extra });
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("deve gravar a versão atual da chave no item", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@mig:", {
+      backend,
+      migrations: [{ pattern: "user:*", version: 2, migrate: (v) => v }],
+    });
+
+    storage.set("user:1", { name: "John" });
+    storage.set("other", 1);
+
+    expect(JSON.parse(backend.getItem("@mig:user:1")!).version).toBe(2);
+    expect(JSON.parse(backend.getItem("@mig:other")!).version).toBeUndefined();
+  });
+
+  it("deve migrar valores antigos na leitura, em ordem de versão, e regravá-los", () => {
+    const backend = new MemoryStorageBackend({
+      "@mig:user:1": legacyItem({ name: "John" }, { ttl: 60000 }),
+    });
+    const storage = new LocalStorage("@mig:", { backend });
+    storage.registerMigration({
+      pattern: "user:*",
+      version: 2,
+      migrate: (user, key) => ({ ...user, id: key }),
+    });
+    storage.registerMigration({
+      pattern: "user:*",
+      version: 1,
+      migrate: ({ name }) => ({ fullName: name }),
+    });
+
+    expect(storage.get("user:1")).toEqual({ fullName: "John", id: "user:1" });
+
+    const stored = JSON.parse(backend.getItem("@mig:user:1")!);
+    expect(stored.version).toBe(2);
+    expect(stored.ttl).toBe(60000);
+    expect(stored.value).toEqual({ fullName: "John", id: "user:1" });
+  });
+
+  it("deve executar apenas as migrações pendentes", () => {
+    const backend = new MemoryStorageBackend({
+      "@mig:count": legacyItem(10, { version: 1 }),
+    });
+    const first = vi.fn((v: number) => v + 1);
+    const second = vi.fn((v: number) => v * 2);
+    const storage = new LocalStorage("@mig:", {
+      backend,
+      migrations: [
+        { pattern: "count", version: 1, migrate: first },
+        { pattern: "count", version: 2, migrate: second },
+      ],
+    });
+
+    expect(storage.get("count")).toBe(20);
+    expect(storage.get("count")).toBe(20);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("deve migrar todas as chaves do prefixo com migrateAll", () => {
+    const backend = new MemoryStorageBackend({
+      "@mig:a": legacyItem(1),
+      "@mig:b": legacyItem(2),
+      "@mig:c": legacyItem(3, { version: 1 }),
+      "@other:a": legacyItem(4),
+    });
+    const storage = new LocalStorage("@mig:", {
+      backend,
+      migrations: [{ pattern: "**", version: 1, migrate: (v) => v * 10 }],
+    });
+
+    expect(storage.migrateAll().sort()).toEqual(["a", "b"]);
+    expect(JSON.parse(backend.getItem("@mig:a")!).value).toBe(10);
+    expect(JSON.parse(backend.getItem("@mig:c")!).value).toBe(3);
+    expect(JSON.parse(backend.getItem("@other:a")!).value).toBe(4);
+  });
+
+  it("deve manter o item original quando uma migração falha", () => {
+    const raw = legacyItem("value");
+    const backend = new MemoryStorageBackend({ "@mig:key": raw });
+    const storage = new LocalStorage("@mig:", { backend });
+    storage.registerMigration({
+      pattern: "key",
+      version: 1,
+      migrate: () => {
+        throw new Error("boom");
+      },
+    });
+
+    expect(storage.get("key")).toBeNull();
+    expect(storage.migrateAll()).toEqual([]);
+    expect(backend.getItem("@mig:key")).toBe(raw);
+    expect(console.error).toHaveBeenCalledWith(
+      "[LocalStorage] Error migrating item:",
+      expect.any(Error),
+    );
+  });
+
+  it("deve parar de migrar após remover o registro", () => {
+    const backend = new MemoryStorageBackend({ "@mig:key": legacyItem(1) });
+    const storage = new LocalStorage("@mig:", { backend });
+    const unregister = storage.registerMigration({
+      pattern: "key",
+      version: 1,
+      migrate: (v) => v + 1,
+    });
+
+    unregister();
+
+    expect(storage.get("key")).toBe(1);
+  });
+});
+
+describe("LocalStorage - Criptografia", () => {
+  const createKey = () =>
+    globalThis.crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("deve cifrar o item e decifrá-lo nas leituras assíncronas", async () => {
+    const key = await createKey();
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@enc:", {
+      backend,
+      encryptionKey: () => ({ id: "v1", key }),
+    });
+
+    const result = await storage.setAsync(
+      "auth:token",
+      { token: "secret-token" },
+      { encrypt: true, ttl: 60000 },
+    );
+
+    const raw = backend.getItem("@enc:auth:token")!;
+    expect(result).toEqual({ success: true, evicted: [] });
+    expect(raw.startsWith("__ENC__:v1:")).toBe(true);
+    expect(raw).not.toContain("secret-token");
+    expect(await storage.getAsync("auth:token")).toEqual({
+      token: "secret-token",
+    });
+    expect(await storage.hasAsync("auth:token")).toBe(true);
+    expect(await storage.getTTLAsync("auth:token")).toBeGreaterThan(59000);
+  });
+
+  it("deve cifrar depois de comprimir", async () => {
+    const key = await createKey();
+    const storage = new LocalStorage("@enc:", {
+      backend: new MemoryStorageBackend(),
+      encryptionKey: () => ({ id: "v1", key }),
+    });
+    const value = "x".repeat(2000);
+
+    await storage.setAsync("big", value, { encrypt: true, compress: true });
+
+    expect(lzString.compress).toHaveBeenCalled();
+    expect(await storage.getAsync("big")).toBe(value);
+  });
+
+  it("não deve expor itens cifrados nas leituras síncronas", async () => {
+    const key = await createKey();
+    const storage = new LocalStorage("@enc:", {
+      backend: new MemoryStorageBackend(),
+      encryptionKey: () => ({ id: "v1", key }),
+    });
+    await storage.setAsync("token", "secret", { encrypt: true, ttl: 1000 });
+
+    expect(storage.get("token")).toBeNull();
+    expect(storage.getTTL("token")).toBeNull();
+    expect(storage.set("other", "value", { encrypt: true }).success).toBe(
+      false,
+    );
+  });
+
+  it("deve notificar o valor decifrado ao remover", async () => {
+    const key = await createKey();
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@enc:", {
+      backend,
+      encryptionKey: () => ({ id: "v1", key }),
+    });
+    const listener = vi.fn();
+    await storage.setAsync("token", "secret", { encrypt: true });
+    storage.subscribe("token", listener);
+
+    await storage.removeAsync("token");
+
+    expect(listener).toHaveBeenCalledWith("token", null, "secret");
+    expect(backend.getItem("@enc:token")).toBeNull();
+  });
+
+  it("deve rejeitar um valor cifrado movido para outra chave", async () => {
+    const key = await createKey();
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@enc:", {
+      backend,
+      encryptionKey: () => ({ id: "v1", key }),
+    });
+    await storage.setAsync("a", "secret", { encrypt: true });
+    backend.setItem("@enc:b", backend.getItem("@enc:a")!);
+
+    expect(await storage.getAsync("b")).toBeNull();
+    expect(console.error).toHaveBeenCalledWith(
+      "[LocalStorage] Error retrieving item:",
+      expect.anything(),
+    );
+  });
+
+  it("deve recifrar as entradas antigas ao rotacionar a chave", async () => {
+    const keys: Record<string, CryptoKey> = {
+      v1: await createKey(),
+      v2: await createKey(),
+    };
+    const backend = new MemoryStorageBackend();
+    const legacy = new LocalStorage("@enc:", {
+      backend,
+      encryptionKey: () => ({ id: "v1", key: keys.v1 }),
+    });
+    await legacy.setAsync("token", "secret", { encrypt: true });
+    legacy.set("plain", "value");
+
+    const storage = new LocalStorage("@enc:", {
+      backend,
+      encryptionKey: (id = "v2") => ({ id, key: keys[id] }),
+    });
+
+    expect(await storage.rotateEncryption()).toEqual(["token"]);
+    expect(backend.getItem("@enc:token")!.startsWith("__ENC__:v2:")).toBe(true);
+    expect(await storage.rotateEncryption()).toEqual([]);
+
+    delete keys.v1;
+    expect(await storage.getAsync("token")).toBe("secret");
+    expect(await storage.getAsync("plain")).toBe("value");
+  });
+
+  it("deve renovar o TTL deslizante dos itens cifrados", async () => {
+    const key = await createKey();
+    const storage = new LocalStorage("@enc:", {
+      backend: new MemoryStorageBackend(),
+      encryptionKey: () => ({ id: "v1", key }),
+    });
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+
+    await storage.setAsync("session", "token", {
+      encrypt: true,
+      ttl: 100,
+      sliding: true,
+    });
+
+    nowSpy.mockReturnValue(1080);
+    expect(await storage.getAsync("session")).toBe("token");
+    nowSpy.mockReturnValue(1150);
+    expect(await storage.getAsync("session")).toBe("token");
+    expect(await storage.getTTLAsync("session")).toBe(100);
+  });
+
+  it("deve exigir o provedor de chaves para gravar cifrado", async () => {
+    const storage = new LocalStorage("@enc:", {
+      backend: new MemoryStorageBackend(),
+    });
+
+    expect(
+      await storage.setAsync("token", "secret", { encrypt: true }),
+    ).toEqual({ success: false, evicted: [] });
+  });
+});
+
+describe("LocalStorage - Transações", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("deve gravar todas as alterações quando a transação termina", () => {
+    const storage = new LocalStorage("@tx:", {
+      backend: new MemoryStorageBackend(),
+    });
+    storage.set("draft", "rascunho");
+
+    const result = storage.transaction((tx) => {
+      tx.set("a", 1);
+      tx.set("b", 2);
+      tx.remove("draft");
+      return "ok";
+    });
+
+    expect(result).toBe("ok");
+    expect(storage.get("a")).toBe(1);
+    expect(storage.get("b")).toBe(2);
+    expect(storage.get("draft")).toBeNull();
+  });
+
+  it("deve desfazer todas as alterações quando a função lança um erro", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@tx:", { backend });
+    storage.set("a", "original");
+    const before = backend.getItem("@tx:a");
+
+    expect(() =>
+      storage.transaction((tx) => {
+        tx.set("a", "alterado");
+        tx.set("b", 2);
+        throw new Error("falha");
+      }),
+    ).toThrow("falha");
+
+    expect(backend.getItem("@tx:a")).toBe(before);
+    expect(backend.getItem("@tx:b")).toBeNull();
+  });
+
+  it("deve desfazer a transação quando a política de cota rejeita uma escrita", () => {
+    const storage = new LocalStorage("@tx:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 100, onQuotaExceeded: () => false },
+    });
+    storage.set("a", "x");
+
+    expect(() =>
+      storage.transaction((tx) => {
+        tx.remove("a");
+        tx.set("big", "x".repeat(200));
+      }),
+    ).toThrow(/big/);
+
+    expect(storage.get("a")).toBe("x");
+    expect(storage.has("big")).toBe(false);
+  });
+
+  it("deve notificar os ouvintes uma única vez após o commit", () => {
+    const storage = new LocalStorage("@tx:", {
+      backend: new MemoryStorageBackend(),
+    });
+    storage.set("a", 0);
+    const listener = vi.fn();
+    storage.subscribe("a", listener);
+
+    storage.transaction((tx) => {
+      tx.set("a", 1);
+      expect(listener).not.toHaveBeenCalled();
+      tx.set("a", 2);
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("a", 2, 0);
+  });
+
+  it("deve entregar todas as alterações em um único lote", () => {
+    const storage = new LocalStorage("@tx:", {
+      backend: new MemoryStorageBackend(),
+    });
+    const batch = vi.fn();
+    storage.subscribeBatch(batch);
+
+    storage.transaction((tx) => {
+      tx.set("a", 1);
+      tx.set("b", 2);
+    });
+    storage.set("c", 3);
+
+    expect(batch).toHaveBeenCalledTimes(2);
+    expect(batch).toHaveBeenNthCalledWith(1, [
+      { key: "a", newValue: 1, oldValue: null },
+      { key: "b", newValue: 2, oldValue: null },
+    ]);
+    expect(batch).toHaveBeenNthCalledWith(2, [
+      { key: "c", newValue: 3, oldValue: null },
+    ]);
+  });
+
+  it("não deve notificar ninguém quando a transação é desfeita", () => {
+    const storage = new LocalStorage("@tx:", {
+      backend: new MemoryStorageBackend(),
+    });
+    const listener = vi.fn();
+    const batch = vi.fn();
+    storage.subscribe("a", listener);
+    storage.subscribeBatch(batch);
+
+    expect(() =>
+      storage.transaction((tx) => {
+        tx.set("a", 1);
+        throw new Error("falha");
+      }),
+    ).toThrow();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(batch).not.toHaveBeenCalled();
+  });
+
+  it("deve publicar as alterações para outras instâncias apenas no commit", () => {
+    const backend = new MemoryStorageBackend();
+    const writer = new LocalStorage("@tx:", { backend, sync: true });
+    const reader = new LocalStorage("@tx:", { backend, sync: true });
+    const listener = vi.fn();
+    const unsubscribe = reader.subscribe("a", listener);
+
+    expect(() =>
+      writer.transaction((tx) => {
+        tx.set("a", 1);
+        tx.remove("a");
+        tx.set("a", 2);
+        throw new Error("falha");
+      }),
+    ).toThrow();
+    expect(listener).not.toHaveBeenCalled();
+
+    writer.transaction((tx) => {
+      tx.set("a", 1);
+      expect(listener).not.toHaveBeenCalled();
+      tx.set("a", 2);
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("a", 2, null);
+    unsubscribe();
+  });
+
+  it("deve incorporar transações aninhadas à transação externa", () => {
+    const storage = new LocalStorage("@tx:", {
+      backend: new MemoryStorageBackend(),
+    });
+
+    expect(() =>
+      storage.transaction((tx) => {
+        tx.transaction((inner) => inner.set("a", 1));
+        tx.set("b", 2);
+        throw new Error("falha");
+      }),
+    ).toThrow();
+
+    expect(storage.has("a")).toBe(false);
+    expect(storage.has("b")).toBe(false);
+  });
+
+  it("deve rejeitar funções assíncronas", () => {
+    const storage = new LocalStorage("@tx:", {
+      backend: new MemoryStorageBackend(),
+    });
+
+    expect(() =>
+      storage.transaction(async (tx) => {
+        tx.set("a", 1);
+      }),
+    ).toThrow("[LocalStorage] Transactions must be synchronous.");
+    expect(storage.has("a")).toBe(false);
+  });
+});
+
+describe("LocalStorage - Consultas e iteração", () => {
+  const createStorage = () =>
+    new LocalStorage("@q:", { backend: new MemoryStorageBackend() });
+
+  it("deve listar as chaves do prefixo filtrando por padrão", () => {
+    const backend = new MemoryStorageBackend({ "@other:user:9": "{}" });
+    const storage = new LocalStorage("@q:", { backend });
+    storage.set("user:1", 1);
+    storage.set("user:1:posts", []);
+    storage.set("settings", {});
+
+    expect(storage.keys().sort()).toEqual([
+      "settings",
+      "user:1",
+      "user:1:posts",
+    ]);
+    expect(storage.keys("user:*")).toEqual(["user:1"]);
+    expect(storage.keys("user:**").sort()).toEqual(["user:1", "user:1:posts"]);
+    expect(storage.keys(/^set/)).toEqual(["settings"]);
+  });
+
+  it("deve omitir chaves expiradas sem descomprimir valores", () => {
+    const storage = createStorage();
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+    storage.set("fresh", "x".repeat(2000), { compress: true, ttl: 5000 });
+    storage.set("stale", "x".repeat(2000), { compress: true, ttl: 100 });
+    storage.set("plain", 1, { ttl: 100 });
+    vi.mocked(lzString.decompress).mockClear();
+
+    nowSpy.mockReturnValue(2000);
+
+    expect(storage.keys()).toEqual(["fresh"]);
+    expect(lzString.decompress).not.toHaveBeenCalled();
+    expect(storage.get("fresh")).toBe("x".repeat(2000));
+  });
+
+  it("deve iterar sobre as entradas lendo cada valor sob demanda", () => {
+    const storage = createStorage();
+    storage.set("a", 1);
+    storage.set("b", 2);
+    const getSpy = vi.spyOn(storage, "get");
+
+    const iterator = storage.entries<number>();
+    expect(getSpy).not.toHaveBeenCalled();
+
+    expect(iterator.next().value).toEqual(["a", 1]);
+    expect(getSpy).toHaveBeenCalledTimes(1);
+    expect([...iterator]).toEqual([["b", 2]]);
+  });
+
+  it("deve suportar iteração assíncrona", async () => {
+    const storage = createStorage();
+    storage.set("a", 1);
+    storage.set("b", 2);
+
+    const entries: [string, unknown][] = [];
+    for await (const entry of storage) {
+      entries.push(entry);
+    }
+
+    expect(entries).toEqual([
+      ["a", 1],
+      ["b", 2],
+    ]);
+  });
+
+  it("deve ler e gravar várias chaves de uma vez", () => {
+    const storage = createStorage();
+    const batch = vi.fn();
+    storage.subscribeBatch(batch);
+
+    expect(storage.setMany({ a: 1, b: 2 })).toEqual({
+      success: true,
+      evicted: [],
+    });
+    expect(storage.getMany(["a", "b", "c"])).toEqual({ a: 1, b: 2, c: null });
+    expect(batch).toHaveBeenCalledTimes(1);
+
+    storage.removeMany(["a", "b"]);
+
+    expect(storage.keys()).toEqual([]);
+    expect(batch).toHaveBeenCalledTimes(2);
+  });
+
+  it("não deve gravar nenhuma chave quando uma escrita de setMany falha", () => {
+    const storage = new LocalStorage("@q:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 100, onQuotaExceeded: () => false },
+    });
+
+    const result = storage.setMany({ a: 1, big: "x".repeat(200) });
+
+    expect(result).toEqual({ success: false, evicted: [] });
+    expect(storage.keys()).toEqual([]);
+  });
+
+  it("deve limpar apenas as chaves que correspondem ao padrão", () => {
+    const storage = createStorage();
+    storage.set("session:1", 1);
+    storage.set("session:2", 2);
+    storage.set("settings", {});
+
+    storage.clear("session:*");
+
+    expect(storage.keys()).toEqual(["settings"]);
+  });
+});
+
+describe("LocalStorage - Expiração em segundo plano", () => {
+  const createStorage = () =>
+    new LocalStorage("@ttl:", { backend: new MemoryStorageBackend() });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("deve remover os itens expirados do prefixo", () => {
+    const storage = createStorage();
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+    storage.set("stale", 1, { ttl: 100 });
+    storage.set("big", "x".repeat(2000), { ttl: 100, compress: true });
+    storage.set("fresh", 2, { ttl: 5000 });
+    storage.set("forever", 3);
+    nowSpy.mockReturnValue(2000);
+
+    expect(storage.sweep().sort()).toEqual(["big", "stale"]);
+    expect(storage.keys().sort()).toEqual(["forever", "fresh"]);
+  });
+
+  it("deve emitir o evento de expiração apenas para itens expirados", () => {
+    const storage = createStorage();
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+    const onExpire = vi.fn();
+    const listener = vi.fn();
+    storage.subscribeExpire(onExpire);
+    storage.subscribe("session", listener);
+    storage.set("session", "token", { ttl: 100 });
+    storage.set("manual", 1);
+
+    storage.remove("manual");
+    nowSpy.mockReturnValue(2000);
+    storage.sweep();
+
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(onExpire).toHaveBeenCalledWith("session", "token");
+    expect(listener).toHaveBeenLastCalledWith("session", null, "token");
+  });
+
+  it("deve emitir o evento de expiração quando uma leitura encontra um item expirado", () => {
+    const storage = createStorage();
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+    const onExpire = vi.fn();
+    storage.subscribeExpire(onExpire);
+    storage.set("session", "token", { ttl: 100 });
+
+    nowSpy.mockReturnValue(2000);
+
+    expect(storage.get("session")).toBeNull();
+    expect(onExpire).toHaveBeenCalledWith("session", "token");
+  });
+
+  it("deve varrer periodicamente até ser parado", () => {
+    vi.useFakeTimers();
+    const storage = createStorage();
+    storage.set("session", "token", { ttl: 100 });
+    const sweepSpy = vi.spyOn(storage, "sweep");
+
+    storage.startSweeper({ interval: 1000 });
+    vi.advanceTimersByTime(1000);
+
+    expect(sweepSpy).toHaveBeenCalledTimes(1);
+    expect(storage.keys()).toEqual([]);
+
+    storage.stopSweeper();
+    vi.advanceTimersByTime(5000);
+    expect(sweepSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("deve iniciar o varredor pela configuração", () => {
+    vi.useFakeTimers();
+    const storage = new LocalStorage("@ttl:", {
+      backend: new MemoryStorageBackend(),
+      sweeper: { interval: 500 },
+    });
+    const onExpire = vi.fn();
+    storage.subscribeExpire(onExpire);
+    storage.set("session", "token", { ttl: 100 });
+
+    vi.advanceTimersByTime(500);
+
+    expect(onExpire).toHaveBeenCalledWith("session", "token");
+    storage.stopSweeper();
+  });
+
+  it("deve renovar o TTL deslizante a cada leitura", () => {
+    const storage = createStorage();
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+    storage.set("session", "token", { ttl: 100, sliding: true });
+    storage.set("fixed", "token", { ttl: 100 });
+
+    nowSpy.mockReturnValue(1080);
+    expect(storage.get("session")).toBe("token");
+    expect(storage.get("fixed")).toBe("token");
+
+    nowSpy.mockReturnValue(1150);
+    expect(storage.get("session")).toBe("token");
+    expect(storage.get("fixed")).toBeNull();
+    expect(storage.getTTL("session")).toBe(100);
+  });
+
+  it("deve reescrever o TTL deslizante apenas depois de uma parte dele", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@ttl:", { backend });
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+    storage.set("session", "token", { ttl: 1000, sliding: true });
+    const setItem = vi.spyOn(backend, "setItem");
+
+    nowSpy.mockReturnValue(1050);
+    expect(storage.get("session")).toBe("token");
+    expect(setItem).not.toHaveBeenCalled();
+
+    nowSpy.mockReturnValue(1200);
+    expect(storage.get("session")).toBe("token");
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(storage.getTTL("session")).toBe(1000);
+  });
+
+  it("não deve remover outras chaves para renovar o TTL deslizante", () => {
+    const backend = new MemoryStorageBackend();
+    const nowSpy = vi.spyOn(Date, "now").mockReturnValue(900);
+    const writer = new LocalStorage("@ttl:", { backend });
+    writer.set("other", "x");
+    writer.set("session", "token", { ttl: 1000, sliding: true });
+    const usage = backend
+      .keys()
+      .reduce(
+        (total, key) => total + new Blob([backend.getItem(key)!]).size,
+        0,
+      );
+    const storage = new LocalStorage("@ttl:", {
+      backend,
+      quota: { maxBytes: usage },
+    });
+
+    // O novo timestamp tem um dígito a mais e não cabe na cota
+    nowSpy.mockReturnValue(1000);
+    expect(storage.get("session")).toBe("token");
+    expect(storage.get("other")).toBe("x");
+    expect(storage.getTTL("session")).toBe(900);
+  });
+});
+
+describe("LocalStorage - Serialização estruturada", () => {
+  const createStorage = (config = {}) =>
+    new LocalStorage("@rich:", {
+      backend: new MemoryStorageBackend(),
+      serializer: "structured",
+      ...config,
+    });
+
+  it("deve preservar Date, Map, Set, BigInt, RegExp e undefined", () => {
+    const storage = createStorage();
+    const value = {
+      createdAt: new Date(1700000000000),
+      roles: new Map([["admin", new Set(["read", "write"])]]),
+      balance: 10n ** 20n,
+      filter: /^user:/i,
+      nickname: undefined,
+    };
+
+    storage.set("user", value);
+    const result = storage.get<typeof value>("user")!;
+
+    expect(result.createdAt).toEqual(value.createdAt);
+    expect(result.roles).toEqual(value.roles);
+    expect(result.balance).toBe(value.balance);
+    expect(result.filter).toEqual(value.filter);
+    expect("nickname" in result).toBe(true);
+  });
+
+  it("deve preservar arrays tipados", () => {
+    const storage = createStorage();
+
+    storage.set("bytes", new Uint8Array([1, 2, 3]));
+
+    expect(storage.get("bytes")).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it("deve funcionar com compressão e TTL", () => {
+    const storage = createStorage();
+    const events = Array.from({ length: 200 }, (_, i) => ({
+      at: new Date(i * 1000),
+    }));
+
+    storage.set("events", events, { compress: true, ttl: 60000 });
+
+    expect(storage.get<typeof events>("events")![199].at).toEqual(
+      new Date(199000),
+    );
+    expect(storage.getTTL("events")).toBeGreaterThan(0);
+  });
+
+  it("deve manter o comportamento JSON por padrão", () => {
+    const storage = new LocalStorage("@rich:", {
+      backend: new MemoryStorageBackend(),
+    });
+
+    storage.set("date", new Date(0));
+
+    expect(storage.get("date")).toBe("1970-01-01T00:00:00.000Z");
+  });
+
+  it("deve entregar valores revividos aos assinantes", () => {
+    const storage = createStorage();
+    const listener = vi.fn();
+    storage.subscribe("tags", listener);
+
+    storage.set("tags", new Set(["a"]));
+
+    expect(listener).toHaveBeenCalledWith("tags", new Set(["a"]), null);
+  });
+});
+
+describe("LocalStorage - Namespaces", () => {
+  const createStorage = (config = {}) => {
+    const backend = new MemoryStorageBackend();
+    return {
+      backend,
+      storage: new LocalStorage("@app:", { backend, ...config }),
+    };
+  };
+
+  it("deve gravar as chaves do namespace sob o prefixo composto", () => {
+    const { backend, storage } = createStorage();
+    const user = storage.namespace("user:42");
+
+    user.set("theme", "dark");
+
+    expect(backend.getItem("@app:user:42:theme")).not.toBeNull();
+    expect(user.get("theme")).toBe("dark");
+    expect(storage.get("user:42:theme")).toBe("dark");
+    expect(user.keys()).toEqual(["theme"]);
+  });
+
+  it("deve limpar apenas as chaves do namespace", () => {
+    const { storage } = createStorage();
+    const first = storage.namespace("user:1");
+    const second = storage.namespace("user:2");
+    first.set("theme", "dark");
+    second.set("theme", "light");
+    storage.set("global", true);
+
+    first.clear();
+
+    expect(first.get("theme")).toBeNull();
+    expect(second.get("theme")).toBe("light");
+    expect(storage.get("global")).toBe(true);
+
+    storage.clear();
+    expect(second.get("theme")).toBeNull();
+  });
+
+  it("deve ter seus próprios assinantes", () => {
+    const { storage } = createStorage();
+    const user = storage.namespace("user:42");
+    const userListener = vi.fn();
+    const rootListener = vi.fn();
+    user.subscribe("theme", userListener);
+    storage.subscribe("theme", rootListener);
+
+    user.set("theme", "dark");
+
+    expect(userListener).toHaveBeenCalledWith("theme", "dark", null);
+    expect(rootListener).not.toHaveBeenCalled();
+  });
+
+  it("deve aninhar namespaces e herdar a configuração", () => {
+    const { backend, storage } = createStorage({ serializer: "structured" });
+    const settings = storage.namespace("user:42").namespace("settings");
+
+    settings.set("updatedAt", new Date(0));
+
+    expect(backend.getItem("@app:user:42:settings:updatedAt")).not.toBeNull();
+    expect(settings.get("updatedAt")).toEqual(new Date(0));
+    expect(settings).toBeInstanceOf(LocalStorage);
+  });
+
+  it("deve criar instâncias de outras classes sobre o mesmo prefixo", () => {
+    class CountingStorage extends LocalStorage {
+      count(): number {
+        return this.keys().length;
+      }
+    }
+    const { storage } = createStorage();
+    const user = storage.namespace("user:42");
+    user.set("a", 1);
+    user.set("b", 2);
+
+    const counting = user.derive(CountingStorage);
+
+    expect(counting.count()).toBe(2);
+    expect(counting.namespace("x")).toBeInstanceOf(CountingStorage);
+  });
+});
+
+describe("LocalStorage - Inspeção e snapshots", () => {
+  const createStorage = (prefix = "@snap:") =>
+    new LocalStorage(prefix, { backend: new MemoryStorageBackend() });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("deve descrever cada chave sem alterar o TTL deslizante", () => {
+    vi.useFakeTimers();
+    const storage = createStorage();
+    storage.set("session", { id: 1 }, { ttl: 1000, sliding: true });
+    storage.set("big", "a".repeat(5000), { compress: true });
+    vi.advanceTimersByTime(400);
+
+    const [big, session] = storage
+      .inspect()
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    expect(session).toMatchObject({
+      key: "session",
+      size: storage.getSize("session"),
+      compressed: false,
+      encrypted: false,
+      ttl: 600,
+      preview: '{"id":1}',
+    });
+    expect(big.compressed).toBe(true);
+    expect(big.size).toBe(storage.getSize("big"));
+    expect(big.preview).toHaveLength(201);
+    expect(storage.getTTL("session")).toBe(600);
+  });
+
+  it("deve exportar e importar os valores descomprimidos com o TTL restante", () => {
+    vi.useFakeTimers();
+    const source = createStorage();
+    source.set("user", { name: "John" }, { ttl: 1000 });
+    source.set("doc", "a".repeat(5000), { compress: true });
+    source.set("theme", "dark");
+    vi.advanceTimersByTime(300);
+
+    const snapshot = JSON.parse(JSON.stringify(source.exportSnapshot()));
+    const doc = snapshot.entries.find((entry: any) => entry.key === "doc");
+
+    expect(snapshot).toMatchObject({
+      format: "@brushy/localstorage",
+      version: 1,
+    });
+    expect(doc).toEqual({
+      key: "doc",
+      value: "a".repeat(5000),
+      compressed: true,
+    });
+
+    const target = createStorage("@other:");
+    const listener = vi.fn();
+    target.subscribe("theme", listener);
+
+    expect(target.importSnapshot(snapshot).sort()).toEqual([
+      "doc",
+      "theme",
+      "user",
+    ]);
+    expect(target.get("user")).toEqual({ name: "John" });
+    expect(target.getTTL("user")).toBe(700);
+    expect(target.inspect("doc")[0].compressed).toBe(true);
+    expect(target.get("doc")).toBe("a".repeat(5000));
+    expect(listener).toHaveBeenCalledWith("theme", "dark", null);
+  });
+
+  it("deve exportar apenas as chaves do padrão", () => {
+    const storage = createStorage();
+    storage.set("user:1", 1);
+    storage.set("user:2", 2);
+    storage.set("settings", {});
+
+    const { entries } = storage.exportSnapshot("user:*");
+
+    expect(entries.map((entry) => entry.key).sort()).toEqual([
+      "user:1",
+      "user:2",
+    ]);
+  });
+
+  it("deve limpar o prefixo antes de importar com a opção clear", () => {
+    const storage = createStorage();
+    storage.set("stale", true);
+
+    storage.importSnapshot(
+      JSON.stringify({
+        format: "@brushy/localstorage",
+        version: 1,
+        exportedAt: 0,
+        entries: [{ key: "fresh", value: 1 }],
+      }),
+      { clear: true },
+    );
+
+    expect(storage.keys()).toEqual(["fresh"]);
+  });
+
+  it("não deve importar nada quando a limpeza falha", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@q:", { backend });
+    storage.set("a", 1);
+    storage.set("b", 2);
+    vi.spyOn(backend, "removeItem").mockImplementation((key) => {
+      if (key === "@q:b") throw new Error("Disk error");
+      MemoryStorageBackend.prototype.removeItem.call(backend, key);
+    });
+
+    expect(() =>
+      storage.importSnapshot(
+        {
+          format: "@brushy/localstorage",
+          version: 1,
+          exportedAt: 0,
+          entries: [{ key: "fresh", value: 1 }],
+        },
+        { clear: true },
+      ),
+    ).toThrow("Disk error");
+
+    vi.mocked(backend.removeItem).mockRestore();
+    expect(storage.keys().sort()).toEqual(["a", "b"]);
+  });
+
+  it("deve propagar erros de clear dentro de uma transação", () => {
+    const backend = new MemoryStorageBackend();
+    const storage = new LocalStorage("@q:", { backend });
+    storage.set("a", 1);
+    vi.spyOn(backend, "keys").mockImplementation(() => {
+      throw new Error("Disk error");
+    });
+
+    expect(() => storage.transaction(() => storage.clear())).toThrow(
+      "Disk error",
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => storage.clear()).not.toThrow();
+  });
+
+  it("deve rejeitar snapshots em formato desconhecido", () => {
+    const storage = createStorage();
+
+    expect(() => storage.importSnapshot({ entries: [] } as any)).toThrow(
+      "[LocalStorage] Unsupported snapshot format.",
+    );
+  });
+
+  it("deve exportar itens criptografados como estão armazenados", async () => {
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+    const config = { encryptionKey: () => ({ id: "v1", key }) };
+    const backend = new MemoryStorageBackend();
+    const source = new LocalStorage("@a:", { ...config, backend });
+    await source.setAsync("token", "secret", { encrypt: true });
+
+    const [inspection] = source.inspect();
+    const snapshot = source.exportSnapshot();
+
+    expect(inspection).toMatchObject({ encrypted: true, preview: null });
+    expect(snapshot.entries[0].raw).toBe(backend.getItem("@a:token"));
+
+    const target = new LocalStorage("@a:", {
+      ...config,
+      backend: new MemoryStorageBackend(),
+    });
+    target.importSnapshot(snapshot);
+
+    expect(await target.getAsync("token")).toBe("secret");
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Outbox } from "../outbox";
+import { JSONStorage } from "../json-storage";
+import { OutboxConflictError } from "../../core/errors";
+import { MemoryStorageBackend } from "../../backends/memory-backend";
+
+interface Mutation {
+  type: string;
+  value?: number;
+}
+
+describe("Outbox", () => {
+  let storage: JSONStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    storage = new JSONStorage("@test:", {
+      backend: new MemoryStorageBackend(),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should persist enqueued mutations until they are sent", () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    new Outbox<Mutation>({ send, storage }).enqueue({ type: "add" }, "a");
+
+    const reloaded = new Outbox<Mutation>({ send, storage });
+
+    expect(reloaded.entries()).toMatchObject([
+      { id: "a", mutation: { type: "add" }, attempts: 0 },
+    ]);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("should store the queue under @brushy/outbox by default", () => {
+    new Outbox<Mutation>({ send: vi.fn(), storage }).enqueue({ type: "add" });
+
+    expect(storage.has("@brushy/outbox")).toBe(true);
+  });
+
+  it("should keep the queue from being evicted by the quota policy", () => {
+    const limited = new JSONStorage("@quota:", {
+      backend: new MemoryStorageBackend(),
+      quota: { maxBytes: 300 },
+    });
+    new Outbox<Mutation>({ send: vi.fn(), storage: limited }).enqueue({
+      type: "add",
+    });
+
+    const { evicted } = limited.setJSON("cache", { text: "x".repeat(100) });
+
+    expect(evicted).not.toContain("@brushy/outbox");
+    expect(limited.has("@brushy/outbox")).toBe(true);
+  });
+
+  it("should stop sending once stopped", async () => {
+    let outbox: Outbox<Mutation>;
+    const send = vi.fn(async () => outbox.stop());
+    outbox = new Outbox<Mutation>({ send, storage });
+    outbox.enqueue({ type: "first" });
+    outbox.enqueue({ type: "second" });
+
+    outbox.start();
+    await vi.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.entries()).toMatchObject([{ mutation: { type: "second" } }]);
+  });
+
+  it("should report errors of runs started in the background", async () => {
+    const outbox = new Outbox<Mutation>({
+      send: vi.fn().mockResolvedValue(undefined),
+      storage,
+    });
+    outbox.enqueue({ type: "add" });
+    vi.spyOn(storage, "remove").mockImplementation(() => {
+      throw new Error("write failed");
+    });
+
+    outbox.start();
+    await vi.runAllTimersAsync();
+
+    expect(console.error).toHaveBeenCalledWith(
+      "[Outbox] Error sending mutations:",
+      expect.objectContaining({ message: "write failed" }),
+    );
+    outbox.stop();
+  });
+
+  it("should ignore a mutation enqueued twice with the same id", () => {
+    const outbox = new Outbox<Mutation>({ send: vi.fn(), storage });
+
+    const first = outbox.enqueue({ type: "add" }, "a");
+    const second = outbox.enqueue({ type: "other" }, "a");
+
+    expect(second).toEqual(first);
+    expect(outbox.entries()).toHaveLength(1);
+  });
+
+  it("should send mutations in order once started", async () => {
+    const sent: string[] = [];
+    const outbox = new Outbox<Mutation>({
+      send: async (mutation) => {
+        sent.push(mutation.type);
+      },
+      storage,
+    });
+    outbox.enqueue({ type: "first" });
+    outbox.enqueue({ type: "second" });
+
+    outbox.start();
+    await outbox.flush();
+
+    expect(sent).toEqual(["first", "second"]);
+    expect(outbox.entries()).toEqual([]);
+    expect(outbox.getSnapshot().status).toBe("idle");
+    outbox.stop();
+  });
+
+  it("should retry failed mutations with exponential backoff", async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockResolvedValue(undefined);
+    const outbox = new Outbox<Mutation>({ send, storage, retryDelay: 100 });
+    outbox.enqueue({ type: "add" }, "a");
+
+    outbox.start();
+    await outbox.flush();
+
+    expect(outbox.entries()).toMatchObject([
+      { id: "a", attempts: 1, error: "Network error" },
+    ]);
+    expect(outbox.getSnapshot().status).toBe("waiting");
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(outbox.entries()[0].attempts).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(outbox.entries()).toEqual([]);
+    outbox.stop();
+  });
+
+  it("should hold back later mutations while one is failing", async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Network error"))
+      .mockResolvedValue(undefined);
+    const outbox = new Outbox<Mutation>({ send, storage });
+    outbox.enqueue({ type: "first" });
+    outbox.enqueue({ type: "second" });
+
+    await outbox.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.entries()).toHaveLength(2);
+  });
+
+  it("should drop a mutation after its last attempt", async () => {
+    const onFailure = vi.fn();
+    const error = new Error("Bad request");
+    const outbox = new Outbox<Mutation>({
+      send: vi.fn().mockRejectedValue(error),
+      storage,
+      maxAttempts: 2,
+      retryDelay: 10,
+      onFailure,
+    });
+    outbox.enqueue({ type: "add" }, "a");
+
+    outbox.start();
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(outbox.entries()).toEqual([]);
+    expect(onFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "a", attempts: 2 }),
+      error,
+    );
+    outbox.stop();
+  });
+
+  it("should drop conflicting mutations without onConflict", async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new OutboxConflictError())
+      .mockResolvedValue(undefined);
+    const outbox = new Outbox<Mutation>({ send, storage });
+    outbox.enqueue({ type: "first" });
+    outbox.enqueue({ type: "second" });
+
+    await outbox.flush();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1][0]).toEqual({ type: "second" });
+    expect(outbox.entries()).toEqual([]);
+  });
+
+  it("should send the mutation returned by onConflict", async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(new OutboxConflictError({ value: 5 }))
+      .mockResolvedValue(undefined);
+    const onConflict = vi.fn((entry, error: OutboxConflictError) => ({
+      mutation: {
+        ...entry.mutation,
+        value: (error.current as { value: number }).value + 1,
+      },
+    }));
+    const outbox = new Outbox<Mutation>({
+      send,
+      storage,
+      onConflict,
+      retryDelay: 10,
+    });
+    outbox.enqueue({ type: "increment", value: 1 });
+
+    outbox.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onConflict).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.entries()).toMatchObject([
+      { mutation: { type: "increment", value: 6 }, attempts: 1 },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(send.mock.calls[1][0]).toEqual({ type: "increment", value: 6 });
+    expect(outbox.entries()).toEqual([]);
+    outbox.stop();
+  });
+
+  it("should give up on a mutation that keeps conflicting", async () => {
+    const send = vi.fn().mockRejectedValue(new OutboxConflictError());
+    const onFailure = vi.fn();
+    const outbox = new Outbox<Mutation>({
+      send,
+      storage,
+      onConflict: (entry) => ({ mutation: entry.mutation }),
+      onFailure,
+      maxAttempts: 3,
+      retryDelay: 10,
+    });
+    outbox.enqueue({ type: "add" }, "a");
+
+    outbox.start();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(outbox.entries()).toEqual([]);
+    expect(onFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "a", attempts: 3 }),
+      expect.any(OutboxConflictError),
+    );
+    outbox.stop();
+  });
+
+  it("should not send while offline and flush once back online", async () => {
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    const send = vi.fn().mockResolvedValue(undefined);
+    const outbox = new Outbox<Mutation>({ send, storage });
+
+    outbox.start();
+    outbox.enqueue({ type: "add" });
+    await outbox.flush();
+
+    expect(send).not.toHaveBeenCalled();
+    expect(outbox.getSnapshot().status).toBe("offline");
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event("online"));
+    await outbox.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.entries()).toEqual([]);
+    outbox.stop();
+  });
+
+  it("should notify subscribers of changes to the queue", async () => {
+    const outbox = new Outbox<Mutation>({
+      send: vi.fn().mockResolvedValue(undefined),
+      storage,
+    });
+    const listener = vi.fn();
+    const unsubscribe = outbox.subscribe(listener);
+
+    const before = outbox.getSnapshot();
+    outbox.enqueue({ type: "add" });
+
+    expect(listener).toHaveBeenCalled();
+    expect(outbox.getSnapshot()).not.toBe(before);
+    expect(outbox.getSnapshot()).toBe(outbox.getSnapshot());
+
+    unsubscribe();
+    listener.mockClear();
+    await outbox.flush();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should see mutations enqueued by another instance", () => {
+    const send = vi.fn();
+    const config = { backend: new MemoryStorageBackend(), sync: true };
+    const first = new Outbox<Mutation>({
+      send,
+      storage: new JSONStorage("@shared:", config),
+    });
+    const second = new Outbox<Mutation>({
+      send,
+      storage: new JSONStorage("@shared:", config),
+    });
+    const listener = vi.fn();
+    second.subscribe(listener);
+
+    first.enqueue({ type: "add" }, "a");
+
+    expect(listener).toHaveBeenCalled();
+    expect(second.entries()).toMatchObject([{ id: "a" }]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  storageQuery,
+  revalidateQuery,
+  getQueryData,
+  isQueryStale,
+  isQueryFetching,
+} from "../storage-query";
+import { LocalStorage } from "../localstorage";
+import { MemoryStorageBackend } from "../../backends/memory-backend";
+
+describe("storageQuery", () => {
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    storage = new LocalStorage("@test:", {
+      backend: new MemoryStorageBackend(),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should fetch and cache data when nothing is cached", async () => {
+    const fetcher = vi.fn().mockResolvedValue({ name: "John" });
+
+    const data = await storageQuery("user", fetcher, { storage, ttl: 1000 });
+
+    expect(data).toEqual({ name: "John" });
+    expect(getQueryData("user", { storage })).toEqual({ name: "John" });
+    expect(storage.getTTL("user")).toBe(1000);
+  });
+
+  it("should return fresh cached data without fetching", async () => {
+    await revalidateQuery("user", async () => ({ name: "John" }), {
+      storage,
+      ttl: 1000,
+    });
+    const fetcher = vi.fn();
+
+    const data = await storageQuery("user", fetcher, {
+      storage,
+      ttl: 1000,
+      staleTime: 500,
+    });
+
+    expect(data).toEqual({ name: "John" });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("should return stale data and revalidate it in the background", async () => {
+    const options = { storage, ttl: 1000, staleTime: 500 };
+    await revalidateQuery("user", async () => ({ name: "John" }), options);
+    vi.advanceTimersByTime(500);
+    const fetcher = vi.fn().mockResolvedValue({ name: "Jane" });
+
+    expect(isQueryStale("user", options)).toBe(true);
+    expect(await storageQuery("user", fetcher, options)).toEqual({
+      name: "John",
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await vi.runAllTimersAsync();
+
+    expect(getQueryData("user", options)).toEqual({ name: "Jane" });
+    expect(isQueryStale("user", options)).toBe(false);
+  });
+
+  it("should take the age of the data from when it was fetched", async () => {
+    await revalidateQuery("user", async () => ({ name: "John" }), {
+      storage,
+      ttl: 10000,
+    });
+    vi.advanceTimersByTime(500);
+
+    expect(isQueryStale("user", { storage, staleTime: 1000 })).toBe(false);
+    expect(isQueryStale("user", { storage, ttl: 600, staleTime: 1000 })).toBe(
+      false,
+    );
+    expect(isQueryStale("user", { storage, staleTime: 400 })).toBe(true);
+  });
+
+  it("should treat data not written by a query as missing", async () => {
+    storage.set("user", { name: "John" });
+    const fetcher = vi.fn().mockResolvedValue({ name: "Jane" });
+
+    expect(getQueryData("user", { storage })).toBeNull();
+    expect(isQueryStale("user", { storage, staleTime: 60000 })).toBe(true);
+    expect(await storageQuery("user", fetcher, { storage })).toEqual({
+      name: "Jane",
+    });
+  });
+
+  it("should share a single fetch between concurrent reads", async () => {
+    let resolve: (value: string) => void = () => {};
+    const fetcher = vi.fn(
+      () => new Promise<string>((done) => (resolve = done)),
+    );
+
+    const first = storageQuery("token", fetcher, { storage });
+    const second = revalidateQuery("token", fetcher, { storage });
+
+    await Promise.resolve();
+    expect(isQueryFetching("token", { storage })).toBe(true);
+    resolve("abc");
+
+    expect(await first).toBe("abc");
+    expect(await second).toBe("abc");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(isQueryFetching("token", { storage })).toBe(false);
+  });
+
+  it("should reject when nothing is cached and the fetch fails", async () => {
+    const fetcher = vi.fn().mockRejectedValue(new Error("Network error"));
+
+    await expect(storageQuery("user", fetcher, { storage })).rejects.toThrow(
+      "Network error",
+    );
+    expect(isQueryFetching("user", { storage })).toBe(false);
+  });
+
+  it("should keep stale data when revalidation fails", async () => {
+    await revalidateQuery("user", async () => ({ name: "John" }), {
+      storage,
+      ttl: 1000,
+    });
+    const fetcher = vi.fn().mockRejectedValue(new Error("Network error"));
+
+    const data = await storageQuery("user", fetcher, { storage, ttl: 1000 });
+    await vi.runAllTimersAsync();
+
+    expect(data).toEqual({ name: "John" });
+    expect(getQueryData("user", { storage })).toEqual({ name: "John" });
+    expect(console.error).toHaveBeenCalledWith(
+      "[storageQuery] Error revalidating query:",
+      "user",
+      expect.any(Error),
+    );
+  });
+
+  it("should store data compressed with the compress option", async () => {
+    const data = { text: "a".repeat(2000) };
+
+    await storageQuery("doc", async () => data, { storage, compress: true });
+
+    expect(getQueryData("doc", { storage })).toEqual(data);
+    expect(storage.getSize("doc")).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { createTypedStorage } from "../typed-storage";
+import { LocalStorage } from "../localstorage";
+import { MemoryStorageBackend } from "../../backends/memory-backend";
+
+interface AppSchema {
+  theme: "light" | "dark";
+  [key: `user:${string}`]: { name: string };
+}
+
+describe("createTypedStorage", () => {
+  const createStorage = () =>
+    createTypedStorage<AppSchema>(
+      new LocalStorage("@typed:", { backend: new MemoryStorageBackend() }),
+    );
+
+  it("should read and write through the underlying storage", () => {
+    const storage = createStorage();
+
+    storage.set("theme", "dark", { ttl: 1000 });
+    storage.set("user:42", { name: "John" });
+
+    expect(storage.get("theme")).toBe("dark");
+    expect(storage.get("user:42")?.name).toBe("John");
+    expect(storage.storage.get("user:42")).toEqual({ name: "John" });
+    expect(storage.has("theme")).toBe(true);
+    expect(storage.getTTL("theme")).toBeLessThanOrEqual(1000);
+
+    storage.remove("theme");
+    expect(storage.get("theme")).toBeNull();
+  });
+
+  it("should notify subscribers of the key with typed values", () => {
+    const storage = createStorage();
+    const listener = vi.fn();
+    const unsubscribe = storage.subscribe("user:1", listener);
+
+    storage.set("user:1", { name: "John" });
+    unsubscribe();
+    storage.set("user:1", { name: "Jane" });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("user:1", { name: "John" }, null);
+  });
+
+  it("should reject unknown keys and mistyped values at compile time", () => {
+    const storage = createStorage();
+
+    // @ts-expect-error "settings" is not a key of the schema
+    storage.get("settings");
+    // @ts-expect-error "blue" is not a theme
+    storage.set("theme", "blue");
+    // @ts-expect-error users have a name
+    storage.set("user:1", { id: 1 });
+
+    expect(storage.storage).toBeInstanceOf(LocalStorage);
+  });
+});
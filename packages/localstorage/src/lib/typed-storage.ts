@@ -0,0 +1,85 @@
+import { LocalStorage } from "./localstorage";
+import type { SetResult, StorageOptions } from "../core/types";
+
+/**
+ * The keys of a schema. Template literal keys such as `` `user:${string}` `` match every
+ * key of that shape.
+ */
+export type StorageKey<Schema> = Extract<keyof Schema, string>;
+
+/**
+ * The keys of a schema whose values are objects, as `JSONStorage` and `LazyStorage` require.
+ */
+export type ObjectStorageKey<Schema> = {
+  [K in StorageKey<Schema>]: Schema[K] extends object ? K : never;
+}[StorageKey<Schema>];
+
+/**
+ * A view of a storage instance where every key is checked against a schema and every
+ * value has the type the schema gives its key.
+ */
+export interface TypedStorage<Schema> {
+  /**
+   * The underlying storage, for the methods the typed view does not cover.
+   */
+  readonly storage: LocalStorage;
+  get<K extends StorageKey<Schema>>(key: K): Schema[K] | null;
+  set<K extends StorageKey<Schema>>(
+    key: K,
+    value: Schema[K],
+    options?: StorageOptions,
+  ): SetResult;
+  remove(key: StorageKey<Schema>): void;
+  has(key: StorageKey<Schema>): boolean;
+  getTTL(key: StorageKey<Schema>): number | null;
+  subscribe<K extends StorageKey<Schema>>(
+    key: K,
+    listener: (
+      key: K,
+      newValue: Schema[K] | null,
+      oldValue: Schema[K] | null,
+    ) => void,
+  ): () => void;
+}
+
+/**
+ * Creates a view of a storage instance typed by a schema that maps each key, or
+ * template literal pattern of keys, to the type of its value. Reading or writing a key
+ * the schema does not declare, or writing a value of the wrong type, is a compile error.
+ * The schema is not checked at runtime; register a validator with `JSONStorage` for that.
+ *
+ * @template Schema - Maps the keys to the types of their values.
+ * @param storage - The storage to type. Defaults to a synced `LocalStorage` with the default prefix.
+ * @returns The typed view of the storage.
+ *
+ * @example
+ * ```typescript
+ * interface AppSchema {
+ *   theme: "light" | "dark";
+ *   [key: `user:${string}`]: { name: string };
+ * }
+ *
+ * const storage = createTypedStorage<AppSchema>();
+ *
+ * storage.set("theme", "dark");
+ * storage.get("user:42")?.name; // string | undefined
+ * storage.set("theme", "blue"); // Error: not assignable to "light" | "dark"
+ * storage.get("settings"); // Error: not a key of AppSchema
+ * ```
+ */
+export function createTypedStorage<Schema>(
+  storage: LocalStorage = new LocalStorage(undefined, { sync: true }),
+): TypedStorage<Schema> {
+  return {
+    storage,
+    get: (key) => storage.get(key),
+    set: (key, value, options) => storage.set(key, value, options),
+    remove: (key) => storage.remove(key),
+    has: (key) => storage.has(key),
+    getTTL: (key) => storage.getTTL(key),
+    subscribe: (key, listener) =>
+      storage.subscribe(key, (_, newValue, oldValue) =>
+        listener(key, newValue, oldValue),
+      ),
+  };
+}
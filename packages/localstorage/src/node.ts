@@ -0,0 +1 @@
+export { FileStorageBackend } from "./backends/file-backend";
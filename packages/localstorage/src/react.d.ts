@@ -10,5 +10,23 @@ declare module "react" {
     callback: T,
     deps: any[],
   ): T;
+  export function useMemo<T>(factory: () => T, deps: any[]): T;
   export function useRef<T>(initialValue: T): { current: T };
+  export function useSyncExternalStore<T>(
+    subscribe: (onStoreChange: () => void) => () => void,
+    getSnapshot: () => T,
+    getServerSnapshot?: () => T,
+  ): T;
+  export type ReactNode = any;
+  export interface Context<T> {
+    Provider: any;
+    defaultValue?: T;
+  }
+  export function createContext<T>(defaultValue: T): Context<T>;
+  export function useContext<T>(context: Context<T>): T;
+  export function createElement(
+    type: any,
+    props?: any,
+    ...children: ReactNode[]
+  ): any;
 }
@@ -0,0 +1,183 @@
+import type { BinaryEncoding } from "../core/types";
+
+/**
+ * A binary value supported by `TypedCompression`.
+ */
+export type BinaryValue = ArrayBuffer | ArrayBufferView | Blob;
+
+/**
+ * Marks a binary value: `__BINARY__:<kind>:<encoding>:<byteLength>:<mimeType>:<payload>`.
+ */
+const BINARY_PREFIX = "__BINARY__:";
+const BINARY_HEADER = /^__BINARY__:(\w+):(utf16|base64):(\d+):([^:]*):/;
+
+/**
+ * Views restored by name from the binary header.
+ */
+const VIEW_KINDS = [
+  "Int8Array",
+  "Uint8Array",
+  "Uint8ClampedArray",
+  "Int16Array",
+  "Uint16Array",
+  "Int32Array",
+  "Uint32Array",
+  "Float32Array",
+  "Float64Array",
+  "BigInt64Array",
+  "BigUint64Array",
+  "DataView",
+];
+
+const getView = (
+  kind: string,
+): (new (buffer: ArrayBuffer) => any) | undefined =>
+  VIEW_KINDS.includes(kind) ? (globalThis as any)[kind] : undefined;
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Packs bytes two per UTF-16 code unit, little-endian. An odd last byte is padded with zero.
+ * Since localStorage keeps strings as UTF-16, this takes half the space of the bytes
+ * themselves, against 8/3 for base64.
+ */
+export function toUTF16(bytes: Uint8Array): string {
+  const units = new Uint16Array(Math.ceil(bytes.length / 2));
+  for (let i = 0; i < bytes.length; i += 2) {
+    units[i / 2] = bytes[i] | ((bytes[i + 1] ?? 0) << 8);
+  }
+
+  let value = "";
+  for (let i = 0; i < units.length; i += 8192) {
+    value += String.fromCharCode(...units.subarray(i, i + 8192));
+  }
+  return value;
+}
+
+/**
+ * Unpacks bytes written by `toUTF16`.
+ *
+ * @param value - The packed string.
+ * @param byteLength - The number of bytes packed, to drop the padding of an odd length.
+ */
+export function fromUTF16(value: string, byteLength: number): Uint8Array {
+  const bytes = new Uint8Array(byteLength);
+  for (let i = 0; i < byteLength; i += 2) {
+    const unit = value.charCodeAt(i / 2);
+    bytes[i] = unit & 0xff;
+    if (i + 1 < byteLength) bytes[i + 1] = unit >> 8;
+  }
+  return bytes;
+}
+
+/**
+ * Checks whether a value is binary data: an `ArrayBuffer`, a typed array, a `DataView` or a `Blob`.
+ */
+export function isBinary(value: unknown): value is BinaryValue {
+  return (
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    (typeof Blob !== "undefined" && value instanceof Blob)
+  );
+}
+
+/**
+ * Reads the bytes of a `Blob`, falling back to `FileReader` where `Blob.arrayBuffer` is missing.
+ */
+export function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === "function") return blob.arrayBuffer();
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Checks whether a string was written by `packBinary` or `packBytes`.
+ */
+export function isPackedBinary(value: string): boolean {
+  return value.startsWith(BINARY_PREFIX);
+}
+
+/**
+ * Packs bytes with the binary header.
+ *
+ * @param bytes - The bytes to pack.
+ * @param kind - The kind of value to restore: `ArrayBuffer`, `Blob` or the name of a view.
+ * @param encoding - How to pack the bytes into a string.
+ * @param mimeType - The type of a `Blob`.
+ */
+export function packBytes(
+  bytes: Uint8Array,
+  kind: string,
+  encoding: BinaryEncoding = "utf16",
+  mimeType = "",
+): string {
+  const payload = encoding === "base64" ? toBase64(bytes) : toUTF16(bytes);
+  return `${BINARY_PREFIX}${kind}:${encoding}:${bytes.length}:${encodeURIComponent(mimeType)}:${payload}`;
+}
+
+/**
+ * Packs the bytes of an `ArrayBuffer`, typed array or `DataView`, recording which of them it was.
+ * Only the part of the buffer a view covers is packed.
+ */
+export function packBinary(
+  data: ArrayBuffer | ArrayBufferView,
+  encoding?: BinaryEncoding,
+): string {
+  if (data instanceof ArrayBuffer) {
+    return packBytes(new Uint8Array(data), "ArrayBuffer", encoding);
+  }
+
+  const kind =
+    VIEW_KINDS.find((name) => {
+      const View = getView(name);
+      return View && data instanceof View;
+    }) ?? "Uint8Array";
+  const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return packBytes(bytes, kind, encoding);
+}
+
+/**
+ * Restores a value written by `packBinary` or `packBytes` as the kind of value it was written from.
+ *
+ * @returns The value, or null if the header is invalid.
+ */
+export function unpackBinary(value: string): BinaryValue | null {
+  const header = BINARY_HEADER.exec(value);
+  if (!header) return null;
+
+  const [match, kind, encoding, byteLength, mimeType] = header;
+  const payload = value.slice(match.length);
+  const bytes =
+    encoding === "base64"
+      ? fromBase64(payload)
+      : fromUTF16(payload, Number(byteLength));
+
+  if (kind === "Blob") {
+    return new Blob([bytes], { type: decodeURIComponent(mimeType) });
+  }
+  const buffer = bytes.buffer as ArrayBuffer;
+  if (kind === "ArrayBuffer") return buffer;
+
+  const View = getView(kind);
+  return View ? new View(buffer) : null;
+}
@@ -0,0 +1,102 @@
+import {
+  compress,
+  compressToUTF16,
+  decompress,
+  decompressFromUTF16,
+} from "lz-string";
+import type { CompressionCodec } from "../core/types";
+import { fromUTF16, toUTF16 } from "./binary";
+
+/**
+ * lz-string with its full 16-bit output. The most compact option, but the result may
+ * contain lone surrogates, which some storages reject.
+ */
+export const lzCodec: CompressionCodec = {
+  name: "lz",
+  encode: (value) => compress(value),
+  decode: (value) => decompress(value) ?? "",
+};
+
+/**
+ * lz-string restricted to valid UTF-16, at the cost of about 7% in size.
+ */
+export const lzUTF16Codec: CompressionCodec = {
+  name: "lz-utf16",
+  encode: (value) => compressToUTF16(value),
+  decode: (value) => decompressFromUTF16(value) ?? "",
+};
+
+/**
+ * Stores the value as is, for values that do not compress well.
+ */
+export const noneCodec: CompressionCodec = {
+  name: "none",
+  encode: (value) => value,
+  decode: (value) => value,
+};
+
+/**
+ * Pipes bytes through a `CompressionStream` or `DecompressionStream`.
+ */
+async function pipe(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+
+  const read = async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      chunks.push(value);
+    }
+  };
+
+  await Promise.all([writer.write(bytes).then(() => writer.close()), read()]);
+
+  const result = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Deflate through the native `CompressionStream`. The compressed bytes are packed two
+ * per character, after a digit telling whether the last byte is padding.
+ */
+export const deflateCodec: CompressionCodec = {
+  name: "deflate",
+  async: true,
+  encode: async (value) => {
+    if (typeof CompressionStream === "undefined") {
+      throw new Error(
+        "[TypedCompression] The deflate codec requires CompressionStream support.",
+      );
+    }
+    const bytes = await pipe(
+      new TextEncoder().encode(value),
+      new CompressionStream("deflate"),
+    );
+    return `${bytes.length % 2}${toUTF16(bytes)}`;
+  },
+  decode: async (value) => {
+    if (typeof DecompressionStream === "undefined") {
+      throw new Error(
+        "[TypedCompression] The deflate codec requires DecompressionStream support.",
+      );
+    }
+    const byteLength = (value.length - 1) * 2 - Number(value[0]);
+    const bytes = await pipe(
+      fromUTF16(value.slice(1), byteLength),
+      new DecompressionStream("deflate"),
+    );
+    return new TextDecoder().decode(bytes);
+  },
+};
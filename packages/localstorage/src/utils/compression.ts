@@ -1,19 +1,82 @@
-import { compress, decompress } from "lz-string";
-import { CompressionOptions, DataType } from "../core/types";
+import { decompress } from "lz-string";
+import { CompressionCodec, CompressionOptions, DataType } from "../core/types";
+import {
+  isBinary,
+  isPackedBinary,
+  packBinary,
+  packBytes,
+  readBlob,
+  unpackBinary,
+} from "./binary";
+import { deflateCodec, lzCodec, lzUTF16Codec, noneCodec } from "./codecs";
+import { parse as parseStructured, stringify } from "./serializer";
+
+/**
+ * Marks a compressed value: `__TC__:<version>:<codec>:<layout>:<serializer>:<payload>`.
+ * Version 1 headers have no serializer and were always written as JSON.
+ */
+const HEADER_PREFIX = "__TC__:";
+const HEADER = /^__TC__:(\d+):([^:]+):([a-z-]+):/;
+const SERIALIZER = /^(json|structured):/;
+const VERSION = 2;
+
+/**
+ * Prefixes of the formats written before the header was introduced.
+ */
+const LEGACY_CHUNKED = "__CHUNKED__";
+const LEGACY_SELECTIVE = "__SELECTIVE__";
+
+/**
+ * How a value is split before encoding:
+ * - `plain`: the whole JSON, encoded at once.
+ * - `chunks`: the JSON split into pieces, each encoded separately.
+ * - `array-chunks`: the items of an array in groups, each group encoded as a JSON array.
+ * - `selective`: the large fields of an object encoded separately from the rest of it.
+ */
+type Layout = "plain" | "chunks" | "array-chunks" | "selective";
+
+/**
+ * How the value was serialized. Only `structured` values have their type tags revived.
+ */
+type Serializer = NonNullable<CompressionOptions["serializer"]>;
+
+/**
+ * The parts of a value to encode, and how to write the payload from the encoded parts.
+ */
+interface EncodePlan {
+  codec: CompressionCodec;
+  layout: Layout;
+  serializer: Serializer;
+  parts: string[];
+  join: (encoded: string[]) => string;
+}
+
+/**
+ * The parts of a payload to decode, and how to restore the value from the decoded parts.
+ */
+interface DecodePlan {
+  parts: string[];
+  join: (decoded: string[]) => any;
+}
 
 export class TypedCompression {
   private static readonly DEFAULT_THRESHOLD = 1024; // 1KB
   private static readonly CHUNK_SIZE = 8192; // 8KB
+  private static readonly DEFAULT_CODEC = "lz";
+
+  private static codecs = new Map<string, CompressionCodec>(
+    [lzCodec, lzUTF16Codec, deflateCodec, noneCodec].map((codec) => [
+      codec.name,
+      codec,
+    ]),
+  );
 
   /**
    * Detects the primary data type of a value for optimized compression
    */
   private static detectType(value: any): DataType {
-    if (typeof value === "string") {
-      // Check if string is base64
-      if (/^[A-Za-z0-9+/=]+$/.test(value)) return "binary";
-      return "string";
-    }
+    if (typeof value === "string") return "string";
+    if (isBinary(value)) return "binary";
     if (Array.isArray(value)) return "array";
     if (value instanceof Date) return "date";
     if (typeof value === "number") return "number";
@@ -21,117 +84,382 @@ export class TypedCompression {
   }
 
   /**
-   * Compresses data based on its type and size
+   * Registers a codec that can then be selected with the `codec` option. Values written
+   * with a codec can only be read while it is registered.
+   *
+   * @example
+   * ```typescript
+   * TypedCompression.registerCodec({
+   *   name: "brotli",
+   *   encode: (value) => brotli.compress(value),
+   *   decode: (value) => brotli.decompress(value),
+   * });
+   *
+   * TypedCompression.compressData(data, { codec: "brotli" });
+   * ```
+   */
+  static registerCodec(codec: CompressionCodec): void {
+    if (!codec.name || codec.name.includes(":")) {
+      throw new Error(`[TypedCompression] Invalid codec name "${codec.name}".`);
+    }
+    this.codecs.set(codec.name, codec);
+  }
+
+  /**
+   * Compresses data based on its type and size. Values below the threshold are stored as
+   * plain JSON; larger ones get a header recording the codec, layout and serializer, so
+   * that they are decoded without guessing. Binary values are always stored with a type
+   * tag, so that they are restored as the same kind of value. With
+   * `serializer: "structured"`, dates, maps, sets and the other types supported by the
+   * structured serializer are tagged too, and the value always gets a header.
+   *
+   * @throws {TypeError} If the value is a `Blob` or the codec is asynchronous; use `compressDataAsync`.
    */
   static compressData(data: any, options: CompressionOptions = {}): string {
-    const type = this.detectType(data);
-    const threshold = options.threshold || this.DEFAULT_THRESHOLD;
+    const plan = this.plan(data, options);
+    if (typeof plan === "string") return plan;
 
-    // Convert to string first to check size
-    const stringData = JSON.stringify(data);
-    if (stringData.length < threshold) return stringData;
-
-    const compressionMethods: Record<DataType, () => string> = {
-      string: () => this.compressString(stringData, options),
-      array: () => this.compressArray(data, options),
-      binary: () => this.compressBinary(stringData),
-      object: () => this.compressObject(data, options),
-      number: () => compress(stringData),
-      date: () => compress(stringData),
-    };
+    if (plan.codec.async) {
+      throw new TypeError(
+        `[TypedCompression] Codec "${plan.codec.name}" is asynchronous; use compressDataAsync.`,
+      );
+    }
+    return this.writeHeader(
+      plan,
+      plan.parts.map((part) => plan.codec.encode(part) as string),
+    );
+  }
+
+  /**
+   * Same as `compressData`, but also accepts `Blob` values, whose bytes are read first,
+   * and asynchronous codecs such as `deflate`. The MIME type of a blob is kept.
+   *
+   * @example
+   * ```typescript
+   * const stored = await TypedCompression.compressDataAsync(file);
+   * const blob = TypedCompression.decompressData(stored); // Blob with the type of the file
+   *
+   * await TypedCompression.compressDataAsync(rows, { codec: "deflate" });
+   * ```
+   */
+  static async compressDataAsync(
+    data: any,
+    options: CompressionOptions = {},
+  ): Promise<string> {
+    if (typeof Blob !== "undefined" && data instanceof Blob) {
+      const bytes = new Uint8Array(await readBlob(data));
+      return packBytes(bytes, "Blob", options.binaryEncoding, data.type);
+    }
+
+    const plan = this.plan(data, options);
+    if (typeof plan === "string") return plan;
 
-    return compressionMethods[type]?.() ?? compress(stringData);
+    return this.writeHeader(
+      plan,
+      await Promise.all(plan.parts.map((part) => plan.codec.encode(part))),
+    );
   }
 
   /**
-   * Decompresses data based on the stored format
+   * Decompresses data written by `compressData`. Values without a header, written by
+   * older versions, are still decoded by trying each of the old formats. Type tags are
+   * only revived in values written with the structured serializer.
+   *
+   * @returns The value, or null if it cannot be decoded.
+   * @throws {TypeError} If the value was written with an asynchronous codec; use `decompressDataAsync`.
    */
   static decompressData(data: string): any {
-    try {
-      // First try parsing as regular JSON
-      return JSON.parse(data);
-    } catch {
+    if (isPackedBinary(data)) {
       try {
-        // Try decompressing
-        const decompressed = decompress(data);
-        if (!decompressed) return null;
+        return unpackBinary(data);
+      } catch {
+        return null;
+      }
+    }
 
-        // Check if it's a chunked format
-        if (decompressed.startsWith("__CHUNKED__")) {
-          return this.decompressChunked(decompressed);
-        }
+    if (data.startsWith(HEADER_PREFIX)) {
+      const header = this.readHeader(data);
+      if (!header) return null;
 
-        return JSON.parse(decompressed);
+      if (header.codec.async) {
+        throw new TypeError(
+          `[TypedCompression] Codec "${header.codec.name}" is asynchronous; use decompressDataAsync.`,
+        );
+      }
+
+      try {
+        const plan = this.split(
+          header.layout,
+          header.payload,
+          header.serializer,
+        );
+        return plan.join(
+          plan.parts.map((part) => header.codec.decode(part) as string),
+        );
       } catch {
         return null;
       }
     }
+
+    return this.decompressLegacy(data);
   }
 
   /**
-   * Optimized string compression
+   * Same as `decompressData`, but also reads values written with asynchronous codecs.
    */
-  private static compressString(
-    data: string,
-    options: CompressionOptions,
-  ): string {
-    if (options.mode === "aggressive") {
-      // For aggressive mode, use chunked compression
-      return this.compressChunked(data);
+  static async decompressDataAsync(data: string): Promise<any> {
+    if (!data.startsWith(HEADER_PREFIX)) return this.decompressData(data);
+
+    const header = this.readHeader(data);
+    if (!header) return null;
+
+    try {
+      const plan = this.split(header.layout, header.payload, header.serializer);
+      return plan.join(
+        await Promise.all(plan.parts.map((part) => header.codec.decode(part))),
+      );
+    } catch {
+      return null;
     }
-    return compress(data);
   }
 
   /**
-   * Optimized array compression with chunking for large arrays
+   * Decides how a value is stored: as a string when it needs no codec, or as the parts
+   * to encode otherwise.
    */
-  private static compressArray(
-    data: any[],
+  private static plan(
+    data: any,
     options: CompressionOptions,
-  ): string {
-    if (data.length > 1000 || options.mode === "aggressive") {
-      // For large arrays, compress in chunks
-      const chunks = this.chunkArray(data, this.CHUNK_SIZE);
-      const compressedChunks = chunks.map((chunk) =>
-        compress(JSON.stringify(chunk)),
-      );
-      return `__CHUNKED__${JSON.stringify(compressedChunks)}`;
+  ): string | EncodePlan {
+    const type = this.detectType(data);
+    const threshold = options.threshold || this.DEFAULT_THRESHOLD;
+
+    if (type === "binary") {
+      if (typeof Blob !== "undefined" && data instanceof Blob) {
+        throw new TypeError(
+          "[TypedCompression] Blob values must be compressed with compressDataAsync.",
+        );
+      }
+      return this.compressBinary(data, options);
+    }
+
+    // Convert to string first to check size
+    const serializer = options.serializer ?? "json";
+    const serialize = serializer === "structured" ? stringify : JSON.stringify;
+    const stringData = serialize(data);
+
+    if (stringData.length < threshold) {
+      if (serializer === "json") return stringData;
+      // Structured values need the header, so that their tags are revived
+      return {
+        codec: noneCodec,
+        layout: "plain",
+        serializer,
+        parts: [stringData],
+        join: ([payload]) => payload,
+      };
+    }
+
+    const codec = this.getCodec(options.codec ?? this.DEFAULT_CODEC);
+    const aggressive = options.mode === "aggressive";
+
+    if (type === "string" && aggressive) {
+      return { codec, serializer, ...this.layoutChunks(stringData) };
+    }
+    if (type === "array" && (data.length > 1000 || aggressive)) {
+      return { codec, serializer, ...this.layoutArrayChunks(data, serialize) };
+    }
+    if (
+      type === "object" &&
+      aggressive &&
+      Object.getPrototypeOf(data) === Object.prototype
+    ) {
+      return {
+        codec,
+        serializer,
+        ...this.layoutSelective(data, serialize, threshold),
+      };
+    }
+    return {
+      codec,
+      layout: "plain",
+      serializer,
+      parts: [stringData],
+      join: ([payload]) => payload,
+    };
+  }
+
+  private static getCodec(name: string): CompressionCodec {
+    const codec = this.codecs.get(name);
+    if (!codec) {
+      throw new Error(`[TypedCompression] Unknown codec "${name}".`);
+    }
+    return codec;
+  }
+
+  private static writeHeader(plan: EncodePlan, encoded: string[]): string {
+    return `${HEADER_PREFIX}${VERSION}:${plan.codec.name}:${plan.layout}:${plan.serializer}:${plan.join(encoded)}`;
+  }
+
+  /**
+   * Parses the header of a value, or returns null if its version or codec is unknown.
+   */
+  private static readHeader(data: string): {
+    codec: CompressionCodec;
+    layout: Layout;
+    serializer: Serializer;
+    payload: string;
+  } | null {
+    const header = HEADER.exec(data);
+    if (!header) return null;
+
+    const [match, version, name, layout] = header;
+    let payload = data.slice(match.length);
+    let serializer: Serializer = "json";
+
+    if (Number(version) === VERSION) {
+      const field = SERIALIZER.exec(payload);
+      if (!field) return null;
+      serializer = field[1] as Serializer;
+      payload = payload.slice(field[0].length);
+    } else if (Number(version) !== 1) {
+      return null;
+    }
+
+    const codec = this.codecs.get(name);
+    if (!codec) {
+      console.warn(`[TypedCompression] Unknown codec "${name}".`);
+      return null;
+    }
+    return {
+      codec,
+      layout: layout as Layout,
+      serializer,
+      payload,
+    };
+  }
+
+  /**
+   * Splits the payload of a layout into the parts to decode.
+   */
+  private static split(
+    layout: Layout,
+    payload: string,
+    serializer: Serializer,
+  ): DecodePlan {
+    const parse: (text: string) => any =
+      serializer === "structured" ? parseStructured : JSON.parse;
+
+    switch (layout) {
+      case "plain":
+        return { parts: [payload], join: ([json]) => parse(json) };
+      case "chunks":
+        return {
+          parts: JSON.parse(payload),
+          join: (chunks) => parse(chunks.join("")),
+        };
+      case "array-chunks":
+        return {
+          parts: JSON.parse(payload),
+          join: (chunks) => chunks.flatMap((chunk) => parse(chunk)),
+        };
+      case "selective": {
+        const { rest, fields } = JSON.parse(payload);
+        const keys = Object.keys(fields);
+        return {
+          parts: [rest, ...keys.map((key) => fields[key])],
+          join: ([restJSON, ...values]) => {
+            const value = parse(restJSON);
+            keys.forEach((key, index) => {
+              value[key] = parse(values[index]);
+            });
+            return value;
+          },
+        };
+      }
+      default:
+        throw new Error(`[TypedCompression] Unknown layout "${layout}".`);
     }
-    return compress(JSON.stringify(data));
   }
 
   /**
-   * Optimized binary data compression
+   * Splits long JSON into pieces of `CHUNK_SIZE` characters.
    */
-  private static compressBinary(data: string): string {
-    // Binary data is already compressed, just return as is
-    return data;
+  private static layoutChunks(
+    data: string,
+  ): Pick<EncodePlan, "layout" | "parts" | "join"> {
+    const parts: string[] = [];
+    for (let i = 0; i < data.length; i += this.CHUNK_SIZE) {
+      parts.push(data.slice(i, i + this.CHUNK_SIZE));
+    }
+    return {
+      layout: "chunks",
+      parts,
+      join: (chunks) => JSON.stringify(chunks),
+    };
   }
 
   /**
-   * Optimized object compression with selective field compression
+   * Splits large arrays into groups of `CHUNK_SIZE` items.
    */
-  private static compressObject(
+  private static layoutArrayChunks(
+    data: any[],
+    serialize: (value: unknown) => string,
+  ): Pick<EncodePlan, "layout" | "parts" | "join"> {
+    return {
+      layout: "array-chunks",
+      parts: this.chunkArray(data, this.CHUNK_SIZE).map((chunk) =>
+        serialize(chunk),
+      ),
+      join: (chunks) => JSON.stringify(chunks),
+    };
+  }
+
+  /**
+   * Encodes the fields of an object larger than the threshold separately. The rest of
+   * the object keeps a `null` in their place, so that the order of the fields survives
+   * the round trip.
+   */
+  private static layoutSelective(
     data: object,
-    options: CompressionOptions,
-  ): string {
-    if (options.mode === "aggressive") {
-      // In aggressive mode, compress large fields individually
-      const compressed: Record<string, any> = {};
-
-      for (const [key, value] of Object.entries(data)) {
-        const stringValue = JSON.stringify(value);
-        if (stringValue.length > this.DEFAULT_THRESHOLD) {
-          compressed[key] = compress(stringValue);
-        } else {
-          compressed[key] = value;
-        }
-      }
+    serialize: (value: unknown) => string,
+    threshold: number,
+  ): Pick<EncodePlan, "layout" | "parts" | "join"> {
+    const rest: Record<string, any> = {};
+    const large: [string, string][] = [];
 
-      return `__SELECTIVE__${compress(JSON.stringify(compressed))}`;
+    for (const [key, value] of Object.entries(data)) {
+      const stringValue = serialize(value);
+      if (stringValue !== undefined && stringValue.length > threshold) {
+        rest[key] = null;
+        large.push([key, stringValue]);
+      } else {
+        rest[key] = value;
+      }
     }
 
-    return compress(JSON.stringify(data));
+    return {
+      layout: "selective",
+      parts: [serialize(rest), ...large.map(([, value]) => value)],
+      join: ([restEncoded, ...values]) =>
+        JSON.stringify({
+          rest: restEncoded,
+          fields: Object.fromEntries(
+            large.map(([key], index) => [key, values[index]]),
+          ),
+        }),
+    };
+  }
+
+  /**
+   * Packs the bytes of an `ArrayBuffer`, typed array or `DataView`. Binary data is
+   * usually compressed already, so no codec is applied.
+   */
+  private static compressBinary(
+    data: ArrayBuffer | ArrayBufferView,
+    options: CompressionOptions,
+  ): string {
+    return packBinary(data, options.binaryEncoding);
   }
 
   /**
@@ -146,21 +474,52 @@ export class TypedCompression {
   }
 
   /**
-   * Compresses large data in chunks
+   * Decodes values written without a header: plain JSON, lz-string, and the old
+   * `__CHUNKED__` and `__SELECTIVE__` formats.
    */
-  private static compressChunked(data: string): string {
-    const chunks = this.chunkArray(data.split(""), this.CHUNK_SIZE)
-      .map((chunk) => chunk.join(""))
-      .map((chunk) => compress(chunk));
+  private static decompressLegacy(data: string): any {
+    if (data.startsWith(LEGACY_CHUNKED)) {
+      try {
+        return this.decompressChunked(data);
+      } catch {
+        return null;
+      }
+    }
+    if (data.startsWith(LEGACY_SELECTIVE)) {
+      try {
+        return this.decompressSelective(data);
+      } catch {
+        return null;
+      }
+    }
+
+    try {
+      // First try parsing as regular JSON
+      return JSON.parse(data);
+    } catch {
+      try {
+        // Try decompressing
+        const decompressed = decompress(data);
+        if (!decompressed) return null;
+
+        // Check if it's a chunked format
+        if (decompressed.startsWith(LEGACY_CHUNKED)) {
+          return this.decompressChunked(decompressed);
+        }
 
-    return `__CHUNKED__${JSON.stringify(chunks)}`;
+        return JSON.parse(decompressed);
+      } catch {
+        return null;
+      }
+    }
   }
 
   /**
-   * Decompresses chunked data
+   * Decompresses chunked data. Chunks of arrays were written as separate JSON arrays,
+   * chunks of strings as pieces of the same JSON.
    */
   private static decompressChunked(data: string): any {
-    const chunksData = data.replace("__CHUNKED__", "");
+    const chunksData = data.replace(LEGACY_CHUNKED, "");
     const chunks: string[] = JSON.parse(chunksData);
 
     const decompressedChunks = chunks.map((chunk) => decompress(chunk));
@@ -169,7 +528,32 @@ export class TypedCompression {
     try {
       return JSON.parse(result);
     } catch {
-      return result;
+      try {
+        return decompressedChunks.flatMap((chunk) => JSON.parse(chunk));
+      } catch {
+        return result;
+      }
+    }
+  }
+
+  /**
+   * Decompresses an object whose large fields were compressed individually. Which fields
+   * were compressed was not recorded, so every string field that decompresses to JSON
+   * is taken as one of them.
+   */
+  private static decompressSelective(data: string): any {
+    const decompressed = decompress(data.slice(LEGACY_SELECTIVE.length));
+    const value = JSON.parse(decompressed);
+
+    for (const [key, field] of Object.entries(value)) {
+      if (typeof field !== "string") continue;
+      try {
+        const fieldData = decompress(field);
+        if (fieldData) value[key] = JSON.parse(fieldData);
+      } catch {
+        // Not a compressed field
+      }
     }
+    return value;
   }
 }
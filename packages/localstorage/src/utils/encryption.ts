@@ -0,0 +1,120 @@
+import type { EncryptionKey, EncryptionKeyProvider } from "../core/types";
+import { fromBase64, toBase64 } from "./binary";
+
+/**
+ * Marks a raw stored value as encrypted: `__ENC__:<keyId>:<iv>:<ciphertext>`.
+ */
+const ENCRYPTED_PREFIX = "__ENC__:";
+const IV_LENGTH = 12;
+
+/**
+ * Returns the WebCrypto implementation of the environment.
+ */
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error(
+      "[LocalStorage] Encryption requires an environment with WebCrypto support.",
+    );
+  }
+  return subtle;
+}
+
+/**
+ * Converts a string to bytes using its UTF-16 code units, so that the lone
+ * surrogates produced by lz-string survive the round trip.
+ */
+function toBytes(value: string): Uint8Array {
+  const units = new Uint16Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    units[i] = value.charCodeAt(i);
+  }
+  return new Uint8Array(units.buffer);
+}
+
+function fromBytes(bytes: Uint8Array): string {
+  const units = new Uint16Array(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength / 2,
+  );
+  let value = "";
+  for (let i = 0; i < units.length; i += 8192) {
+    value += String.fromCharCode(...units.subarray(i, i + 8192));
+  }
+  return value;
+}
+
+/**
+ * Checks whether a raw stored value was written encrypted.
+ */
+export function isEncrypted(storageValue: string | null): boolean {
+  return !!storageValue && storageValue.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Returns the id of the key an encrypted value was written with.
+ */
+export function getEncryptionKeyId(storageValue: string): string {
+  return storageValue.slice(ENCRYPTED_PREFIX.length).split(":")[0];
+}
+
+/**
+ * Encrypts a serialized item with AES-GCM. The storage key is used as additional
+ * authenticated data, so a ciphertext cannot be moved to another key.
+ *
+ * @param value - The serialized, and possibly compressed, item.
+ * @param encryptionKey - The key to encrypt with.
+ * @param storageKey - The full key the value is stored under.
+ * @returns The encrypted value, tagged with the id of the key.
+ */
+export async function encryptValue(
+  value: string,
+  { id, key }: EncryptionKey,
+  storageKey: string,
+): Promise<string> {
+  if (id.includes(":")) {
+    throw new Error(`[LocalStorage] Invalid encryption key id "${id}".`);
+  }
+
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await getSubtle().encrypt(
+    { name: "AES-GCM", iv, additionalData: toBytes(storageKey) },
+    key,
+    toBytes(value),
+  );
+
+  return `${ENCRYPTED_PREFIX}${id}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypts a value written by `encryptValue`, asking the provider for the key it was written with.
+ *
+ * @param storageValue - The raw encrypted value.
+ * @param provider - Resolves keys by id.
+ * @param storageKey - The full key the value is stored under.
+ * @returns The serialized item.
+ * @throws If the key is unknown, or the value was tampered with or moved to another key.
+ */
+export async function decryptValue(
+  storageValue: string,
+  provider: EncryptionKeyProvider,
+  storageKey: string,
+): Promise<string> {
+  const [id, iv, ciphertext] = storageValue
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(":");
+  const { key } = await provider(id);
+
+  const plaintext = await getSubtle().decrypt(
+    {
+      name: "AES-GCM",
+      iv: fromBase64(iv),
+      additionalData: toBytes(storageKey),
+    },
+    key,
+    fromBase64(ciphertext),
+  );
+
+  return fromBytes(new Uint8Array(plaintext));
+}
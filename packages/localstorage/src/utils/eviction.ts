@@ -0,0 +1,57 @@
+import type { EvictionStrategy } from "../core/types";
+
+/**
+ * An entry that may be evicted to free space for a new write.
+ */
+export interface EvictionCandidate {
+  key: string;
+  size: number;
+  timestamp: number;
+  ttl?: number;
+  lastAccess?: number;
+  hits?: number;
+}
+
+/**
+ * Returns the time of the most recent write or read of a candidate.
+ */
+const recency = (candidate: EvictionCandidate): number =>
+  Math.max(candidate.timestamp, candidate.lastAccess ?? 0);
+
+/**
+ * Returns the expiration time of a candidate, or Infinity when it has no TTL.
+ */
+const expiresAt = (candidate: EvictionCandidate): number =>
+  candidate.ttl ? candidate.timestamp + candidate.ttl : Infinity;
+
+const comparators: Record<
+  EvictionStrategy,
+  (a: EvictionCandidate, b: EvictionCandidate) => number
+> = {
+  lru: (a, b) => recency(a) - recency(b),
+  lfu: (a, b) => (a.hits ?? 0) - (b.hits ?? 0) || recency(a) - recency(b),
+  "ttl-first": (a, b) => {
+    const expiration = expiresAt(a) - expiresAt(b);
+    return Number.isNaN(expiration) || expiration === 0
+      ? recency(a) - recency(b)
+      : expiration;
+  },
+};
+
+/**
+ * Orders candidates so that the ones to evict first come first.
+ *
+ * - `lru`: least recently written or read entries first.
+ * - `lfu`: least frequently read entries first, then least recently used.
+ * - `ttl-first`: entries closest to expiring (or already expired) first, then least recently used.
+ *
+ * @param candidates - The entries that may be evicted.
+ * @param strategy - The eviction strategy. Defaults to 'lru'.
+ * @returns A new array sorted in eviction order.
+ */
+export function orderForEviction(
+  candidates: EvictionCandidate[],
+  strategy: EvictionStrategy = "lru",
+): EvictionCandidate[] {
+  return [...candidates].sort(comparators[strategy]);
+}
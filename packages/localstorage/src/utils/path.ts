@@ -0,0 +1,67 @@
+/**
+ * A path to a nested value, e.g. `["projects", "0", "files"]`.
+ */
+export type Path = string[];
+
+const isContainer = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object";
+
+/**
+ * Splits a dotted path such as `"profile.history"` or `"projects.*.files"`.
+ */
+export function parsePath(path: string): Path {
+  return path.split(".");
+}
+
+/**
+ * Reads the value at a path, or undefined if any segment is missing.
+ */
+export function getPath(value: unknown, path: Path): any {
+  return path.reduce<any>(
+    (current, segment) => (isContainer(current) ? current[segment] : undefined),
+    value,
+  );
+}
+
+/**
+ * Returns a copy of a value with the value at a path replaced. Only the objects and
+ * arrays along the path are copied.
+ */
+export function setPath<T>(value: T, path: Path, newValue: unknown): T {
+  if (!path.length) return newValue as T;
+
+  const [segment, ...rest] = path;
+  const source = value as Record<string, any>;
+  const copy: Record<string, any> = Array.isArray(source)
+    ? [...source]
+    : { ...source };
+  copy[segment] = setPath(source[segment], rest, newValue);
+  return copy as T;
+}
+
+/**
+ * Lists the concrete paths a pattern matches in a value, expanding `*` over the
+ * keys of objects and the indexes of arrays. Paths to missing values are left out,
+ * and so is anything below a value for which `stop` returns true.
+ *
+ * @example
+ * ```typescript
+ * expandPath({ projects: [{ files: [] }, { files: [] }] }, ["projects", "*", "files"]);
+ * // [["projects", "0", "files"], ["projects", "1", "files"]]
+ * ```
+ */
+export function expandPath(
+  value: unknown,
+  pattern: Path,
+  stop: (value: unknown) => boolean = () => false,
+): Path[] {
+  if (!pattern.length) return value === undefined ? [] : [[]];
+  if (!isContainer(value) || stop(value)) return [];
+
+  const [segment, ...rest] = pattern;
+  const segments = segment === "*" ? Object.keys(value) : [segment];
+
+  return segments.flatMap((key) =>
+    expandPath(value[key], rest, stop).map((path) => [key, ...path]),
+  );
+}
@@ -0,0 +1,47 @@
+import type { KeyPattern } from "../core/types";
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Converts a glob into an anchored regular expression.
+ * `**` matches any sequence of characters and `*` any sequence without `:`.
+ */
+function globToRegExp(glob: string): RegExp {
+  let regexp = compiled.get(glob);
+  if (!regexp) {
+    const source = glob
+      .split("**")
+      .map((part) =>
+        part
+          .split("*")
+          .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+          .join("[^:]*"),
+      )
+      .join(".*");
+    regexp = new RegExp(`^${source}$`);
+    compiled.set(glob, regexp);
+  }
+  return regexp;
+}
+
+/**
+ * Checks whether a key matches a glob or regular expression.
+ *
+ * @param key - The key without the storage prefix.
+ * @param pattern - A glob such as `user:*` or a regular expression.
+ * @returns True if the key matches the pattern.
+ *
+ * @example
+ * ```typescript
+ * matchesPattern("user:42", "user:*"); // true
+ * matchesPattern("user:42:posts", "user:*"); // false
+ * matchesPattern("user:42:posts", "user:**"); // true
+ * ```
+ */
+export function matchesPattern(key: string, pattern: KeyPattern): boolean {
+  if (typeof pattern === "string") {
+    return globToRegExp(pattern).test(key);
+  }
+  pattern.lastIndex = 0;
+  return pattern.test(key);
+}
@@ -0,0 +1,158 @@
+import { isBinary, packBinary, unpackBinary } from "./binary";
+
+/**
+ * Property holding the type of a tagged value, e.g. `{ "__type": "Date", "value": "2024-01-01T00:00:00.000Z" }`.
+ */
+const TYPE = "__type";
+
+type Replacer = (this: any, key: string, value: any) => any;
+type Reviver = (this: any, key: string, value: any) => any;
+
+/**
+ * Replaces a value that JSON cannot represent with a tagged object. Plain objects that
+ * have a `__type` property of their own are wrapped, so they are not mistaken for tags.
+ */
+function toTagged(value: unknown, wrapped: WeakSet<object>): unknown {
+  if (value === undefined) return { [TYPE]: "undefined" };
+  if (typeof value === "bigint")
+    return { [TYPE]: "BigInt", value: String(value) };
+  if (value === null || typeof value !== "object") return value;
+
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return { [TYPE]: "Date", value: isNaN(time) ? null : value.toISOString() };
+  }
+  if (value instanceof Map) return { [TYPE]: "Map", value: [...value] };
+  if (value instanceof Set) return { [TYPE]: "Set", value: [...value] };
+  if (value instanceof RegExp) {
+    return {
+      [TYPE]: "RegExp",
+      value: { source: value.source, flags: value.flags },
+    };
+  }
+  if (
+    isBinary(value) &&
+    !(typeof Blob !== "undefined" && value instanceof Blob)
+  ) {
+    return {
+      [TYPE]: "Binary",
+      value: packBinary(value as ArrayBuffer | ArrayBufferView, "base64"),
+    };
+  }
+  if (
+    Object.prototype.hasOwnProperty.call(value, TYPE) &&
+    !wrapped.has(value)
+  ) {
+    wrapped.add(value);
+    return { [TYPE]: "Object", value };
+  }
+  return value;
+}
+
+/**
+ * Checks whether a parsed object is a tag written by `toTagged`.
+ */
+function isTagged(value: Record<string, unknown>): boolean {
+  const keys = Object.keys(value);
+  return (
+    typeof value[TYPE] === "string" &&
+    keys.every((key) => key === TYPE || key === "value")
+  );
+}
+
+/**
+ * Revives the children of an object or array in place, bottom-up.
+ */
+function reviveChildren<T extends object>(container: T, reviver?: Reviver): T {
+  for (const key of Object.keys(container)) {
+    (container as any)[key] = revive(container, key, reviver);
+  }
+  return container;
+}
+
+/**
+ * Revives the value at `holder[key]`, calling the reviver like `JSON.parse` does. Unlike
+ * `JSON.parse`, a value revived as `undefined` keeps its key.
+ */
+function revive(holder: any, key: string, reviver?: Reviver): any {
+  let value = holder[key];
+
+  if (value !== null && typeof value === "object") {
+    value = isTagged(value)
+      ? fromTagged(value, reviver)
+      : reviveChildren(value, reviver);
+  }
+  return reviver ? reviver.call(holder, key, value) : value;
+}
+
+function fromTagged(tagged: Record<string, any>, reviver?: Reviver): unknown {
+  const { value } = tagged;
+
+  switch (tagged[TYPE]) {
+    case "undefined":
+      return undefined;
+    case "BigInt":
+      return BigInt(value);
+    case "Date":
+      return new Date(value ?? NaN);
+    case "Map":
+      return new Map(reviveChildren(value, reviver));
+    case "Set":
+      return new Set(reviveChildren(value, reviver));
+    case "RegExp":
+      return new RegExp(value.source, value.flags);
+    case "Binary":
+      return unpackBinary(value);
+    case "Object":
+      return reviveChildren(value, reviver);
+    default:
+      return reviveChildren(tagged, reviver);
+  }
+}
+
+/**
+ * Serializes a value to JSON, tagging the types JSON cannot represent so that `parse`
+ * restores them: `Date`, `Map`, `Set`, `BigInt`, `RegExp`, `ArrayBuffer`, typed arrays,
+ * `DataView` and `undefined`.
+ *
+ * @param value - The value to serialize.
+ * @param replacer - Called like the replacer of `JSON.stringify`, but with the value before `toJSON`.
+ * @param space - Indentation, as in `JSON.stringify`.
+ *
+ * @example
+ * ```typescript
+ * const text = stringify({ at: new Date(0), tags: new Set(["a"]) });
+ * parse(text); // { at: Date, tags: Set { "a" } }
+ * ```
+ */
+export function stringify(
+  value: unknown,
+  replacer?: Replacer,
+  space?: number,
+): string {
+  const wrapped = new WeakSet<object>();
+
+  return JSON.stringify(
+    value,
+    function (this: any, key: string) {
+      const original = this[key];
+      const replaced = replacer ? replacer.call(this, key, original) : original;
+
+      // A replacer returning undefined removes the value, as with JSON.stringify
+      if (replaced === undefined && original !== undefined) return undefined;
+      return toTagged(replaced, wrapped);
+    },
+    space,
+  );
+}
+
+/**
+ * Parses JSON written by `stringify`, reviving tagged values. JSON without tags is
+ * parsed as by `JSON.parse`.
+ *
+ * @param text - The JSON to parse.
+ * @param reviver - Called like the reviver of `JSON.parse`, with tagged values already revived.
+ */
+export function parse(text: string, reviver?: Reviver): any {
+  return revive({ "": JSON.parse(text) }, "", reviver);
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { deflateCodec, lzCodec, lzUTF16Codec, noneCodec } from "../codecs";
+import { TypedCompression } from "../compression";
+
+const text = JSON.stringify(
+  Array.from({ length: 200 }, (_, i) => ({ id: i, title: `Item ${i} ✓` })),
+);
+
+describe("codecs", () => {
+  it.each([lzCodec, lzUTF16Codec, noneCodec])(
+    "should round-trip with the $name codec",
+    (codec) => {
+      expect(codec.decode(codec.encode(text) as string)).toBe(text);
+    },
+  );
+
+  it("should only produce valid UTF-16 with lz-utf16", () => {
+    const encoded = lzUTF16Codec.encode(text) as string;
+
+    expect(encoded.isWellFormed?.() ?? true).toBe(true);
+    expect(encoded.length).toBeLessThan(text.length);
+  });
+
+  it("should round-trip with the deflate codec", async () => {
+    const encoded = await deflateCodec.encode(text);
+
+    expect(encoded.length).toBeLessThan(text.length / 2);
+    await expect(deflateCodec.decode(encoded)).resolves.toBe(text);
+  });
+
+  it("should round-trip odd byte lengths with the deflate codec", async () => {
+    for (const value of ["", "a", "ab", "abc"]) {
+      await expect(
+        deflateCodec.decode(await deflateCodec.encode(value)),
+      ).resolves.toBe(value);
+    }
+  });
+});
+
+describe("TypedCompression with codecs", () => {
+  const rows = JSON.parse(text);
+  const large = { summary: "small", body: "a".repeat(2000), tags: ["x"] };
+
+  it.each(["lz", "lz-utf16", "none"])(
+    "should round-trip every layout with the %s codec",
+    (codec) => {
+      for (const mode of ["auto", "aggressive"] as const) {
+        for (const value of [rows, large, "b".repeat(20000)]) {
+          const stored = TypedCompression.compressData(value, { codec, mode });
+
+          expect(stored.startsWith(`__TC__:2:${codec}:`)).toBe(true);
+          expect(TypedCompression.decompressData(stored)).toEqual(value);
+        }
+      }
+    },
+  );
+
+  it("should round-trip every layout with the deflate codec", async () => {
+    for (const mode of ["auto", "aggressive"] as const) {
+      for (const value of [rows, large, "b".repeat(20000)]) {
+        const stored = await TypedCompression.compressDataAsync(value, {
+          codec: "deflate",
+          mode,
+        });
+
+        await expect(
+          TypedCompression.decompressDataAsync(stored),
+        ).resolves.toEqual(value);
+      }
+    }
+  });
+
+  it("should require the async methods for asynchronous codecs", async () => {
+    expect(() =>
+      TypedCompression.compressData(rows, { codec: "deflate" }),
+    ).toThrow(TypeError);
+
+    const stored = await TypedCompression.compressDataAsync(rows, {
+      codec: "deflate",
+    });
+    expect(() => TypedCompression.decompressData(stored)).toThrow(TypeError);
+  });
+
+  it("should keep the order of the fields of selective objects", () => {
+    const stored = TypedCompression.compressData(large, { mode: "aggressive" });
+
+    expect(stored).toMatch(/^__TC__:2:lz:selective:json:/);
+    expect(Object.keys(TypedCompression.decompressData(stored))).toEqual([
+      "summary",
+      "body",
+      "tags",
+    ]);
+  });
+
+  it("should round-trip rich types with the structured serializer", () => {
+    const events = rows.map((row: { id: number }) => ({
+      ...row,
+      at: new Date(row.id),
+    }));
+
+    for (const value of [new Date(0), new Map([["a", 1n]]), events]) {
+      for (const mode of ["auto", "aggressive"] as const) {
+        const stored = TypedCompression.compressData(value, {
+          serializer: "structured",
+          mode,
+        });
+
+        expect(TypedCompression.decompressData(stored)).toEqual(value);
+      }
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { EvictionCandidate, orderForEviction } from "../eviction";
+
+const keys = (candidates: EvictionCandidate[]) =>
+  candidates.map((candidate) => candidate.key);
+
+describe("orderForEviction", () => {
+  const candidates: EvictionCandidate[] = [
+    { key: "recent", size: 10, timestamp: 300, hits: 1 },
+    { key: "old", size: 10, timestamp: 100, hits: 5 },
+    { key: "read", size: 10, timestamp: 50, lastAccess: 400, hits: 3 },
+    { key: "expiring", size: 10, timestamp: 200, ttl: 50, hits: 9 },
+  ];
+
+  it("should evict least recently used entries first by default", () => {
+    expect(keys(orderForEviction(candidates))).toEqual([
+      "old",
+      "expiring",
+      "recent",
+      "read",
+    ]);
+  });
+
+  it("should evict least frequently used entries first", () => {
+    expect(keys(orderForEviction(candidates, "lfu"))).toEqual([
+      "recent",
+      "read",
+      "old",
+      "expiring",
+    ]);
+  });
+
+  it("should evict entries closest to expiring first", () => {
+    expect(keys(orderForEviction(candidates, "ttl-first"))).toEqual([
+      "expiring",
+      "old",
+      "recent",
+      "read",
+    ]);
+  });
+
+  it("should not mutate the given array", () => {
+    const copy = [...candidates];
+    orderForEviction(candidates, "lfu");
+    expect(candidates).toEqual(copy);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { expandPath, getPath, parsePath, setPath } from "../path";
+
+describe("path", () => {
+  const value = {
+    profile: { history: [1, 2] },
+    projects: [{ files: ["a"] }, { name: "empty" }, { files: ["b"] }],
+  };
+
+  it("should read nested values", () => {
+    expect(getPath(value, parsePath("profile.history"))).toEqual([1, 2]);
+    expect(getPath(value, parsePath("projects.2.files"))).toEqual(["b"]);
+    expect(getPath(value, parsePath("profile.missing.deep"))).toBeUndefined();
+  });
+
+  it("should replace nested values without mutating the original", () => {
+    const updated = setPath(value, ["projects", "0", "files"], []);
+
+    expect(updated.projects[0]).toEqual({ files: [] });
+    expect(Array.isArray(updated.projects)).toBe(true);
+    expect(updated.profile).toBe(value.profile);
+    expect(value.projects[0].files).toEqual(["a"]);
+  });
+
+  it("should expand wildcards over existing values", () => {
+    expect(expandPath(value, parsePath("projects.*.files"))).toEqual([
+      ["projects", "0", "files"],
+      ["projects", "2", "files"],
+    ]);
+    expect(expandPath(value, parsePath("*.history"))).toEqual([
+      ["profile", "history"],
+    ]);
+    expect(expandPath(value, parsePath("missing.*"))).toEqual([]);
+  });
+
+  it("should not expand below values matched by stop", () => {
+    const marked = { profile: { __lazy: true, history: [] } };
+
+    expect(
+      expandPath(marked, parsePath("profile.history"), (v: any) => v.__lazy),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { matchesPattern } from "../pattern";
+
+describe("matchesPattern", () => {
+  it("should match exact keys", () => {
+    expect(matchesPattern("settings", "settings")).toBe(true);
+    expect(matchesPattern("settings:theme", "settings")).toBe(false);
+  });
+
+  it("should match a single segment with *", () => {
+    expect(matchesPattern("user:42", "user:*")).toBe(true);
+    expect(matchesPattern("user:42:posts", "user:*")).toBe(false);
+    expect(matchesPattern("user:42:posts", "user:*:posts")).toBe(true);
+  });
+
+  it("should match across segments with **", () => {
+    expect(matchesPattern("cache:a:b:c", "cache:**")).toBe(true);
+    expect(matchesPattern("other:a", "cache:**")).toBe(false);
+  });
+
+  it("should treat regular expression characters in globs literally", () => {
+    expect(matchesPattern("file.json", "file.json")).toBe(true);
+    expect(matchesPattern("fileXjson", "file.json")).toBe(false);
+  });
+
+  it("should match regular expressions, including global ones", () => {
+    const pattern = /^user:\d+$/g;
+    expect(matchesPattern("user:1", pattern)).toBe(true);
+    expect(matchesPattern("user:2", pattern)).toBe(true);
+    expect(matchesPattern("user:x", pattern)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { parse, stringify } from "../serializer";
+
+describe("serializer", () => {
+  const roundTrip = <T>(value: T): T => parse(stringify(value));
+
+  it("should restore dates, including invalid ones", () => {
+    const result = roundTrip({ at: new Date(0), invalid: new Date("x") });
+
+    expect(result.at).toBeInstanceOf(Date);
+    expect(result.at.getTime()).toBe(0);
+    expect(isNaN(result.invalid.getTime())).toBe(true);
+  });
+
+  it("should restore maps and sets with nested values", () => {
+    const value = new Map<string, unknown>([
+      ["created", new Date(1000)],
+      ["tags", new Set(["a", "b"])],
+    ]);
+
+    const result = roundTrip(value);
+
+    expect(result).toBeInstanceOf(Map);
+    expect(result.get("created")).toEqual(new Date(1000));
+    expect(result.get("tags")).toEqual(new Set(["a", "b"]));
+  });
+
+  it("should restore bigints, regular expressions and typed arrays", () => {
+    const result = roundTrip({
+      big: 2n ** 70n,
+      pattern: /a+b/gi,
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float32Array([0.5]),
+      buffer: new Uint8Array([7]).buffer,
+    });
+
+    expect(result.big).toBe(2n ** 70n);
+    expect(result.pattern).toEqual(/a+b/gi);
+    expect(result.bytes).toEqual(new Uint8Array([1, 2, 255]));
+    expect(result.floats).toEqual(new Float32Array([0.5]));
+    expect(result.buffer).toBeInstanceOf(ArrayBuffer);
+  });
+
+  it("should keep undefined values and their keys", () => {
+    const result = roundTrip({ a: undefined, list: [1, undefined] });
+
+    expect("a" in result).toBe(true);
+    expect(result.list).toStrictEqual([1, undefined]);
+    expect(roundTrip(undefined)).toBeUndefined();
+  });
+
+  it("should not mistake objects with a __type property for tags", () => {
+    const value = { __type: "Date", value: "2024-01-01", other: true };
+
+    expect(roundTrip(value)).toEqual(value);
+    expect(roundTrip({ nested: { __type: "Map" } })).toEqual({
+      nested: { __type: "Map" },
+    });
+  });
+
+  it("should parse plain JSON like JSON.parse", () => {
+    expect(parse('{"a":[1,"b",null]}')).toEqual({ a: [1, "b", null] });
+  });
+
+  it("should call the replacer and reviver", () => {
+    const text = stringify({ secret: "x", at: new Date(0) }, (key, value) =>
+      key === "secret" ? undefined : value,
+    );
+    const result = parse(text, function (key, value) {
+      return value instanceof Date ? value.getTime() : value;
+    });
+
+    expect(result).toStrictEqual({ at: 0 });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { validateValue } from "../validation";
+import type { JSONSchema, StandardSchemaV1 } from "../../core/types";
+
+const userSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    role: { enum: ["admin", "user"] },
+    tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+  },
+  required: ["name"],
+  additionalProperties: false,
+};
+
+const standardSchema = (
+  validate: (value: unknown) => StandardSchemaV1.Result<unknown>,
+): StandardSchemaV1 => ({
+  "~standard": { version: 1, vendor: "test", validate },
+});
+
+describe("validateValue", () => {
+  describe("JSON Schema", () => {
+    it("should accept valid values", () => {
+      const value = { name: "John", age: 30, role: "admin", tags: ["a"] };
+
+      expect(validateValue(userSchema, value)).toEqual({
+        success: true,
+        data: value,
+      });
+    });
+
+    it("should report every issue with its path", () => {
+      const result = validateValue(userSchema, {
+        age: 1.5,
+        role: "guest",
+        tags: ["a", 2, "c"],
+        extra: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.issues).toEqual([
+        { path: ["name"], message: "Required" },
+        { path: ["age"], message: "Expected integer, received number" },
+        { path: ["role"], message: 'Expected one of "admin", "user"' },
+        { path: ["tags"], message: "Expected at most 2 items" },
+        { path: ["tags", 1], message: "Expected string, received number" },
+        { path: ["extra"], message: "Unexpected property" },
+      ]);
+    });
+
+    it("should support string, number and union constraints", () => {
+      const schema: JSONSchema = {
+        anyOf: [
+          { type: "string", pattern: "^[a-z]+$", maxLength: 3 },
+          { type: "number", maximum: 10 },
+        ],
+      };
+
+      expect(validateValue(schema, "abc").success).toBe(true);
+      expect(validateValue(schema, 5).success).toBe(true);
+      expect(validateValue(schema, "abcd").success).toBe(false);
+      expect(validateValue(schema, 11).success).toBe(false);
+      expect(validateValue({ const: null }, null).success).toBe(true);
+      expect(validateValue({ type: ["string", "null"] }, null).success).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("Standard Schema", () => {
+    it("should return the validated output", () => {
+      const schema = standardSchema((value) => ({
+        value: { ...(value as object), defaulted: true },
+      }));
+
+      expect(validateValue(schema, { a: 1 })).toEqual({
+        success: true,
+        data: { a: 1, defaulted: true },
+      });
+    });
+
+    it("should normalize issue paths", () => {
+      const schema = standardSchema(() => ({
+        issues: [
+          { message: "Invalid", path: ["items", { key: 0 }, "name"] },
+          { message: "Root" },
+        ],
+      }));
+
+      expect(validateValue(schema, {})).toEqual({
+        success: false,
+        issues: [
+          { path: ["items", 0, "name"], message: "Invalid" },
+          { path: [], message: "Root" },
+        ],
+      });
+    });
+
+    it("should reject asynchronous validators", () => {
+      const schema: StandardSchemaV1 = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: async (value) => ({ value }),
+        },
+      };
+
+      expect(() => validateValue(schema, {})).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import type {
+  JSONSchema,
+  JSONSchemaType,
+  StandardSchemaV1,
+  StorageValidator,
+  ValidationIssue,
+  ValidationResult,
+} from "../core/types";
+
+type Path = (string | number)[];
+
+/**
+ * Returns the JSON Schema type name of a value.
+ */
+const typeOf = (value: unknown): string =>
+  Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+const matchesType = (value: unknown, type: JSONSchemaType): boolean =>
+  type === "integer"
+    ? Number.isInteger(value)
+    : type === "number"
+      ? typeof value === "number" && Number.isFinite(value)
+      : typeOf(value) === type;
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Checks a value against the supported subset of JSON Schema, collecting every issue found.
+ */
+function checkSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path: Path,
+  issues: ValidationIssue[],
+): void {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({
+        path,
+        message: `Expected ${types.join(" | ")}, received ${typeOf(value)}`,
+      });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    issues.push({
+      path,
+      message: `Expected ${JSON.stringify(schema.const)}`,
+    });
+  }
+
+  if (schema.enum && !schema.enum.some((option) => isEqual(value, option))) {
+    issues.push({
+      path,
+      message: `Expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+    });
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some((option) => {
+      const optionIssues: ValidationIssue[] = [];
+      checkSchema(option, value, path, optionIssues);
+      return optionIssues.length === 0;
+    });
+    if (!matches) {
+      issues.push({ path, message: "Value does not match any allowed schema" });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({
+        path,
+        message: `Expected at least ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({
+        path,
+        message: `Expected at most ${schema.maxLength} characters`,
+      });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `Expected to match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `Expected a value >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `Expected a value <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `Expected at least ${schema.minItems} items`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        message: `Expected at most ${schema.maxItems} items`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        checkSchema(schema.items!, item, [...path, index], issues),
+      );
+    }
+  } else if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+
+    for (const property of schema.required ?? []) {
+      if (!(property in record)) {
+        issues.push({ path: [...path, property], message: "Required" });
+      }
+    }
+
+    for (const [property, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[property];
+      if (propertySchema) {
+        checkSchema(propertySchema, propertyValue, [...path, property], issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          path: [...path, property],
+          message: "Unexpected property",
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        checkSchema(
+          schema.additionalProperties,
+          propertyValue,
+          [...path, property],
+          issues,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a validator implements the Standard Schema interface.
+ */
+export function isStandardSchema(
+  validator: StorageValidator<unknown>,
+): validator is StandardSchemaV1 {
+  return (
+    typeof validator === "object" &&
+    validator !== null &&
+    "~standard" in validator
+  );
+}
+
+/**
+ * Validates a value with a JSON Schema or a Standard Schema validator such as zod or valibot.
+ * Standard Schema validators may transform the value; the transformed value is returned as `data`.
+ *
+ * @param validator - The validator to apply.
+ * @param value - The value to validate.
+ * @returns The validated value, or the list of issues found.
+ * @throws {TypeError} If the validator is asynchronous, since storage reads and writes are synchronous.
+ *
+ * @example
+ * ```typescript
+ * validateValue({ type: "object", required: ["id"] }, {});
+ * // { success: false, issues: [{ path: ["id"], message: "Required" }] }
+ * ```
+ */
+export function validateValue<T>(
+  validator: StorageValidator<T>,
+  value: unknown,
+): ValidationResult<T> {
+  if (isStandardSchema(validator)) {
+    const result = validator["~standard"].validate(value);
+    if (result instanceof Promise) {
+      throw new TypeError(
+        "[JSONStorage] Asynchronous validators are not supported.",
+      );
+    }
+    if (result.issues) {
+      return {
+        success: false,
+        issues: result.issues.map(({ message, path = [] }) => ({
+          message,
+          path: path.map((segment) => {
+            const key = typeof segment === "object" ? segment.key : segment;
+            return typeof key === "number" ? key : String(key);
+          }),
+        })),
+      };
+    }
+    return { success: true, data: result.value as T };
+  }
+
+  const issues: ValidationIssue[] = [];
+  checkSchema(validator, value, [], issues);
+  return issues.length
+    ? { success: false, issues }
+    : { success: true, data: value as T };
+}